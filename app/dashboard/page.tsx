@@ -25,6 +25,7 @@ import {
   Plus,
   FileText,
   ChevronDown,
+  Upload,
 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
@@ -42,6 +43,10 @@ import { CallManager } from "@/lib/call-management"
 import { supabase } from "@/lib/supabase"
 import { UpcomingCallsManager, UpcomingCall } from "@/lib/upcoming-calls-manager"
 import { DocumentUploadService } from "@/lib/document-upload-service"
+import { BatchTranscriptionService, BatchImportProgress } from "@/lib/batch-transcription"
+import { DiscoData, DiscoInsight, fieldInsights } from "@/lib/disco"
+import { QualificationFramework } from "@/lib/frameworks"
+import { ChunkedRecordingUpload } from "@/lib/recording-upload"
 
 
 // Mock data for the dashboard
@@ -56,128 +61,55 @@ const mockTranscriptionData = {
   }
 }
 
-// Helper function to get DISCO panel data
-const getDiscoPanelData = (discoData: any) => {
-  // Helper function to check if value is meaningful (for fallback text)
-  const hasMeaningfulData = (value: any) => {
-    return value && 
-           value !== "None yet" && 
-           value !== "none yet" && 
-           value !== "None" && 
-           value !== "none" && 
-           value.trim() !== "";
-  };
-  
-  // Helper function to format content for display
-  const formatContent = (value: any, fallback: string) => {
-    if (!value) return fallback;
-    
-    // If it's "None yet" or similar, show it as is
-    if (value === "None yet" || value === "none yet" || value === "None" || value === "none") {
-      return value;
-    }
-    
-    // If it's an array, join it with bullet points
-    if (Array.isArray(value)) {
-      return value.map(item => `• ${item}`).join('\n');
-    }
-    
-    // If it's a string, check if it contains bullet points or needs formatting
-    if (typeof value === 'string') {
-      // If it already contains bullet points, return as is
-      if (value.includes('•') || value.includes('-') || value.includes('*')) {
-        return value;
-      }
-      
-      // If it contains line breaks or multiple sentences, format as bullet points
-      if (value.includes('\n') || (value.includes('. ') && value.split('. ').length > 2)) {
-        const lines = value.split('\n').filter(line => line.trim());
-        if (lines.length > 1) {
-          return lines.map(line => `• ${line.trim()}`).join('\n');
-        }
-        
-        // Split by sentences and format as bullet points
-        const sentences = value.split('. ').filter(sentence => sentence.trim());
-        if (sentences.length > 1) {
-          return sentences.map(sentence => `• ${sentence.trim()}`).join('\n');
-        }
-      }
-      
-      // If it's a single sentence, return as is
-      return value;
-    }
-    
-    // Otherwise return the value as is
-    return value;
-  };
-  
-  const panels = [
-    {
-      id: "decision",
-      letter: "D",
-      title: "Decision Criteria",
-      color: "bg-blue-500",
-      content: formatContent(
-        discoData.Decision_Criteria, 
-        "What factors is the buyer using to evaluate potential solutions?"
-      ),
-      isVisible: true
-    },
-    {
-      id: "impact", 
-      letter: "I",
-      title: "Impact",
-      color: "bg-green-500",
-      content: formatContent(
-        discoData.Impact,
-        "What are the business or technical impacts if this problem is solved?"
-      ),
-      isVisible: true
-    },
-    {
-      id: "situation",
-      letter: "S", 
-      title: "Situation",
-      color: "bg-purple-500",
-      content: formatContent(
-        discoData.Situation,
-        "What is the current state of the buyer's tools, workflow, or operations?"
-      ),
-      isVisible: true
-    },
-    {
-      id: "challenges",
-      letter: "C",
-      title: "Challenges", 
-      color: "bg-red-500",
-      content: formatContent(
-        discoData.Challenges,
-        "What pain points or limitations is the buyer currently facing?"
-      ),
-      isVisible: true
-    },
-    {
-      id: "objectives",
-      letter: "O",
-      title: "Objectives",
-      color: "bg-orange-500", 
-      content: formatContent(
-        discoData.Objectives,
-        "What goals is the buyer trying to achieve in the next 3-12 months?"
-      ),
-      isVisible: true
-    },
-  {
-    id: "empty",
-    letter: "",
-    title: "",
-    color: "",
-    content: "",
-    isVisible: false
+// Helper function to get the panels of the call's qualification framework. Fields alternate
+// between the left and right columns, which for DISCO gives D/S/O on the left and I/C on the right.
+const getDiscoPanelData = (framework: QualificationFramework, discoData: DiscoData) =>
+  framework.fields.map((field, index) => ({
+    id: field.key,
+    letter: field.letter,
+    title: field.label,
+    color: field.color,
+    items: fieldInsights(discoData, field.key),
+    placeholder: field.prompt,
+    column: index % 2 === 0 ? 'left' : 'right',
+    isVisible: true
+  }))
+
+// A DISCO panel's insights, each followed by the transcript lines it is based on (#n = nth line)
+const DiscoPanelContent = ({ items, placeholder, entries }: {
+  items: DiscoInsight[]
+  placeholder: string
+  entries: Map<string, { number: number; label: string }>
+}) => {
+  if (items.length === 0) {
+    return <p className="text-sm leading-relaxed text-gray-600">{placeholder}</p>
   }
-  ];
-  
-  return panels;
+
+  return (
+    <ul className="text-sm leading-relaxed text-gray-600 space-y-1">
+      {items.map((insight) => {
+        const start = insight.source && entries.get(insight.source.start_entry_id)
+        const end = insight.source && entries.get(insight.source.end_entry_id)
+        return (
+          <li
+            key={insight.id}
+            className={`flex items-start ${insight.status === 'contradicted' ? 'line-through text-gray-400' : ''}`}
+            title={`${insight.status}, ${Math.round(insight.confidence * 100)}% confidence`}
+          >
+            <span className="mr-2">•</span>
+            <span className={insight.status === 'assumed' ? 'italic' : ''}>
+              {insight.text}
+              {start && end && (
+                <span title={start === end ? start.label : `${start.label}\n…\n${end.label}`} className="ml-1 text-[10px] text-gray-400 cursor-help not-italic">
+                  #{start.number}{end.number !== start.number ? `–${end.number}` : ''}
+                </span>
+              )}
+            </span>
+          </li>
+        )
+      })}
+    </ul>
+  )
 }
 
 export default function DashboardPage() {
@@ -197,6 +129,7 @@ export default function DashboardPage() {
   const scrollAreaRef = useRef<HTMLDivElement>(null);
   const genieMessagesEndRef = useRef<HTMLDivElement>(null);
   const genieScrollAreaRef = useRef<HTMLDivElement>(null);
+  const genieAnalysisScrollRef = useRef<HTMLDivElement>(null);
   
   // Transcription functionality
   const {
@@ -212,6 +145,7 @@ export default function DashboardPage() {
     diarizationEnabled,
     allMessages,
     discoData,
+    qualificationFramework,
     isAnalyzingDisco,
     discoError,
     rawDiscoResponse,
@@ -227,18 +161,24 @@ export default function DashboardPage() {
     analyzeDisco,
     analyzeQuick,
     sendAiChat,
+    cancelGenieResponse,
     currentCall,
     transcriptEntries,
     startCall,
     stopCall,
     addTranscriptEntry,
     lastUploadedAudioPath,
-    lastRecordingBlob,
-    getLocalRecordingBlob,
   } = useTranscription()
 
   // Get dynamic DISCO panel data
-  const panels = getDiscoPanelData(discoData)
+  const panels = getDiscoPanelData(qualificationFramework, discoData)
+
+  // Transcript lines DISCO bullets can cite, numbered in transcript order
+  const discoCitationEntries = new Map(
+    allMessages
+      .filter(msg => msg.isFinal && msg.text.trim())
+      .map((msg, index) => [msg.id, { number: index + 1, label: `${msg.username}: ${msg.text}` }])
+  )
   
   // User state for database operations
   const [user, setUser] = useState<any>(null)
@@ -267,6 +207,12 @@ export default function DashboardPage() {
   const [isLoading, setIsLoading] = useState(false)
   const createCallContentRef = useRef<HTMLDivElement | null>(null)
   const [showScrollHint, setShowScrollHint] = useState(false)
+
+  // Import Recording state (batch transcription of calls recorded outside the app)
+  const importFileInputRef = useRef<HTMLInputElement | null>(null)
+  const [importProgress, setImportProgress] = useState<BatchImportProgress | null>(null)
+  const [importError, setImportError] = useState("")
+  const [importedCallId, setImportedCallId] = useState<string | null>(null)
   
   // Initialize user
   useEffect(() => {
@@ -277,11 +223,44 @@ export default function DashboardPage() {
         // Load user's upcoming calls for Start Call modal
         const calls = await UpcomingCallsManager.getUserUpcomingCalls(user.id)
         setUpcomingCalls(calls)
+        // Attach recordings left unfinished by a crash or closed tab to their calls
+        void ChunkedRecordingUpload.finalizeAbandonedRecordings(user.id)
       }
     }
     initializeUser()
   }, [])
 
+  const importStageLabels: Record<BatchImportProgress['stage'], string> = {
+    creating_call: 'Creating call',
+    uploading: 'Uploading recording',
+    queued: 'Queued',
+    fetching_audio: 'Preparing audio',
+    transcribing: 'Transcribing',
+    formatting: 'Formatting transcript',
+    saving: 'Saving transcript',
+    completed: 'Done',
+    failed: 'Failed',
+  }
+
+  const handleImportRecording = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file || !user) return
+
+    setImportError("")
+    setImportedCallId(null)
+    setImportProgress({ stage: 'creating_call', progress: 0 })
+
+    const call = await BatchTranscriptionService.importRecording(file, user.id, setImportProgress)
+    if (call) {
+      setImportedCallId(call.call_id)
+      setImportProgress({ stage: 'completed', progress: 100, callId: call.call_id })
+    } else {
+      setImportProgress(null)
+      setImportError('Could not import the recording. Please try again.')
+    }
+  }
+
   // Auto-start call if navigated with callId from Upcoming Calls
   const searchParams = useSearchParams()
   const hasAutoStartedRef = useRef(false)
@@ -312,8 +291,7 @@ export default function DashboardPage() {
           meetingAgenda: Array.isArray(upcoming.agenda) ? upcoming.agenda : [],
           meetingDescription: upcoming.description || '',
           attendeeEmails: Array.isArray(upcoming.attendees) ? upcoming.attendees : [],
-          transcriptAdminEmail: user.email || '',
-          callLink: (upcoming as any).call_link || undefined,
+                    callLink: (upcoming as any).call_link || undefined,
           assistantId: upcoming.assistant_id,
           threadId: upcoming.thread_id,
         }
@@ -424,21 +402,7 @@ export default function DashboardPage() {
   const [isPostCallModalOpen, setIsPostCallModalOpen] = useState(false)
   const downloadLastRecording = async () => {
     try {
-      // Prefer local in-memory blob recorded during this session
-      const localBlob = lastRecordingBlob || getLocalRecordingBlob()
-      if (localBlob) {
-        const url = URL.createObjectURL(localBlob)
-        const a = document.createElement('a')
-        a.href = url
-        a.download = 'recording.webm'
-        document.body.appendChild(a)
-        a.click()
-        document.body.removeChild(a)
-        URL.revokeObjectURL(url)
-        return
-      }
-
-      // Fallback: use storage path if blob not available
+      // Recordings are streamed to storage during the call; use the finalized object
       let path = lastUploadedAudioPath
       if (!path && user) {
         const { data, error } = await supabase
@@ -495,8 +459,7 @@ export default function DashboardPage() {
         meetingAgenda: Array.isArray(upcoming.agenda) ? upcoming.agenda : [],
         meetingDescription: upcoming.description || '',
         attendeeEmails: Array.isArray(upcoming.attendees) ? upcoming.attendees : [],
-        transcriptAdminEmail: user.email || '',
-        callLink: (upcoming as any).call_link || undefined,
+                callLink: (upcoming as any).call_link || undefined,
         assistantId: upcoming.assistant_id,
         threadId: upcoming.thread_id,
       }
@@ -729,19 +692,10 @@ export default function DashboardPage() {
     e.preventDefault()
     if (userInput.trim()) {
       const userMessage = userInput.trim();
-      
-      // Add user message to quickAnalysisData instead of genieMessages
-      setQuickAnalysisData(prev => {
-        const newContent = `## Your Question\n\n${userMessage}\n\n`;
-        return prev + newContent;
-      });
-      
-      // Send to AI and get response
-      await sendAiChat(userMessage, (response) => {
-        // Response will be added automatically by sendAiChat
-      });
-      
       setUserInput("")
+      
+      // sendAiChat adds the question to quickAnalysisData and streams the answer after it
+      await sendAiChat(userMessage);
     }
   }
 
@@ -752,8 +706,8 @@ export default function DashboardPage() {
       .join('\n');
     
     if (conversation.trim().length > 0) {
-      // Trigger both DISCO analysis and Genie real-time help
-      await analyzeDisco(conversation);
+      // Trigger both DISCO analysis (new final messages only) and Genie real-time help
+      await analyzeDisco();
       await analyzeQuick(conversation);
     } else {
       alert('No conversation content to analyze. Please record some conversation first.');
@@ -797,6 +751,13 @@ export default function DashboardPage() {
     }
   }, [genieMessages]);
 
+  // Follow a Genie answer as it streams in
+  useEffect(() => {
+    if (genieAnalysisScrollRef.current) {
+      genieAnalysisScrollRef.current.scrollTop = genieAnalysisScrollRef.current.scrollHeight;
+    }
+  }, [quickAnalysisData]);
+
   const formatMessageTime = (timestamp: Date) => {
     return timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })
   }
@@ -878,12 +839,56 @@ export default function DashboardPage() {
                     ) : (
                       <>
                         <Layers className="h-4 w-4 mr-2" />
-                        Analyze DISCO
+                        Analyze {qualificationFramework.name}
                       </>
                     )}
                   </Button>
                 )}
                 
+                {/* Import Recording */}
+                {!isRecording && (
+                  <div className="flex items-center gap-2 text-sm">
+                    <input
+                      ref={importFileInputRef}
+                      type="file"
+                      accept="audio/*,video/*"
+                      className="hidden"
+                      onChange={handleImportRecording}
+                    />
+                    {importProgress && importProgress.stage !== 'completed' ? (
+                      <div className="flex items-center gap-2 text-gray-600">
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                        <span>{importStageLabels[importProgress.stage]}… {importProgress.progress}%</span>
+                      </div>
+                    ) : (
+                      <Button
+                        onClick={() => importFileInputRef.current?.click()}
+                        disabled={!user}
+                        variant="outline"
+                        className="px-3 py-2 text-sm font-medium"
+                      >
+                        <Upload className="h-4 w-4 mr-2" />
+                        Import Recording
+                      </Button>
+                    )}
+                    {importedCallId && importProgress?.stage === 'completed' && (
+                      <button
+                        onClick={() => router.push('/?view=recent')}
+                        className="flex items-center gap-1 text-green-600 hover:text-green-700"
+                      >
+                        <CheckCircle className="h-4 w-4" />
+                        <span>Imported</span>
+                      </button>
+                    )}
+                    {importError && (
+                      <span className="flex items-center gap-1 text-red-600">
+                        <AlertCircle className="h-4 w-4" />
+                        {importError}
+                      </span>
+                    )}
+                  </div>
+                )}
+                
                 {/* Recording Controls */}
                 <div className="flex items-center gap-2">
                   {!isRecording ? (
@@ -1248,16 +1253,8 @@ export default function DashboardPage() {
                       /* Genie Content */
                       <>
                         <div className="bg-gray-50 rounded-lg p-3 h-[300px] flex flex-col">
-                          {isAnalyzingQuick ? (
-                            <div className="flex-1 flex items-center justify-center">
-                              <div className="text-center text-gray-500">
-                                <Loader2 className="h-8 w-8 mx-auto mb-3 text-gray-400 animate-spin" />
-                                <p className="text-sm font-medium mb-1">Analyzing conversation...</p>
-                                <p className="text-xs">Getting real-time insights</p>
-                              </div>
-                            </div>
-                          ) : quickAnalysisData ? (
-                            <div className="flex-1 overflow-y-auto">
+                          {quickAnalysisData ? (
+                            <div ref={genieAnalysisScrollRef} className="flex-1 overflow-y-auto">
                               <div className="text-sm text-gray-700 leading-relaxed space-y-4">
                                 {quickAnalysisData.split('\n\n').map((section, index) => {
                                   if (section.trim() === '') return null;
@@ -1293,6 +1290,12 @@ export default function DashboardPage() {
                                     </div>
                                   );
                                 })}
+                                {isAnalyzingQuick && (
+                                  <div className="flex items-center gap-2 text-xs text-gray-500">
+                                    <Loader2 className="h-3 w-3 animate-spin" />
+                                    <span>Genie is answering...</span>
+                                  </div>
+                                )}
                               </div>
                             </div>
                           ) : genieMessages.length > 0 ? (
@@ -1355,20 +1358,29 @@ export default function DashboardPage() {
                             onChange={(e) => setUserInput(e.target.value)}
                             placeholder="Ask a question about the conversation..."
                             className="flex-1 h-9 text-sm"
-                            disabled={isAnalyzingQuick}
                           />
-                          <Button
-                            type="submit"
-                            disabled={!userInput.trim() || isAnalyzingQuick}
-                            size="sm"
-                            className="h-9 px-3 bg-blue-600 hover:bg-blue-700 text-white"
-                          >
-                            {isAnalyzingQuick ? (
-                              <Loader2 className="h-3 w-3 animate-spin" />
-                            ) : (
+                          {isAnalyzingQuick && !userInput.trim() ? (
+                            // Nothing new to ask: offer to stop the answer in progress
+                            <Button
+                              type="button"
+                              onClick={cancelGenieResponse}
+                              size="sm"
+                              variant="outline"
+                              className="h-9 px-3"
+                              title="Stop answer"
+                            >
+                              <Square className="h-3 w-3" />
+                            </Button>
+                          ) : (
+                            <Button
+                              type="submit"
+                              disabled={!userInput.trim()}
+                              size="sm"
+                              className="h-9 px-3 bg-blue-600 hover:bg-blue-700 text-white"
+                            >
                               <Send className="h-3 w-3" />
-                            )}
-                          </Button>
+                            </Button>
+                          )}
                         </form>
                       </>
                     ) : (
@@ -1480,13 +1492,13 @@ export default function DashboardPage() {
               </div>
             )}
 
-            {/* Right Column - SICOD Panels */}
+            {/* Right Column - Qualification Framework Panels */}
             <div className={isTranscriptionVisible ? "lg:col-span-2" : "lg:col-span-1"}>
               <div className="flex gap-8 h-full">
-                {/* Left side - 3 panels */}
+                {/* Left side - first, third, ... field */}
                 <div className="flex-1 flex flex-col space-y-6">
                   {panels
-                    .filter(p => ['decision', 'situation', 'objectives'].includes(p.id) && p.isVisible)
+                    .filter(p => p.column === 'left' && p.isVisible)
                     .map((panel) => (
                       <Card 
                         key={panel.id} 
@@ -1505,28 +1517,16 @@ export default function DashboardPage() {
                           </CardTitle>
                         </CardHeader>
                          <CardContent>
-                           <div className={`text-sm leading-relaxed ${
-                             panel.content === "None yet" || panel.content === "none yet" || panel.content === "None" || panel.content === "none"
-                               ? "text-orange-600 font-medium italic"
-                               : "text-gray-600"
-                           }`}>
-                             {panel.content.includes('\n') ? (
-                               <div className="whitespace-pre-line space-y-1">
-                                 {panel.content}
-                               </div>
-                             ) : (
-                               <p>{panel.content}</p>
-                             )}
-                           </div>
+                           <DiscoPanelContent items={panel.items} placeholder={panel.placeholder} entries={discoCitationEntries} />
                          </CardContent>
                       </Card>
                     ))}
                 </div>
 
-                {/* Right side - 2 panels */}
+                {/* Right side - second, fourth, ... field */}
                 <div className="flex-1 flex flex-col space-y-6">
                   {panels
-                    .filter(p => ['impact', 'challenges'].includes(p.id) && p.isVisible)
+                    .filter(p => p.column === 'right' && p.isVisible)
                     .map((panel) => (
                       <Card 
                         key={panel.id} 
@@ -1545,19 +1545,7 @@ export default function DashboardPage() {
                           </CardTitle>
                         </CardHeader>
                          <CardContent>
-                           <div className={`text-sm leading-relaxed ${
-                             panel.content === "None yet" || panel.content === "none yet" || panel.content === "None" || panel.content === "none"
-                               ? "text-orange-600 font-medium italic"
-                               : "text-gray-600"
-                           }`}>
-                             {panel.content.includes('\n') ? (
-                               <div className="whitespace-pre-line space-y-1">
-                                 {panel.content}
-                               </div>
-                             ) : (
-                               <p>{panel.content}</p>
-                             )}
-                           </div>
+                           <DiscoPanelContent items={panel.items} placeholder={panel.placeholder} entries={discoCitationEntries} />
                          </CardContent>
                       </Card>
                     ))}
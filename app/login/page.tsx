@@ -3,6 +3,7 @@
 import { useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { supabase, UserProfile } from '@/lib/supabase'
+import { OrganisationService } from '@/lib/organisations'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
@@ -175,6 +176,12 @@ export default function LoginPage() {
         throw new Error(profileError.message)
       }
 
+      // Join the organisation that invited this email, or start a new one; can be redone in Settings
+      const organisationId = await OrganisationService.setupOrganisation(organisation)
+      if (!organisationId) {
+        console.warn('Signup: organisation setup failed, continuing without one')
+      }
+
       // Step 4: Complete setup and log in
       updateProgress(4, "Welcome to Sally! Logging you in...")
       
@@ -450,6 +457,9 @@ export default function LoginPage() {
                   placeholder="Your company or organization"
                   required
                 />
+                <p className="text-xs text-gray-500 mt-1">
+                  If a colleague invited you, you will join their organisation instead.
+                </p>
               </div>
               
               <div>
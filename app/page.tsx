@@ -42,10 +42,22 @@ import { useState } from "react"
 import { Badge } from "@/components/ui/badge"
 import { Sidebar } from "@/components/sidebar"
 import Link from "next/link"
-import { supabase, UserProfile, Call } from "@/lib/supabase"
+import { supabase, UserProfile, Call, CallMember, SharedCall, TranscriptEntry } from "@/lib/supabase"
 import { UpcomingCallsManager, UpcomingCall } from "@/lib/upcoming-calls-manager"
 import { DocumentUploadService } from "@/lib/document-upload-service"
-import { CallManager } from "@/lib/call-management"
+import { CallManager, inviteErrorMessage, isTranscriptConflict } from "@/lib/call-management"
+import { PostCallJobService, PostCallJob, PostCallSummaryStatus } from "@/lib/post-call-jobs"
+import { AiBackendClient } from "@/lib/ai-backend"
+import { DiscoData, DiscoSourceRange, DiscoStatus, fieldInsights, parseDiscoData } from "@/lib/disco"
+import { FRAMEWORK_LIST, FrameworkId, getFramework } from "@/lib/frameworks"
+import { OrganisationService, TeamLibraryService } from "@/lib/organisations"
+import { WorkspaceSettings } from "@/components/workspace-settings"
+import {
+  getDefaultServiceConfig,
+  getServiceConfigOverrides,
+  setServiceConfigOverrides,
+  clearServiceConfigOverrides,
+} from "@/lib/service-config"
 import OpenAI from 'openai';
 
 // Helper function to download a file from URL and return as File object
@@ -864,10 +876,23 @@ export default function Dashboard() {
         const calls = await UpcomingCallsManager.getUserUpcomingCalls(user.id)
         setUpcomingCalls(calls)
         // Load full call history
-        try {
-          const all = await (await import("@/lib/call-management")).CallManager.getUserCalls(user.id)
-          setCallHistory(all)
-        } catch {}
+        const all = await CallManager.getUserCalls(user.id)
+        if (all.ok) {
+          setCallHistory(all.value)
+          setPostCallJobs(await PostCallJobService.getJobsForCalls(all.value.map((c) => c.call_id)))
+        } else {
+          console.error('Failed to load call history:', all.error.kind, all.error.message)
+        }
+        const [shared, team] = await Promise.all([CallManager.getSharedCalls(user.id), CallManager.getTeamCalls(user.id)])
+        if (shared.ok) setSharedCalls(shared.value)
+        if (team.ok) setTeamCalls(team.value)
+        // Labels of the user's team fill the label catalog
+        const teamId = await OrganisationService.getDefaultTeamId(user.id)
+        setDefaultTeamId(teamId)
+        if (teamId) {
+          const labels = await TeamLibraryService.getLabels(teamId)
+          setLabelCatalog(labels.map(({ text, color }) => ({ text, color })))
+        }
       }
     }
     initializeUser()
@@ -890,6 +915,7 @@ export default function Dashboard() {
     description: "",
   })
   const [isUserSettingsOpen, setIsUserSettingsOpen] = useState(false)
+  const [serviceConfigForm, setServiceConfigForm] = useState({ transcriptionWsUrl: "", aiBackendUrl: "" })
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null)
   const [isLoadingProfile, setIsLoadingProfile] = useState(false)
   const [isEmailModalOpen, setIsEmailModalOpen] = useState(false)
@@ -987,6 +1013,26 @@ export default function Dashboard() {
     }
   }
 
+  useEffect(() => {
+    if (isUserSettingsOpen) {
+      const overrides = getServiceConfigOverrides()
+      setServiceConfigForm({
+        transcriptionWsUrl: overrides.transcriptionWsUrl || "",
+        aiBackendUrl: overrides.aiBackendUrl || "",
+      })
+    }
+  }, [isUserSettingsOpen])
+
+  const handleSaveServiceConfig = () => {
+    setServiceConfigOverrides(serviceConfigForm)
+    alert("Service endpoints saved. New calls will use them.")
+  }
+
+  const handleResetServiceConfig = () => {
+    clearServiceConfigOverrides()
+    setServiceConfigForm({ transcriptionWsUrl: "", aiBackendUrl: "" })
+  }
+
   const handleAddEvent = () => {
     if (newEvent.title && newEvent.date && newEvent.time) {
       const event = {
@@ -1172,6 +1218,10 @@ Best regards,`,
   const [isCreateCallOpen, setIsCreateCallOpen] = useState(false)
   const [upcomingCalls, setUpcomingCalls] = useState<UpcomingCall[]>([])
   const [callHistory, setCallHistory] = useState<Call[]>([])
+  const [sharedCalls, setSharedCalls] = useState<SharedCall[]>([])
+  const [teamCalls, setTeamCalls] = useState<SharedCall[]>([])
+  const [defaultTeamId, setDefaultTeamId] = useState<string | null>(null)
+  const [postCallJobs, setPostCallJobs] = useState<Record<string, PostCallJob[]>>({})
   const callHistoryCards = callHistory.map((c) => ({
     id: c.call_id,
     title: c.title,
@@ -1196,8 +1246,48 @@ Best regards,`,
     documents: [],
     owner: 'You',
     labels: (c as any).labels || [],
+    postCallStatus: PostCallJobService.summarize(postCallJobs[c.call_id]),
+    postCallError: (postCallJobs[c.call_id] || []).map((job) => job.last_error).filter(Boolean).join('\n'),
   }))
+  const postCallStatusLabels: Record<PostCallSummaryStatus, string> = {
+    pending: 'Summary pending',
+    failed: 'Summary failed',
+    done: 'Summary done',
+  }
+  const postCallStatusClasses: Record<PostCallSummaryStatus, string> = {
+    pending: 'bg-amber-50 text-amber-700 border-amber-200',
+    failed: 'bg-red-50 text-red-700 border-red-200',
+    done: 'bg-green-100 text-green-800 border-green-200',
+  }
   const [user, setUser] = useState<any>(null)
+
+  // Refresh post-call job status while any call in history is still being processed
+  useEffect(() => {
+    const pendingCallIds = Object.keys(postCallJobs).filter(
+      (callId) => PostCallJobService.summarize(postCallJobs[callId]) === 'pending'
+    )
+    if (pendingCallIds.length === 0) return
+
+    const timer = setTimeout(async () => {
+      const updated = await PostCallJobService.getJobsForCalls(pendingCallIds)
+      setPostCallJobs((prev) => ({ ...prev, ...updated }))
+      // Finished jobs have written the summary and post-call actions to the call row
+      if (user && pendingCallIds.some((callId) => PostCallJobService.summarize(updated[callId]) !== 'pending')) {
+        const refreshed = await CallManager.getUserCalls(user.id)
+        if (refreshed.ok) setCallHistory(refreshed.value)
+      }
+    }, 15000)
+    return () => clearTimeout(timer)
+  }, [postCallJobs, user])
+
+  const handleRetryPostCall = async (callId: string) => {
+    const retried = await PostCallJobService.retryFailed(callId)
+    if (!retried) return
+    setPostCallJobs((prev) => ({
+      ...prev,
+      [callId]: (prev[callId] || []).map((job) => (job.status === 'failed' ? { ...job, status: 'pending' } : job)),
+    }))
+  }
   const [newCall, setNewCall] = useState({
     title: "",
     company: "",
@@ -1206,6 +1296,7 @@ Best regards,`,
     attendees: "",
     description: "",
     agenda: [] as string[],
+    framework: "" as FrameworkId | "", // "" = organisation default
   })
   const [callLink, setCallLink] = useState("")
   const [emailAttendees, setEmailAttendees] = useState<string[]>([])
@@ -1232,6 +1323,11 @@ Best regards,`,
   const [selectedCallForNotes, setSelectedCallForNotes] = useState(null)
   const [editableNotes, setEditableNotes] = useState(null)
   const [isEditingNotes, setIsEditingNotes] = useState(false)
+  // The call whose notes are open, its framework insights, and the transcript lines a reviewer jumped to
+  const [notesCallRow, setNotesCallRow] = useState<Call | null>(null)
+  const [notesDisco, setNotesDisco] = useState<DiscoData | null>(null)
+  const notesFramework = getFramework(notesCallRow?.qualification_framework)
+  const [highlightedTranscriptRange, setHighlightedTranscriptRange] = useState<DiscoSourceRange | null>(null)
   const [expandedLabels, setExpandedLabels] = useState<{ [key: string]: boolean }>({})
   const [aiGeneratingActionIdx, setAiGeneratingActionIdx] = useState<number | null>(null)
 
@@ -1242,13 +1338,20 @@ Best regards,`,
   const [inviteValue, setInviteValue] = useState('')
   const [role, setRole] = useState<'admin' | 'editor' | 'viewer'>('viewer')
   const [isSavingPermission, setIsSavingPermission] = useState(false)
+  const [inviteError, setInviteError] = useState('')
+  const [callMembers, setCallMembers] = useState<CallMember[]>([])
 
   const openAddMembers = (callId: string) => {
     setTargetCallIdForMembers(callId)
     setInviteBy('email')
     setInviteValue('')
     setRole('viewer')
+    setInviteError('')
+    setCallMembers([])
     setIsAddMembersOpen(true)
+    CallManager.getCallMembers(callId).then((members) => {
+      if (members.ok) setCallMembers(members.value)
+    })
   }
 
   const [isReportOpen, setIsReportOpen] = useState(false)
@@ -1321,83 +1424,41 @@ Best regards,`,
     }
   }
 
-  // Save permissions to Supabase
+  // Add the invited person to call_members with the chosen role
   const saveCallPermission = async () => {
     if (!targetCallIdForMembers || !inviteValue.trim()) return
     try {
       setIsSavingPermission(true)
-      // Resolve uid by email/username
-      let invitedUid: string | null = null
-      if (inviteBy === 'email') {
-        const { data, error } = await supabase
-          .from('user_profiles')
-          .select('uid')
-          .eq('email', inviteValue.trim())
-          .single()
-        // PGRST116 = no rows found; treat as not found
-        if (!error || (error as any).code === 'PGRST116') {
-          invitedUid = data?.uid || null
-        } else {
-          throw error
-        }
-      } else {
-        const { data, error } = await supabase
-          .from('user_profiles')
-          .select('uid')
-          .eq('username', inviteValue.trim())
-          .single()
-        if (!error || (error as any).code === 'PGRST116') {
-          invitedUid = data?.uid || null
-        } else {
-          throw error
-        }
-      }
-
-      // Owner is current user
-      if (!user) throw new Error('User not authenticated')
+      setInviteError('')
 
-      // Prepare field to set
-      const roleField = role === 'admin' ? 'admin' : role === 'editor' ? 'editor' : 'viewer'
-
-      // If no invited uid resolved, we still create/ensure base row with owner
-      const basePayload: any = { call_id: targetCallIdForMembers, owner: user.id }
-      if (invitedUid) basePayload[roleField] = invitedUid
-
-      // Check if row exists
-      const { data: existing, error: selErr } = await supabase
-        .from('call_permissions')
-        .select('call_id, owner')
-        .eq('call_id', targetCallIdForMembers)
-        .single()
-
-      if (selErr && (selErr as any).code !== 'PGRST116') throw selErr
-
-      if (!existing) {
-        // Insert new row
-        const { error: insErr } = await supabase
-          .from('call_permissions')
-          .insert(basePayload)
-        if (insErr) throw insErr
-      } else {
-        // Update specific role column (and ensure owner is current user)
-        const updatePayload: any = { owner: user.id }
-        if (invitedUid) updatePayload[roleField] = invitedUid
-        const { error: updErr } = await supabase
-          .from('call_permissions')
-          .update(updatePayload)
-          .eq('call_id', targetCallIdForMembers)
-        if (updErr) throw updErr
+      // Usernames are resolved by the database; unknown emails become pending invites
+      const saved = await CallManager.setCallMember(targetCallIdForMembers, inviteValue, role, inviteBy)
+      if (!saved.ok) {
+        setInviteError(inviteErrorMessage(saved.error, inviteBy))
+        return
       }
 
-      setIsAddMembersOpen(false)
+      const members = await CallManager.getCallMembers(targetCallIdForMembers)
+      if (members.ok) setCallMembers(members.value)
+      setInviteValue('')
     } catch (e) {
       console.error('Failed to save call permission:', e)
-      alert('Failed to save permissions')
+      setInviteError('Failed to add member')
     } finally {
       setIsSavingPermission(false)
     }
   }
 
+  const removeCallMember = async (email: string) => {
+    if (!targetCallIdForMembers) return
+    const removed = await CallManager.removeCallMember(targetCallIdForMembers, email)
+    if (removed.ok) {
+      setCallMembers((prev) => prev.filter((member) => member.email !== email))
+    } else {
+      alert('Failed to remove member')
+    }
+  }
+
   const labelColors = [
     { name: "Blue", value: "blue", bg: "bg-blue-100", text: "text-blue-800", border: "border-blue-200" },
     { name: "Green", value: "green", bg: "bg-green-100", text: "text-green-800", border: "border-green-200" },
@@ -1409,6 +1470,7 @@ Best regards,`,
 
   const handleViewTranscript = (callId: string) => {
     setSelectedCallId(callId)
+    setHighlightedTranscriptRange(null)
     fetchTranscriptData(callId)
   }
 
@@ -1456,7 +1518,7 @@ Best regards,`,
 
   const handleCloseCreateCallModal = () => {
     setIsCreateCallOpen(false)
-    setNewCall({ title: "", company: "", date: "", time: "", attendees: "", description: "", agenda: [] })
+    setNewCall({ title: "", company: "", date: "", time: "", attendees: "", description: "", agenda: [], framework: "" })
     setEmailAttendees([])
     setCurrentEmailInput("")
     setUploadedFiles([])
@@ -1495,6 +1557,7 @@ Best regards,`,
         description: newCall.description,
         agenda: newCall.agenda,
         callLink: callLink,
+        framework: newCall.framework || undefined,
       }
 
       const createdCall = await UpcomingCallsManager.createUpcomingCall(user.id, callData)
@@ -1762,18 +1825,23 @@ OPERATING RULES
     if (!labelCatalog.some(l => l.text === newLabel.text)) {
       setLabelCatalog(prev => [...prev, newLabel])
     }
+    // ...and in the catalog of the call's team
+    const labelTeamId = callHistory.find((c) => c.call_id === dbCallId)?.team_id || defaultTeamId
+    if (labelTeamId && user) {
+      TeamLibraryService.addLabel(labelTeamId, newLabel, user.id)
+    }
 
     // Optimistic UI
     if (callIdx !== -1) {
       setCalls(prev => prev.map((c, i) => (i === callIdx ? { ...c, labels: nextLabels } : c)))
     }
 
-    try {
-      console.log('Add Label: persisting to DB', { callId: dbCallId, nextLabels })
-      await CallManager.updateCallLabels(dbCallId, nextLabels)
+    console.log('Add Label: persisting to DB', { callId: dbCallId, nextLabels })
+    const saved = await CallManager.updateCallLabels(dbCallId, nextLabels)
+    if (saved.ok) {
       console.log('Add Label: persisted successfully')
-    } catch (e) {
-      console.error('Failed to persist labels:', e)
+    } else {
+      console.error('Failed to persist labels:', saved.error.message)
     }
     setIsLabelOpen(false)
     setSelectedCallForEdit(null)
@@ -1811,12 +1879,12 @@ OPERATING RULES
       setCalls(prev => prev.map((c, i) => (i === callIdx ? { ...c, labels: nextLabels } : c)))
     }
 
-    try {
-      console.log('Remove Label: persisting to DB', { callId: dbCallId, nextLabels })
-      await CallManager.updateCallLabels(dbCallId, nextLabels)
+    console.log('Remove Label: persisting to DB', { callId: dbCallId, nextLabels })
+    const saved = await CallManager.updateCallLabels(dbCallId, nextLabels)
+    if (saved.ok) {
       console.log('Remove Label: persisted successfully')
-    } catch (e) {
-      console.error('Failed to persist label removal:', e)
+    } else {
+      console.error('Failed to persist label removal:', saved.error.message)
     }
   }
 
@@ -1911,6 +1979,14 @@ OPERATING RULES
 
   const currentTranscript = selectedCallId ? mockTranscript[selectedCallId as keyof typeof mockTranscript] : null
 
+  // Transcript positions of the highlighted range, if its lines are still in the transcript
+  const highlightedRangeIndexes = (() => {
+    if (!highlightedTranscriptRange || !transcriptData?.entries) return null
+    const start = transcriptData.entries.findIndex((entry: any) => entry.id === highlightedTranscriptRange.start_entry_id)
+    const end = transcriptData.entries.findIndex((entry: any) => entry.id === highlightedTranscriptRange.end_entry_id)
+    return start === -1 || end === -1 ? null : { start, end }
+  })()
+
   const fetchTranscriptData = async (callId: string) => {
     try {
       const { data, error } = await supabase
@@ -2023,25 +2099,11 @@ OPERATING RULES
       const threadId = (data as any)?.thread_id
       if (!assistantId || !threadId) { console.warn('Missing assistant/thread id'); return }
       
-      const resp = await fetch('http://localhost:8000/api/ai-complete', {
-        method: 'POST', headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ action_item: actionText, assistantId, threadId })
-      })
-      
-      const json = await resp.json().catch(() => null)
-      console.log('AI complete response:', json ?? await resp.text())
+      const { content, tag } = await AiBackendClient.aiComplete({ action_item: actionText, assistantId, threadId })
+      console.log('AI complete response:', { tag, length: content.length })
       
-      // Parse response and show in modal
-    let content = ""
-      let tag: string | undefined = undefined
+      // Show the draft in the modal
       let actionButton: "send" | "download" | "copy" = "download"
-      
-      if (json && json.content) {
-        content = json.content
-        tag = json.tag
-      } else {
-        content = `Error generating content: ${json?.error || 'Unknown error'}`
-      }
 
       const normalizedTag = (tag || "Report").toString()
       if (normalizedTag === "Email") actionButton = "send"
@@ -2185,29 +2247,44 @@ OPERATING RULES
     URL.revokeObjectURL(url)
   }
 
+  // Save each edited entry against the version it was loaded at, so entries others edited or the
+  // server appended meanwhile are kept. Edits that could not be saved stay in the editor.
   const handleSaveTranscript = async () => {
     try {
       if (!selectedCallId || !transcriptData?.entries) return
-      const updatedEntries = transcriptData.entries.map((entry: any, index: number) => {
+      let entries: TranscriptEntry[] = transcriptData.entries
+      const unsaved: { [key: string]: string } = {}
+
+      for (let index = 0; index < transcriptData.entries.length; index++) {
+        const entry: TranscriptEntry = transcriptData.entries[index]
         const editKey = `${selectedCallId}-${index}`
-        return editedTranscript[editKey] ? { ...entry, text: editedTranscript[editKey] } : entry
-      })
+        const text = editedTranscript[editKey]
+        if (!text || text === entry.text) continue
 
-      const updatedTranscript = { ...transcriptData, entries: updatedEntries }
+        const updated = await CallManager.updateTranscriptEntry(selectedCallId, entry.id, text, user?.email || '', entry.version ?? 0)
+        if (updated.ok) {
+          entries = entries.map((candidate) => candidate.id === updated.value.id ? updated.value : candidate)
+          continue
+        }
 
-      const { error } = await supabase
-        .from('calls')
-        .update({ transcript: updatedTranscript })
-        .eq('call_id', selectedCallId)
+        unsaved[editKey] = text
+        if (isTranscriptConflict(updated.error)) {
+          // Show what is stored now; saving again overwrites it with the text kept in the editor
+          console.warn('Transcript entry was changed by someone else:', entry.id)
+          const { currentEntry } = updated.error
+          if (currentEntry) {
+            entries = entries.map((candidate) => candidate.id === currentEntry.id ? currentEntry : candidate)
+          }
+        }
+      }
 
-      if (error) {
-        console.error('Failed to save transcript:', error)
+      setTranscriptData({ ...transcriptData, entries })
+      setEditedTranscript(unsaved)
+      if (Object.keys(unsaved).length > 0) {
+        console.error('Some transcript edits were not saved:', Object.keys(unsaved).length)
         return
       }
-
-      setTranscriptData(updatedTranscript)
-    setEditedTranscript({})
-    setIsEditing(false)
+      setIsEditing(false)
       console.log('Transcript saved successfully')
     } catch (e) {
       console.error('Error saving transcript:', e)
@@ -2219,8 +2296,79 @@ OPERATING RULES
     setEditedTranscript((prev) => ({ ...prev, [editKey]: newText }))
   }
 
+  // Card for a call someone else owns: shared with the user or of a team they manage
+  const renderSharedCallCard = ({ call, role, owner_name }: SharedCall) => (
+    <Card key={call.call_id} className="glass-card hover:shadow-lg transition-shadow border border-gray-200">
+      <CardHeader className="pb-4">
+        <div className="flex items-start justify-between">
+          <div className="flex-1">
+            <CardTitle className="text-lg font-semibold text-gray-900 mb-2">{call.title}</CardTitle>
+            <div className="flex items-center gap-1 text-sm text-gray-600 mb-3">
+              <span className="font-medium">{call.company}</span>
+              <span>•</span>
+              <span>{call.call_date}</span>
+            </div>
+            <div className="flex items-center gap-4 text-sm text-gray-600">
+              <div className="flex items-center gap-1">
+                <Clock className="h-4 w-4" />
+                <span>{`${call.duration}min`}</span>
+              </div>
+              <div className="flex items-center gap-1">
+                <Users className="h-4 w-4" />
+                <span>{call.attendees ?? 0} attendees</span>
+              </div>
+            </div>
+          </div>
+          <Badge variant="outline" className="text-xs capitalize">{role}</Badge>
+        </div>
+      </CardHeader>
+
+      <CardContent className="pt-0">
+        <div className="grid grid-cols-2 gap-2 mb-4">
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex items-center gap-2 text-xs h-8 bg-gray-50 hover:bg-gray-100 text-gray-700 border-gray-200"
+            onClick={() => handleNotesClick({ id: call.call_id, title: call.title, date: call.call_date })}
+            disabled={!call.ai_summary}
+          >
+            <FileText className="h-3 w-3" />
+            <span className="truncate">View Notes</span>
+          </Button>
+
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex items-center gap-2 text-xs h-8 bg-gray-50 hover:bg-gray-100 text-gray-700 border-gray-200"
+            onClick={() => handleViewTranscript(call.call_id)}
+          >
+            <MessageSquare className="h-3 w-3" />
+            <span className="truncate">View Transcript</span>
+          </Button>
+        </div>
+
+        {call.ai_summary && (
+          <p className="text-sm text-gray-600 leading-relaxed mb-4">{getAiSummaryOverview(call.ai_summary)}</p>
+        )}
+
+        <div className="flex items-center gap-2">
+          <div className="w-6 h-6 bg-gray-200 rounded-full flex items-center justify-center">
+            <span className="text-gray-700 font-bold text-xs">{(owner_name || '?').charAt(0)}</span>
+          </div>
+          <span className="text-sm text-gray-600">Owner: {owner_name || 'Unknown'}</span>
+        </div>
+      </CardContent>
+    </Card>
+  )
+
   const handleNotesClick = (call) => {
     setSelectedCallForNotes(call)
+    const callRow =
+      callHistory.find((c) => c.call_id === call.id) ||
+      [...sharedCalls, ...teamCalls].find((shared) => shared.call.call_id === call.id)?.call ||
+      null
+    setNotesCallRow(callRow)
+    setNotesDisco(callRow ? parseDiscoData(callRow.disco_data, getFramework(callRow.qualification_framework), callRow.created_at) : null)
     setEditableNotes(
       discoNotes[call.id] || {
         discovered: [],
@@ -2235,6 +2383,38 @@ OPERATING RULES
     setIsEditingNotes(false)
   }
 
+  // Open the transcript at the lines a DISCO insight is based on
+  const handleJumpToTranscript = (source: DiscoSourceRange) => {
+    if (!notesCallRow) return
+    setIsNotesOpen(false)
+    setSelectedCallId(notesCallRow.call_id)
+    setHighlightedTranscriptRange(source)
+    fetchTranscriptData(notesCallRow.call_id)
+  }
+
+  // "Lines 3–5" for an insight's source, numbered like the transcript; null when the lines are gone
+  const getNotesSourceLabel = (source: DiscoSourceRange) => {
+    const entries = notesCallRow?.transcript?.entries || []
+    const start = entries.findIndex((entry) => entry.id === source.start_entry_id)
+    const end = entries.findIndex((entry) => entry.id === source.end_entry_id)
+    if (start === -1 || end === -1) return null
+    return start === end ? `Line ${start + 1}` : `Lines ${start + 1}–${end + 1}`
+  }
+
+  const discoStatusClasses: Record<DiscoStatus, string> = {
+    confirmed: 'bg-green-50 text-green-700 border-green-200',
+    assumed: 'bg-amber-50 text-amber-700 border-amber-200',
+    contradicted: 'bg-red-50 text-red-700 border-red-200',
+  }
+
+  // Bring the highlighted transcript lines into view once the transcript has rendered
+  useEffect(() => {
+    if (!isTranscriptOpen || !highlightedTranscriptRange) return
+    document
+      .getElementById(`transcript-entry-${highlightedTranscriptRange.start_entry_id}`)
+      ?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+  }, [isTranscriptOpen, transcriptData, highlightedTranscriptRange])
+
   const handleSaveNotes = () => {
     // In a real app, this would save to a database
     discoNotes[selectedCallForNotes.id] = { ...editableNotes }
@@ -2574,6 +2754,30 @@ OPERATING RULES
                             <span>{call.attendees} attendees</span>
                           </div>
                         </div>
+                        {call.postCallStatus && (
+                          <div className="flex items-center gap-2 mb-4">
+                            <Badge
+                              variant="outline"
+                              className={postCallStatusClasses[call.postCallStatus]}
+                              title={call.postCallError || undefined}
+                            >
+                              {postCallStatusLabels[call.postCallStatus]}
+                            </Badge>
+                            {call.postCallStatus === 'failed' && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-6 px-2 text-xs"
+                                onClick={(e) => {
+                                  e.stopPropagation()
+                                  handleRetryPostCall(call.id)
+                                }}
+                              >
+                                Retry
+                              </Button>
+                            )}
+                          </div>
+                        )}
                       </div>
                       <DropdownMenu>
                         <DropdownMenuTrigger asChild>
@@ -2788,6 +2992,38 @@ OPERATING RULES
           </div>
         )}
 
+        {/* Shared with me */}
+        {sharedCalls.length > 0 && (
+          <div className="mb-8">
+            <div className="flex items-center justify-between mb-4">
+              <div>
+                <h2 className="text-2xl font-semibold text-gray-900">Shared with me</h2>
+                <p className="text-gray-600 mt-1">Calls colleagues have added you to</p>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-6">
+              {sharedCalls.map(renderSharedCallCard)}
+            </div>
+          </div>
+        )}
+
+        {/* Team calls */}
+        {teamCalls.length > 0 && (
+          <div className="mb-8">
+            <div className="flex items-center justify-between mb-4">
+              <div>
+                <h2 className="text-2xl font-semibold text-gray-900">Team Calls</h2>
+                <p className="text-gray-600 mt-1">Calls of the teams you manage</p>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-6">
+              {teamCalls.map(renderSharedCallCard)}
+            </div>
+          </div>
+        )}
+
         {/* Recent Calls header + create button - commented out per request */}
         {false && (
           <div className="mb-6">
@@ -3111,6 +3347,20 @@ OPERATING RULES
                 />
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Qualification Framework</label>
+                <select
+                  value={newCall.framework}
+                  onChange={(e) => setNewCall({ ...newCall, framework: e.target.value as FrameworkId | "" })}
+                  className="w-full h-9 px-3 border border-gray-300 rounded-md text-sm focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="">Organisation default</option>
+                  {FRAMEWORK_LIST.map((framework) => (
+                    <option key={framework.id} value={framework.id}>{framework.name} – {framework.description}</option>
+                  ))}
+                </select>
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">Attendees</label>
                 <div className="border border-gray-300 rounded-md p-2 min-h-[42px] focus-within:border-blue-500 focus-within:ring-1 focus-within:ring-blue-500">
@@ -3433,9 +3683,13 @@ OPERATING RULES
                 <label className="block text-sm font-medium text-gray-700 mb-2">{inviteBy === 'email' ? 'Email' : 'Username'}</label>
                 <Input
                   value={inviteValue}
-                  onChange={(e) => setInviteValue(e.target.value)}
+                  onChange={(e) => {
+                    setInviteValue(e.target.value)
+                    setInviteError('')
+                  }}
                   placeholder={inviteBy === 'email' ? 'name@example.com' : 'username'}
                 />
+                {inviteError && <p className="mt-1 text-sm text-red-600">{inviteError}</p>}
               </div>
 
               <div>
@@ -3446,6 +3700,30 @@ OPERATING RULES
                   <Button variant={role === 'viewer' ? 'default' : 'outline'} onClick={() => setRole('viewer')}>Viewer</Button>
                 </div>
               </div>
+
+              {callMembers.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Members</label>
+                  <div className="space-y-1 max-h-48 overflow-y-auto">
+                    {callMembers.map((member) => (
+                      <div key={member.email} className="flex items-center justify-between text-sm p-2 bg-gray-50 rounded">
+                        <span className="truncate">{member.email}</span>
+                        <div className="flex items-center gap-2">
+                          {!member.user_id && (
+                            <Badge variant="outline" className="text-xs bg-amber-50 text-amber-700 border-amber-200" title="No account with this email yet">
+                              Pending
+                            </Badge>
+                          )}
+                          <Badge variant="outline" className="text-xs capitalize">{member.role}</Badge>
+                          <Button variant="ghost" size="sm" onClick={() => removeCallMember(member.email)} aria-label={`Remove ${member.email}`}>
+                            <X className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
 
             <div className="flex items-center justify-end gap-3 p-6 border-t border-gray-200">
@@ -3521,9 +3799,15 @@ OPERATING RULES
                   {transcriptData.entries?.map((entry: any, index: number) => {
                     // Generate timestamp based on order (assuming ~8 seconds per entry)
                     const timestamp = `${Math.floor((entry.order - 1) * 8 / 60).toString().padStart(2, '0')}:${((entry.order - 1) * 8 % 60).toString().padStart(2, '0')}`
+                    const isHighlighted = highlightedRangeIndexes !== null
+                      && index >= highlightedRangeIndexes.start && index <= highlightedRangeIndexes.end
                     
                     return (
-                    <div key={index} className="flex gap-4">
+                    <div
+                      key={index}
+                      id={entry.id ? `transcript-entry-${entry.id}` : undefined}
+                      className={`flex gap-4 ${isHighlighted ? 'bg-yellow-50 border-l-4 border-yellow-400 -ml-2 pl-1 rounded' : ''}`}
+                    >
                         <div className="text-sm text-gray-500 font-mono w-20 flex-shrink-0">{timestamp}</div>
                       <div className="flex-1">
                         <div className="font-medium text-gray-900 mb-1">
@@ -4041,6 +4325,48 @@ OPERATING RULES
                 </Button>
               </div>
 
+              {/* Framework insights: what the live analysis found, linked to the transcript lines it quotes */}
+              {notesDisco && notesFramework.fields.some((field) => fieldInsights(notesDisco, field.key).length > 0) && (
+                <div className="mb-6">
+                  <h3 className="text-lg font-medium text-gray-900 mb-2">{notesFramework.name} Insights</h3>
+                  {notesFramework.fields.filter((field) => fieldInsights(notesDisco, field.key).length > 0).map((field) => (
+                    <div key={field.key} className="mb-3">
+                      <h4 className="text-sm font-semibold text-gray-700 mb-1">{field.label}</h4>
+                      <ul className="space-y-2">
+                        {fieldInsights(notesDisco, field.key).map((insight) => {
+                          const sourceLabel = insight.source && getNotesSourceLabel(insight.source)
+                          return (
+                            <li key={insight.id} className="flex items-start gap-2 text-sm">
+                              <div>•</div>
+                              <div className="flex-1">
+                                <div className={insight.status === 'contradicted' ? 'line-through text-gray-400' : 'text-gray-800'}>
+                                  {insight.text}
+                                </div>
+                                <div className="flex flex-wrap items-center gap-2 mt-1 text-xs text-gray-500">
+                                  <Badge variant="outline" className={`text-xs ${discoStatusClasses[insight.status]}`}>
+                                    {insight.status}
+                                  </Badge>
+                                  <span>{Math.round(insight.confidence * 100)}% confidence</span>
+                                  <span>First seen {new Date(insight.first_seen_at).toLocaleString()}</span>
+                                  {insight.source && sourceLabel && (
+                                    <button
+                                      className="text-blue-600 hover:underline"
+                                      onClick={() => handleJumpToTranscript(insight.source!)}
+                                    >
+                                      {sourceLabel}
+                                    </button>
+                                  )}
+                                </div>
+                              </div>
+                            </li>
+                          )
+                        })}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+              )}
+
               {/* DISCOVERED Section */}
               <div className="mb-4">
                 <h3 className="text-lg font-medium text-gray-900 mb-2">Discovered</h3>
@@ -5001,14 +5327,6 @@ OPERATING RULES
                           readOnly 
                         />
                       </div>
-                      <div className="col-span-2">
-                        <label className="block text-sm font-medium text-gray-700 mb-1">Organisation</label>
-                        <Input 
-                          defaultValue={userProfile?.organisation || ''} 
-                          className="w-full" 
-                          readOnly 
-                        />
-                      </div>
                       <div className="col-span-2">
                         <label className="block text-sm font-medium text-gray-700 mb-1">Purpose</label>
                         <Input 
@@ -5029,6 +5347,54 @@ OPERATING RULES
                   )}
                 </div>
 
+                {/* Workspace Section */}
+                {user && (
+                  <div className="space-y-4">
+                    <h3 className="text-lg font-medium text-gray-900 flex items-center gap-2">
+                      <Users className="h-5 w-5" />
+                      Organisation & Teams
+                    </h3>
+                    <WorkspaceSettings userId={user.id} userEmail={user.email || ''} />
+                  </div>
+                )}
+
+                {/* Service Endpoints Section */}
+                <div className="space-y-4">
+                  <h3 className="text-lg font-medium text-gray-900 flex items-center gap-2">
+                    <Monitor className="h-5 w-5" />
+                    Service Endpoints
+                  </h3>
+                  <p className="text-xs text-gray-600">Leave blank to use the environment defaults.</p>
+                  <div className="grid grid-cols-1 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Transcription WebSocket URL</label>
+                      <Input
+                        value={serviceConfigForm.transcriptionWsUrl}
+                        onChange={(e) => setServiceConfigForm(prev => ({ ...prev, transcriptionWsUrl: e.target.value }))}
+                        placeholder={getDefaultServiceConfig().transcriptionWsUrl}
+                        className="w-full"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">AI Backend URL</label>
+                      <Input
+                        value={serviceConfigForm.aiBackendUrl}
+                        onChange={(e) => setServiceConfigForm(prev => ({ ...prev, aiBackendUrl: e.target.value }))}
+                        placeholder={getDefaultServiceConfig().aiBackendUrl}
+                        className="w-full"
+                      />
+                    </div>
+                  </div>
+                  <div className="flex justify-end gap-2">
+                    <Button variant="outline" size="sm" onClick={handleResetServiceConfig}>
+                      Reset
+                    </Button>
+                    <Button size="sm" onClick={handleSaveServiceConfig}>
+                      Save Endpoints
+                    </Button>
+                  </div>
+                </div>
+
                 {/* Email Templates Section */}
                 <div className="space-y-4">
                   <h3 className="text-lg font-medium text-gray-900 flex items-center gap-2">
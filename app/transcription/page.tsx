@@ -108,7 +108,7 @@ export default function TranscriptionPage() {
           <div className="flex items-center gap-4 mb-6 flex-shrink-0">
             <div>
               <h1 className="text-2xl font-bold">Live Transcription</h1>
-              <p className="text-muted-foreground">Connect to ngrok WebSocket and display real-time transcription</p>
+              <p className="text-muted-foreground">Connect to the transcription server and display real-time transcription</p>
             </div>
           </div>
 
@@ -275,7 +275,7 @@ export default function TranscriptionPage() {
                 Live Transcription
               </CardTitle>
               <CardDescription>
-                Real-time transcription from ngrok WebSocket connection
+                Real-time transcription from the transcription server
               </CardDescription>
             </CardHeader>
             <CardContent className="flex-1 flex flex-col min-h-0">
@@ -284,7 +284,7 @@ export default function TranscriptionPage() {
                   {allMessages.length === 0 ? (
                     <div className="text-center py-8 text-muted-foreground">
                       <VolumeX className="h-12 w-12 mx-auto mb-4 opacity-50" />
-                      <p>No transcription yet. Start recording to connect to ngrok WebSocket.</p>
+                      <p>No transcription yet. Start recording to connect to the transcription server.</p>
                     </div>
                   ) : (
                     allMessages.map((message) => (
@@ -1,33 +1,89 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
-import { CallManager } from '@/lib/call-management'
-import { TranscriptEntry, TranscriptPermissions } from '@/lib/supabase'
+import { CallManager, TranscriptConflictError, inviteErrorMessage, isTranscriptConflict } from '@/lib/call-management'
+import { AudioUploadService } from '@/lib/audio-upload'
+import { CallMember, CallRole, TranscriptEntry } from '@/lib/supabase'
+import { TranscriptRevision, TranscriptRevisionService, diffWords, originalEntryText } from '@/lib/transcript-revisions'
 
 interface TranscriptEditorProps {
   callId: string
   userEmail: string
   initialTranscript: any
+  recordingPath?: string // voice_recording_path of the call, enables click-to-seek
 }
 
-export function TranscriptEditor({ callId, userEmail, initialTranscript }: TranscriptEditorProps) {
+// Render seconds from the start of the recording as m:ss
+const formatOffset = (seconds: number) => {
+  const whole = Math.max(0, Math.floor(seconds))
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`
+}
+
+// Word diff from `before` to `after`: removals struck through in red, additions in green
+const DiffText = ({ before, after }: { before: string; after: string }) => (
+  <>
+    {diffWords(before, after).map((part, index) => (
+      <span
+        key={index}
+        className={
+          part.type === 'added' ? 'bg-green-100 text-green-800'
+            : part.type === 'removed' ? 'bg-red-100 text-red-800 line-through'
+            : ''
+        }
+      >
+        {part.text}
+      </span>
+    ))}
+  </>
+)
+
+export function TranscriptEditor({ callId, userEmail, initialTranscript, recordingPath }: TranscriptEditorProps) {
   const [transcript, setTranscript] = useState<any>(initialTranscript)
   const [canEdit, setCanEdit] = useState(false)
+  const [canManageMembers, setCanManageMembers] = useState(false)
+  const [members, setMembers] = useState<CallMember[]>([])
   const [editingEntry, setEditingEntry] = useState<string | null>(null)
   const [editText, setEditText] = useState('')
-  const [newEditorEmail, setNewEditorEmail] = useState('')
+  const [newMemberEmail, setNewMemberEmail] = useState('')
+  const [newMemberRole, setNewMemberRole] = useState<CallRole>('editor')
+  const [memberError, setMemberError] = useState('')
+  const [audioUrl, setAudioUrl] = useState<string | null>(null)
+  const [revisions, setRevisions] = useState<Record<string, TranscriptRevision[]>>({})
+  const [historyEntry, setHistoryEntry] = useState<string | null>(null) // entry whose history is open
+  // An edit or revert refused because someone else changed the entry first
+  const [conflict, setConflict] = useState<{ error: TranscriptConflictError; revertedRevisionId?: string } | null>(null)
+  const audioRef = useRef<HTMLAudioElement>(null)
 
   useEffect(() => {
     checkEditPermissions()
+    TranscriptRevisionService.getCallRevisions(callId).then(setRevisions)
   }, [])
 
+  useEffect(() => {
+    if (!recordingPath) {
+      setAudioUrl(null)
+      return
+    }
+    AudioUploadService.getSignedAudioUrl(recordingPath).then(setAudioUrl)
+  }, [recordingPath])
+
+  const handleSeekToEntry = (entry: TranscriptEntry) => {
+    if (!audioRef.current || typeof entry.start_time !== 'number') return
+    audioRef.current.currentTime = entry.start_time
+    audioRef.current.play().catch((error) => console.error('Error playing recording:', error))
+  }
+
   const checkEditPermissions = async () => {
-    const hasPermission = await CallManager.canEditTranscript(callId, userEmail)
-    setCanEdit(hasPermission)
+    const result = await CallManager.getCallRole(callId)
+    const role = result.ok ? result.value : null
+    setCanEdit(role === 'owner' || role === 'admin' || role === 'editor')
+    setCanManageMembers(role === 'owner' || role === 'admin')
+    const members = await CallManager.getCallMembers(callId)
+    if (members.ok) setMembers(members.value)
   }
 
   const handleEditEntry = (entry: TranscriptEntry) => {
@@ -35,54 +91,74 @@ export function TranscriptEditor({ callId, userEmail, initialTranscript }: Trans
     setEditText(entry.text)
   }
 
-  const handleSaveEdit = async (entryId: string) => {
-    const success = await CallManager.updateTranscriptEntry(callId, entryId, editText, userEmail)
-    if (success) {
-      // Update local state
-      setTranscript((prev: any) => ({
-        ...prev,
-        entries: prev.entries.map((entry: TranscriptEntry) =>
-          entry.id === entryId
-            ? { ...entry, text: editText, edited_by: userEmail, edited_at: new Date().toISOString(), is_edited: true }
-            : entry
-        ),
-        updated_at: new Date().toISOString()
-      }))
+  // Show the entry as stored and pick up the revision the database recorded
+  const applyEntry = async (updated: TranscriptEntry) => {
+    setTranscript((prev: any) => ({
+      ...prev,
+      entries: prev.entries.map((entry: TranscriptEntry) => entry.id === updated.id ? updated : entry),
+      updated_at: new Date().toISOString()
+    }))
+    const entryRevisions = await TranscriptRevisionService.getEntryRevisions(callId, updated.id)
+    setRevisions(prev => ({ ...prev, [updated.id]: entryRevisions }))
+  }
+
+  const saveEntry = async (entryId: string, text: string, expectedVersion: number, revertedRevisionId?: string) => {
+    const updated = revertedRevisionId
+      ? await CallManager.revertTranscriptEntry(callId, revertedRevisionId, userEmail, expectedVersion)
+      : await CallManager.updateTranscriptEntry(callId, entryId, text, userEmail, expectedVersion)
+    if (updated.ok) {
+      setConflict(null)
       setEditingEntry(null)
       setEditText('')
+      await applyEntry(updated.value)
+    } else if (isTranscriptConflict(updated.error)) {
+      setConflict({ error: updated.error, revertedRevisionId })
     }
   }
 
-  const handleAddEditor = async () => {
-    if (!newEditorEmail) return
+  const handleSaveEdit = (entry: TranscriptEntry) =>
+    saveEntry(entry.id, editText, entry.version ?? 0)
 
-    const updatedPermissions: TranscriptPermissions = {
-      ...transcript.permissions,
-      editors: [...transcript.permissions.editors, newEditorEmail]
-    }
+  const handleRevert = (revision: TranscriptRevision) => {
+    const entry = transcript.entries.find((candidate: TranscriptEntry) => candidate.id === revision.entry_id)
+    return saveEntry(revision.entry_id, revision.previous_text ?? '', entry?.version ?? 0, revision.revision_id)
+  }
 
-    const success = await CallManager.updateTranscriptPermissions(callId, updatedPermissions)
-    if (success) {
-      setTranscript((prev: any) => ({
-        ...prev,
-        permissions: updatedPermissions
-      }))
-      setNewEditorEmail('')
-    }
+  // Resolve a conflict by taking the stored text, dropping ours
+  const handleKeepTheirs = async () => {
+    if (!conflict) return
+    const { currentEntry } = conflict.error
+    setConflict(null)
+    setEditingEntry(null)
+    setEditText('')
+    if (currentEntry) await applyEntry(currentEntry)
+  }
+
+  // Resolve a conflict by saving ours over the stored version
+  const handleKeepMine = () => {
+    if (!conflict?.error.currentEntry) return
+    const { entryId, currentEntry, attemptedText } = conflict.error
+    return saveEntry(entryId, attemptedText, currentEntry.version ?? 0, conflict.revertedRevisionId)
   }
 
-  const handleRemoveEditor = async (emailToRemove: string) => {
-    const updatedPermissions: TranscriptPermissions = {
-      ...transcript.permissions,
-      editors: transcript.permissions.editors.filter((email: string) => email !== emailToRemove)
+  const handleAddMember = async () => {
+    if (!newMemberEmail.trim()) return
+
+    const saved = await CallManager.setCallMember(callId, newMemberEmail, newMemberRole)
+    if (!saved.ok) {
+      setMemberError(inviteErrorMessage(saved.error))
+      return
     }
+    setMemberError('')
+    const members = await CallManager.getCallMembers(callId)
+    if (members.ok) setMembers(members.value)
+    setNewMemberEmail('')
+  }
 
-    const success = await CallManager.updateTranscriptPermissions(callId, updatedPermissions)
-    if (success) {
-      setTranscript((prev: any) => ({
-        ...prev,
-        permissions: updatedPermissions
-      }))
+  const handleRemoveMember = async (email: string) => {
+    const removed = await CallManager.removeCallMember(callId, email)
+    if (removed.ok) {
+      setMembers(prev => prev.filter(member => member.email !== email))
     }
   }
 
@@ -91,46 +167,65 @@ export function TranscriptEditor({ callId, userEmail, initialTranscript }: Trans
       <CardHeader>
         <CardTitle>Transcript Editor</CardTitle>
         <div className="flex items-center gap-2">
-          <Badge variant="outline">Admin: {transcript.permissions.admin}</Badge>
-          <Badge variant="secondary">Editors: {transcript.permissions.editors.length}</Badge>
+          <Badge variant="outline">Admins: {members.filter(member => member.role === 'admin').length}</Badge>
+          <Badge variant="secondary">Editors: {members.filter(member => member.role === 'editor').length}</Badge>
+          <Badge variant="secondary">Viewers: {members.filter(member => member.role === 'viewer').length}</Badge>
         </div>
       </CardHeader>
       <CardContent>
-        {/* Permission Management */}
-        {canEdit && transcript.permissions.admin === userEmail && (
+        {/* Member Management */}
+        {canManageMembers && (
           <div className="mb-6 p-4 border rounded-lg">
-            <h3 className="font-semibold mb-2">Manage Edit Permissions</h3>
+            <h3 className="font-semibold mb-2">Manage Members</h3>
             <div className="flex gap-2 mb-4">
               <Input
-                placeholder="Add editor email"
-                value={newEditorEmail}
-                onChange={(e) => setNewEditorEmail(e.target.value)}
+                placeholder="Add member email"
+                value={newMemberEmail}
+                onChange={(e) => {
+                  setNewMemberEmail(e.target.value)
+                  setMemberError('')
+                }}
                 className="flex-1"
               />
-              <Button onClick={handleAddEditor} disabled={!newEditorEmail}>
-                Add Editor
+              <select
+                value={newMemberRole}
+                onChange={(e) => setNewMemberRole(e.target.value as CallRole)}
+                className="border rounded px-2 text-sm"
+              >
+                <option value="admin">Admin</option>
+                <option value="editor">Editor</option>
+                <option value="viewer">Viewer</option>
+              </select>
+              <Button onClick={handleAddMember} disabled={!newMemberEmail.trim()}>
+                Add Member
               </Button>
             </div>
+            {memberError && <p className="-mt-2 mb-4 text-sm text-red-600">{memberError}</p>}
             <div className="space-y-2">
-              <h4 className="font-medium">Current Editors:</h4>
-              {transcript.permissions.editors.map((email: string) => (
-                <div key={email} className="flex items-center justify-between p-2 bg-gray-50 rounded">
-                  <span>{email}</span>
-                  {email !== transcript.permissions.admin && (
-                    <Button
-                      variant="destructive"
-                      size="sm"
-                      onClick={() => handleRemoveEditor(email)}
-                    >
-                      Remove
-                    </Button>
-                  )}
+              <h4 className="font-medium">Current Members:</h4>
+              {members.map((member) => (
+                <div key={member.email} className="flex items-center justify-between p-2 bg-gray-50 rounded">
+                  <span>{member.email} <span className="text-sm text-gray-500">({member.role})</span></span>
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    onClick={() => handleRemoveMember(member.email)}
+                  >
+                    Remove
+                  </Button>
                 </div>
               ))}
             </div>
           </div>
         )}
 
+        {/* Recording */}
+        {audioUrl && (
+          <div className="mb-6">
+            <audio ref={audioRef} src={audioUrl} controls className="w-full" />
+          </div>
+        )}
+
         {/* Transcript Entries */}
         <div className="space-y-4">
           <h3 className="font-semibold">Transcript Entries</h3>
@@ -140,10 +235,32 @@ export function TranscriptEditor({ callId, userEmail, initialTranscript }: Trans
                 <div>
                   <Badge variant="outline">{entry.speaker}</Badge>
                   <span className="text-sm text-gray-500 ml-2">{entry.timestamp}</span>
+                  {typeof entry.start_time === 'number' && (
+                    <button
+                      type="button"
+                      className="text-sm text-blue-600 hover:underline ml-2 disabled:text-gray-400 disabled:no-underline"
+                      onClick={() => handleSeekToEntry(entry)}
+                      disabled={!audioUrl}
+                      title={audioUrl ? 'Play from here' : 'No recording available'}
+                    >
+                      {formatOffset(entry.start_time)}
+                    </button>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  {entry.is_edited && (
+                    <Badge variant="secondary">Edited by {entry.edited_by}</Badge>
+                  )}
+                  {(revisions[entry.id]?.length ?? 0) > 0 && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setHistoryEntry(historyEntry === entry.id ? null : entry.id)}
+                    >
+                      {historyEntry === entry.id ? 'Hide history' : `History (${revisions[entry.id].length})`}
+                    </Button>
+                  )}
                 </div>
-                {entry.is_edited && (
-                  <Badge variant="secondary">Edited by {entry.edited_by}</Badge>
-                )}
               </div>
               
               {editingEntry === entry.id ? (
@@ -155,7 +272,7 @@ export function TranscriptEditor({ callId, userEmail, initialTranscript }: Trans
                     rows={3}
                   />
                   <div className="flex gap-2">
-                    <Button size="sm" onClick={() => handleSaveEdit(entry.id)}>
+                    <Button size="sm" onClick={() => handleSaveEdit(entry)}>
                       Save
                     </Button>
                     <Button size="sm" variant="outline" onClick={() => setEditingEntry(null)}>
@@ -165,7 +282,12 @@ export function TranscriptEditor({ callId, userEmail, initialTranscript }: Trans
                 </div>
               ) : (
                 <div>
-                  <p className="mb-2">{entry.text}</p>
+                  <p
+                    className={`mb-2 ${audioUrl && typeof entry.start_time === 'number' ? 'cursor-pointer hover:bg-gray-50' : ''}`}
+                    onClick={() => handleSeekToEntry(entry)}
+                  >
+                    {entry.text}
+                  </p>
                   {canEdit && (
                     <Button size="sm" variant="outline" onClick={() => handleEditEntry(entry)}>
                       Edit
@@ -173,6 +295,61 @@ export function TranscriptEditor({ callId, userEmail, initialTranscript }: Trans
                   )}
                 </div>
               )}
+
+              {/* Someone else saved this entry first: show their text against ours and let the editor choose */}
+              {conflict?.error.entryId === entry.id && (
+                <div className="mt-3 p-3 border border-amber-300 bg-amber-50 rounded space-y-2 text-sm">
+                  <p className="font-medium text-amber-900">
+                    {conflict.error.currentEntry
+                      ? `${conflict.error.currentEntry.edited_by || 'Someone'} changed this line${conflict.error.currentEntry.edited_at ? ` at ${new Date(conflict.error.currentEntry.edited_at).toLocaleString()}` : ''} before your change was saved.`
+                      : 'This line was changed by someone else before your change was saved.'}
+                  </p>
+                  {conflict.error.currentEntry && (
+                    <p>
+                      <DiffText before={conflict.error.currentEntry.text} after={conflict.error.attemptedText} />
+                    </p>
+                  )}
+                  <div className="flex gap-2">
+                    <Button size="sm" onClick={handleKeepMine} disabled={!conflict.error.currentEntry}>
+                      Keep mine
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={handleKeepTheirs}>
+                      Keep theirs
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {/* Changes against the original transcription, and every revision newest first */}
+              {historyEntry === entry.id && revisions[entry.id] && (
+                <div className="mt-3 p-3 bg-gray-50 rounded space-y-3 text-sm">
+                  <div>
+                    <h4 className="font-medium mb-1">Changes from original transcription</h4>
+                    <p>
+                      <DiffText before={originalEntryText(entry.text, revisions[entry.id])} after={entry.text} />
+                    </p>
+                  </div>
+                  <div className="space-y-2">
+                    {[...revisions[entry.id]].reverse().map((revision) => (
+                      <div key={revision.revision_id} className="flex items-start justify-between gap-2 border-t pt-2">
+                        <div>
+                          <div className="text-xs text-gray-500">
+                            {new Date(revision.created_at).toLocaleString()} · {revision.editor_email || 'system'}
+                            {revision.reverted_revision_id && ' · revert'}
+                          </div>
+                          <div className="text-gray-500 line-through">{revision.previous_text}</div>
+                          <div>{revision.new_text}</div>
+                        </div>
+                        {canEdit && (
+                          <Button size="sm" variant="outline" onClick={() => handleRevert(revision)} title="Restore the text from before this edit">
+                            Revert
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
           ))}
         </div>
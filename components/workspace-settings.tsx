@@ -0,0 +1,558 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { FRAMEWORK_LIST, FrameworkId, FrameworkSettingsService } from '@/lib/frameworks'
+import {
+  OrganisationInvite,
+  OrganisationMember,
+  OrganisationMembership,
+  OrganisationRole,
+  OrganisationService,
+  Team,
+  TeamDocument,
+  TeamLibraryService,
+  TeamMember,
+  TeamRole,
+} from '@/lib/organisations'
+
+interface WorkspaceSettingsProps {
+  userId: string
+  userEmail: string
+}
+
+const selectClassName = 'h-9 px-3 border border-gray-300 rounded-md text-sm disabled:bg-gray-50 disabled:text-gray-500'
+
+// Organisation, teams, invitations and team libraries, shown in the User Settings modal
+export function WorkspaceSettings({ userId, userEmail }: WorkspaceSettingsProps) {
+  const [isLoading, setIsLoading] = useState(true)
+  const [membership, setMembership] = useState<OrganisationMembership | null>(null)
+  const [myInvites, setMyInvites] = useState<OrganisationInvite[]>([])
+  const [members, setMembers] = useState<OrganisationMember[]>([])
+  const [teams, setTeams] = useState<Team[]>([])
+  const [invites, setInvites] = useState<OrganisationInvite[]>([])
+  const [selectedTeamId, setSelectedTeamId] = useState<string>('')
+  const [teamMembers, setTeamMembers] = useState<TeamMember[]>([])
+  const [teamDocuments, setTeamDocuments] = useState<TeamDocument[]>([])
+  const [newOrganisationName, setNewOrganisationName] = useState('')
+  const [organisationName, setOrganisationName] = useState('')
+  const [newTeamName, setNewTeamName] = useState('')
+  const [newTeamMember, setNewTeamMember] = useState<{ userId: string; role: TeamRole }>({ userId: '', role: 'member' })
+  const [newInvite, setNewInvite] = useState<{ email: string; role: OrganisationRole; teamId: string; teamRole: TeamRole }>({
+    email: '',
+    role: 'member',
+    teamId: '',
+    teamRole: 'member',
+  })
+  const [isUploading, setIsUploading] = useState(false)
+
+  const isAdmin = membership?.role === 'admin'
+  const myTeamRole = teamMembers.find((member) => member.user_id === userId)?.role
+  const canManageTeam = isAdmin || myTeamRole === 'manager'
+
+  const loadWorkspace = async () => {
+    setIsLoading(true)
+    const [current, pending] = await Promise.all([
+      OrganisationService.getMembership(userId),
+      OrganisationService.getMyInvites(userEmail),
+    ])
+    setMembership(current)
+    setMyInvites(pending.filter((invite) => invite.organisation_id !== current?.organisation.organisation_id))
+    if (current) {
+      const organisationId = current.organisation.organisation_id
+      setOrganisationName(current.organisation.name)
+      const [organisationMembers, organisationTeams, organisationInvites] = await Promise.all([
+        OrganisationService.getMembers(organisationId),
+        OrganisationService.getTeams(organisationId),
+        current.role === 'admin' ? OrganisationService.getInvites(organisationId) : Promise.resolve([]),
+      ])
+      setMembers(organisationMembers)
+      setTeams(organisationTeams)
+      setInvites(organisationInvites)
+      setSelectedTeamId((previous) =>
+        organisationTeams.some((team) => team.team_id === previous) ? previous : organisationTeams[0]?.team_id || ''
+      )
+    }
+    setIsLoading(false)
+  }
+
+  useEffect(() => {
+    loadWorkspace()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [userId, userEmail])
+
+  // Members and library of the selected team
+  useEffect(() => {
+    if (!selectedTeamId) {
+      setTeamMembers([])
+      setTeamDocuments([])
+      return
+    }
+    OrganisationService.getTeamMembers(selectedTeamId).then(setTeamMembers)
+    TeamLibraryService.getDocuments(selectedTeamId).then(setTeamDocuments)
+  }, [selectedTeamId])
+
+  const handleCreateOrganisation = async () => {
+    if (!newOrganisationName.trim()) return
+    const organisationId = await OrganisationService.setupOrganisation(newOrganisationName)
+    if (!organisationId) {
+      alert('Failed to create the organisation')
+      return
+    }
+    setNewOrganisationName('')
+    await loadWorkspace()
+  }
+
+  const handleAcceptInvite = async (invite: OrganisationInvite) => {
+    if (membership && !confirm(`Joining ${invite.organisation_name || 'this organisation'} means leaving ${membership.organisation.name}. Continue?`)) {
+      return
+    }
+    const organisationId = await OrganisationService.acceptInvite(invite.invite_id)
+    if (!organisationId) {
+      alert('Failed to accept the invitation')
+      return
+    }
+    await loadWorkspace()
+  }
+
+  const handleDeclineInvite = async (invite: OrganisationInvite) => {
+    if (await OrganisationService.deleteInvite(invite.invite_id)) {
+      setMyInvites((prev) => prev.filter((item) => item.invite_id !== invite.invite_id))
+    }
+  }
+
+  const handleRenameOrganisation = async () => {
+    if (!membership || !organisationName.trim() || organisationName.trim() === membership.organisation.name) return
+    if (await OrganisationService.renameOrganisation(membership.organisation.organisation_id, organisationName)) {
+      setMembership({ ...membership, organisation: { ...membership.organisation, name: organisationName.trim() } })
+    } else {
+      alert('Failed to rename the organisation')
+    }
+  }
+
+  const handleFrameworkChange = async (frameworkId: FrameworkId) => {
+    if (!membership) return
+    const previous = membership
+    setMembership({ ...membership, organisation: { ...membership.organisation, qualification_framework: frameworkId } })
+    const saved = await FrameworkSettingsService.setOrganisationFramework(membership.organisation.organisation_id, frameworkId)
+    if (!saved) {
+      setMembership(previous)
+      alert("Failed to save the organisation's framework")
+    }
+  }
+
+  const handleMemberRoleChange = async (member: OrganisationMember, role: OrganisationRole) => {
+    if (await OrganisationService.setMemberRole(member.organisation_id, member.user_id, role)) {
+      setMembers((prev) => prev.map((item) => (item.user_id === member.user_id ? { ...item, role } : item)))
+    } else {
+      alert('Failed to change the role')
+    }
+  }
+
+  const handleRemoveMember = async (member: OrganisationMember) => {
+    const leaving = member.user_id === userId
+    if (!confirm(leaving ? 'Leave this organisation?' : `Remove ${member.full_name || member.email} from the organisation?`)) return
+    if (!(await OrganisationService.removeMember(member.organisation_id, member.user_id))) {
+      alert('Failed to remove the member')
+      return
+    }
+    await loadWorkspace()
+  }
+
+  const handleCreateTeam = async () => {
+    if (!membership || !newTeamName.trim()) return
+    const team = await OrganisationService.createTeam(membership.organisation.organisation_id, newTeamName)
+    if (!team) {
+      alert('Failed to create the team')
+      return
+    }
+    setTeams((prev) => [...prev, team])
+    setSelectedTeamId(team.team_id)
+    setNewTeamName('')
+  }
+
+  const handleSetTeamMember = async (memberUserId: string, role: TeamRole) => {
+    if (!selectedTeamId || !memberUserId) return
+    if (!(await OrganisationService.setTeamMember(selectedTeamId, memberUserId, role))) {
+      alert('Failed to update the team')
+      return
+    }
+    setNewTeamMember({ userId: '', role: 'member' })
+    setTeamMembers(await OrganisationService.getTeamMembers(selectedTeamId))
+  }
+
+  const handleRemoveTeamMember = async (member: TeamMember) => {
+    if (await OrganisationService.removeTeamMember(member.team_id, member.user_id)) {
+      setTeamMembers((prev) => prev.filter((item) => item.user_id !== member.user_id))
+    } else {
+      alert('Failed to remove the team member')
+    }
+  }
+
+  const handleInvite = async () => {
+    if (!membership || !newInvite.email.trim()) return
+    const invite = await OrganisationService.invite(
+      membership.organisation.organisation_id,
+      newInvite.email,
+      newInvite.role,
+      userId,
+      newInvite.teamId ? { teamId: newInvite.teamId, role: newInvite.teamRole } : undefined
+    )
+    if (!invite) {
+      alert('Failed to send the invitation. Is this email already invited?')
+      return
+    }
+    setInvites((prev) => [...prev, invite])
+    setNewInvite((prev) => ({ ...prev, email: '' }))
+  }
+
+  const handleRevokeInvite = async (invite: OrganisationInvite) => {
+    if (await OrganisationService.deleteInvite(invite.invite_id)) {
+      setInvites((prev) => prev.filter((item) => item.invite_id !== invite.invite_id))
+    }
+  }
+
+  const handleUploadDocuments = async (files: FileList | null) => {
+    if (!selectedTeamId || !files || files.length === 0) return
+    setIsUploading(true)
+    try {
+      const uploaded: TeamDocument[] = []
+      for (const file of Array.from(files)) {
+        const document = await TeamLibraryService.uploadDocument(selectedTeamId, file, userId)
+        if (document) uploaded.push(document)
+        else alert(`Failed to upload ${file.name}`)
+      }
+      setTeamDocuments((prev) => [...uploaded.reverse(), ...prev])
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
+  const handleOpenDocument = async (document: TeamDocument) => {
+    const url = await TeamLibraryService.getDocumentUrl(document.path)
+    if (url) window.open(url, '_blank')
+  }
+
+  const handleDeleteDocument = async (document: TeamDocument) => {
+    if (!confirm(`Delete ${document.name} from the team library?`)) return
+    if (await TeamLibraryService.deleteDocument(document)) {
+      setTeamDocuments((prev) => prev.filter((item) => item.document_id !== document.document_id))
+    } else {
+      alert('Failed to delete the document')
+    }
+  }
+
+  const teamName = (teamId: string | null) => teams.find((team) => team.team_id === teamId)?.name
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="text-sm text-gray-500">Loading workspace...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {myInvites.length > 0 && (
+        <div className="space-y-2">
+          {myInvites.map((invite) => (
+            <div key={invite.invite_id} className="flex items-center justify-between p-3 bg-blue-50 border border-blue-200 rounded-lg">
+              <span className="text-sm">
+                You are invited to join <span className="font-medium">{invite.organisation_name || 'an organisation'}</span> as {invite.role}
+              </span>
+              <div className="flex gap-2">
+                <Button size="sm" onClick={() => handleAcceptInvite(invite)}>Accept</Button>
+                <Button size="sm" variant="outline" onClick={() => handleDeclineInvite(invite)}>Decline</Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {!membership ? (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-600">You are not part of an organisation yet. Accept an invitation or create one.</p>
+          <div className="flex gap-2">
+            <Input
+              value={newOrganisationName}
+              onChange={(e) => setNewOrganisationName(e.target.value)}
+              placeholder="Organisation name"
+              className="flex-1"
+            />
+            <Button size="sm" onClick={handleCreateOrganisation} disabled={!newOrganisationName.trim()}>
+              Create
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Organisation</label>
+              <div className="flex gap-2">
+                <Input
+                  value={organisationName}
+                  onChange={(e) => setOrganisationName(e.target.value)}
+                  readOnly={!isAdmin}
+                  className="flex-1"
+                />
+                {isAdmin && (
+                  <Button variant="outline" size="sm" onClick={handleRenameOrganisation}>
+                    Rename
+                  </Button>
+                )}
+              </div>
+              <p className="text-xs text-gray-500 mt-1">Your role: {membership.role}</p>
+            </div>
+            <div className="col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Organisation Qualification Framework</label>
+              <select
+                value={membership.organisation.qualification_framework}
+                onChange={(e) => handleFrameworkChange(e.target.value as FrameworkId)}
+                disabled={!isAdmin}
+                className={`w-full ${selectClassName}`}
+              >
+                {FRAMEWORK_LIST.map((framework) => (
+                  <option key={framework.id} value={framework.id}>{framework.name} – {framework.description}</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">Used for new calls unless a call picks its own framework.</p>
+            </div>
+          </div>
+
+          {/* Members */}
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium text-gray-900">Members ({members.length})</h4>
+            <div className="space-y-1 max-h-48 overflow-y-auto">
+              {members.map((member) => (
+                <div key={member.user_id} className="flex items-center justify-between text-sm p-2 bg-gray-50 rounded">
+                  <span className="truncate">
+                    {member.full_name || member.email}
+                    {member.user_id === userId && <span className="text-gray-500"> (you)</span>}
+                  </span>
+                  <div className="flex items-center gap-2">
+                    {isAdmin && member.user_id !== userId ? (
+                      <select
+                        value={member.role}
+                        onChange={(e) => handleMemberRoleChange(member, e.target.value as OrganisationRole)}
+                        className="h-7 px-2 border border-gray-300 rounded text-xs"
+                      >
+                        <option value="member">Member</option>
+                        <option value="admin">Admin</option>
+                      </select>
+                    ) : (
+                      <Badge variant="outline" className="text-xs capitalize">{member.role}</Badge>
+                    )}
+                    {(isAdmin || member.user_id === userId) && (
+                      <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => handleRemoveMember(member)}>
+                        {member.user_id === userId ? 'Leave' : 'Remove'}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Invitations */}
+          {isAdmin && (
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium text-gray-900">Invite People</h4>
+              <div className="flex flex-wrap gap-2">
+                <Input
+                  type="email"
+                  value={newInvite.email}
+                  onChange={(e) => setNewInvite((prev) => ({ ...prev, email: e.target.value }))}
+                  placeholder="name@company.com"
+                  className="flex-1 min-w-[12rem]"
+                />
+                <select
+                  value={newInvite.role}
+                  onChange={(e) => setNewInvite((prev) => ({ ...prev, role: e.target.value as OrganisationRole }))}
+                  className={selectClassName}
+                >
+                  <option value="member">Member</option>
+                  <option value="admin">Admin</option>
+                </select>
+                <select
+                  value={newInvite.teamId}
+                  onChange={(e) => setNewInvite((prev) => ({ ...prev, teamId: e.target.value }))}
+                  className={selectClassName}
+                >
+                  <option value="">No team</option>
+                  {teams.map((team) => (
+                    <option key={team.team_id} value={team.team_id}>{team.name}</option>
+                  ))}
+                </select>
+                {newInvite.teamId && (
+                  <select
+                    value={newInvite.teamRole}
+                    onChange={(e) => setNewInvite((prev) => ({ ...prev, teamRole: e.target.value as TeamRole }))}
+                    className={selectClassName}
+                  >
+                    <option value="member">Team member</option>
+                    <option value="manager">Team manager</option>
+                  </select>
+                )}
+                <Button size="sm" onClick={handleInvite} disabled={!newInvite.email.trim()}>
+                  Invite
+                </Button>
+              </div>
+              {invites.length > 0 && (
+                <div className="space-y-1">
+                  {invites.map((invite) => (
+                    <div key={invite.invite_id} className="flex items-center justify-between text-sm p-2 bg-gray-50 rounded">
+                      <span className="truncate">
+                        {invite.email}
+                        <span className="text-gray-500">
+                          {' '}· {invite.role}
+                          {invite.team_id && ` · ${teamName(invite.team_id) || 'team'} ${invite.team_role}`}
+                        </span>
+                      </span>
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline" className="text-xs bg-amber-50 text-amber-700 border-amber-200">Pending</Badge>
+                        <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => handleRevokeInvite(invite)}>
+                          Revoke
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Teams */}
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium text-gray-900">Teams</h4>
+            <div className="flex gap-2">
+              <select
+                value={selectedTeamId}
+                onChange={(e) => setSelectedTeamId(e.target.value)}
+                className={`flex-1 ${selectClassName}`}
+                disabled={teams.length === 0}
+              >
+                {teams.map((team) => (
+                  <option key={team.team_id} value={team.team_id}>{team.name}</option>
+                ))}
+              </select>
+              {isAdmin && (
+                <>
+                  <Input
+                    value={newTeamName}
+                    onChange={(e) => setNewTeamName(e.target.value)}
+                    placeholder="New team"
+                    className="w-40"
+                  />
+                  <Button variant="outline" size="sm" onClick={handleCreateTeam} disabled={!newTeamName.trim()}>
+                    Add Team
+                  </Button>
+                </>
+              )}
+            </div>
+
+            {selectedTeamId && (
+              <>
+                <div className="space-y-1 max-h-48 overflow-y-auto">
+                  {teamMembers.map((member) => (
+                    <div key={member.user_id} className="flex items-center justify-between text-sm p-2 bg-gray-50 rounded">
+                      <span className="truncate">{member.full_name || member.email}</span>
+                      <div className="flex items-center gap-2">
+                        {canManageTeam ? (
+                          <select
+                            value={member.role}
+                            onChange={(e) => handleSetTeamMember(member.user_id, e.target.value as TeamRole)}
+                            className="h-7 px-2 border border-gray-300 rounded text-xs"
+                          >
+                            <option value="member">Member</option>
+                            <option value="manager">Manager</option>
+                          </select>
+                        ) : (
+                          <Badge variant="outline" className="text-xs capitalize">{member.role}</Badge>
+                        )}
+                        {canManageTeam && (
+                          <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => handleRemoveTeamMember(member)}>
+                            Remove
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                  {teamMembers.length === 0 && <div className="text-xs text-gray-500">Nobody in this team yet</div>}
+                </div>
+
+                {canManageTeam && (
+                  <div className="flex gap-2">
+                    <select
+                      value={newTeamMember.userId}
+                      onChange={(e) => setNewTeamMember((prev) => ({ ...prev, userId: e.target.value }))}
+                      className={`flex-1 ${selectClassName}`}
+                    >
+                      <option value="">Add a colleague…</option>
+                      {members
+                        .filter((member) => !teamMembers.some((teamMember) => teamMember.user_id === member.user_id))
+                        .map((member) => (
+                          <option key={member.user_id} value={member.user_id}>{member.full_name || member.email}</option>
+                        ))}
+                    </select>
+                    <select
+                      value={newTeamMember.role}
+                      onChange={(e) => setNewTeamMember((prev) => ({ ...prev, role: e.target.value as TeamRole }))}
+                      className={selectClassName}
+                    >
+                      <option value="member">Member</option>
+                      <option value="manager">Manager</option>
+                    </select>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleSetTeamMember(newTeamMember.userId, newTeamMember.role)}
+                      disabled={!newTeamMember.userId}
+                    >
+                      Add
+                    </Button>
+                  </div>
+                )}
+
+                {/* Team library */}
+                <div className="space-y-1">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium text-gray-700">Team Library ({teamDocuments.length})</span>
+                    <label className="text-xs text-blue-600 hover:underline cursor-pointer">
+                      {isUploading ? 'Uploading…' : 'Upload'}
+                      <input
+                        type="file"
+                        multiple
+                        className="hidden"
+                        disabled={isUploading}
+                        onChange={(e) => {
+                          handleUploadDocuments(e.target.files)
+                          e.target.value = ''
+                        }}
+                      />
+                    </label>
+                  </div>
+                  {teamDocuments.map((document) => (
+                    <div key={document.document_id} className="flex items-center justify-between text-xs p-2 bg-gray-50 rounded">
+                      <button className="truncate text-left text-gray-700 hover:underline" onClick={() => handleOpenDocument(document)}>
+                        {document.name}
+                      </button>
+                      {(canManageTeam || document.uploaded_by === userId) && (
+                        <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => handleDeleteDocument(document)}>
+                          Delete
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -1,7 +1,9 @@
 "use client"
 
 import React, { createContext, useContext, ReactNode } from 'react'
-import { useTranscription, TranscriptionMessage, ScreenSource, DiscoData } from '@/hooks/use-transcription'
+import { useTranscription, TranscriptionMessage, ScreenSource } from '@/hooks/use-transcription'
+import { DiscoData } from '@/lib/disco'
+import { QualificationFramework } from '@/lib/frameworks'
 
 interface TranscriptionContextType {
   // State
@@ -20,6 +22,7 @@ interface TranscriptionContextType {
   
   // DISCO Analysis state
   discoData: DiscoData
+  qualificationFramework: QualificationFramework
   isAnalyzingDisco: boolean
   discoError: string
   rawDiscoResponse: any
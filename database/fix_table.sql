@@ -1,73 +0,0 @@
--- Check if the column exists and add it if it doesn't
-DO $$ 
-BEGIN
-    -- Add calls_taken column if it doesn't exist
-    IF NOT EXISTS (
-        SELECT 1 FROM information_schema.columns 
-        WHERE table_name = 'user_profiles' 
-        AND column_name = 'calls_taken'
-    ) THEN
-        ALTER TABLE user_profiles ADD COLUMN calls_taken INTEGER DEFAULT 0;
-    END IF;
-    
-    -- Add created_at column if it doesn't exist
-    IF NOT EXISTS (
-        SELECT 1 FROM information_schema.columns 
-        WHERE table_name = 'user_profiles' 
-        AND column_name = 'created_at'
-    ) THEN
-        ALTER TABLE user_profiles ADD COLUMN created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
-    END IF;
-    
-    -- Add updated_at column if it doesn't exist
-    IF NOT EXISTS (
-        SELECT 1 FROM information_schema.columns 
-        WHERE table_name = 'user_profiles' 
-        AND column_name = 'updated_at'
-    ) THEN
-        ALTER TABLE user_profiles ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
-    END IF;
-    
-    -- Add outlook_connected column if it doesn't exist
-    IF NOT EXISTS (
-        SELECT 1 FROM information_schema.columns 
-        WHERE table_name = 'user_profiles' 
-        AND column_name = 'outlook_connected'
-    ) THEN
-        ALTER TABLE user_profiles ADD COLUMN outlook_connected BOOLEAN DEFAULT FALSE;
-    END IF;
-    
-    -- Add gmail_connected column if it doesn't exist
-    IF NOT EXISTS (
-        SELECT 1 FROM information_schema.columns 
-        WHERE table_name = 'user_profiles' 
-        AND column_name = 'gmail_connected'
-    ) THEN
-        ALTER TABLE user_profiles ADD COLUMN gmail_connected BOOLEAN DEFAULT FALSE;
-    END IF;
-    
-    -- Add date_joined column if it doesn't exist
-    IF NOT EXISTS (
-        SELECT 1 FROM information_schema.columns 
-        WHERE table_name = 'user_profiles' 
-        AND column_name = 'date_joined'
-    ) THEN
-        ALTER TABLE user_profiles ADD COLUMN date_joined TIMESTAMP WITH TIME ZONE DEFAULT NOW();
-    END IF;
-END $$;
-
--- Create the updated_at trigger if it doesn't exist
-CREATE OR REPLACE FUNCTION update_updated_at_column()
-RETURNS TRIGGER AS $$
-BEGIN
-  NEW.updated_at = NOW();
-  RETURN NEW;
-END;
-$$ language 'plpgsql';
-
--- Drop existing trigger if it exists and recreate it
-DROP TRIGGER IF EXISTS update_user_profiles_updated_at ON user_profiles;
-CREATE TRIGGER update_user_profiles_updated_at 
-  BEFORE UPDATE ON user_profiles 
-  FOR EACH ROW 
-  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,28 @@
+-- Migration: Baseline schema (down)
+-- Drops everything the baseline created, data included. The storage buckets are only removed when
+-- they are empty; delete their objects first to drop them.
+
+DROP POLICY IF EXISTS "documents_delete_own" ON storage.objects;
+DROP POLICY IF EXISTS "documents_update_own" ON storage.objects;
+DROP POLICY IF EXISTS "documents_insert_own" ON storage.objects;
+DROP POLICY IF EXISTS "documents_select_own" ON storage.objects;
+DROP POLICY IF EXISTS "recordings_delete_own" ON storage.objects;
+DROP POLICY IF EXISTS "recordings_update_own" ON storage.objects;
+DROP POLICY IF EXISTS "recordings_insert_own" ON storage.objects;
+DROP POLICY IF EXISTS "recordings_select_own" ON storage.objects;
+
+DELETE FROM storage.buckets
+WHERE id IN ('call-recordings', 'call-documents')
+  AND NOT EXISTS (SELECT 1 FROM storage.objects WHERE objects.bucket_id = buckets.id);
+
+DROP TABLE IF EXISTS call_documents;
+DROP TABLE IF EXISTS call_recordings;
+DROP TABLE IF EXISTS call_permissions;
+DROP TABLE IF EXISTS upcoming_calls;
+DROP TABLE IF EXISTS calls;
+DROP TABLE IF EXISTS user_profiles;
+
+DROP FUNCTION IF EXISTS ensure_calls_members_and_labels_not_null();
+DROP FUNCTION IF EXISTS ensure_calls_documents_not_null();
+DROP FUNCTION IF EXISTS set_updated_at();
+DROP FUNCTION IF EXISTS update_updated_at_column();
@@ -0,0 +1,326 @@
+-- Migration: Baseline schema
+-- The schema as left by the loose files that used to live in database/ (schema.sql, the
+-- *_schema.sql files, fix_table.sql and the dated migrations from 2025-09-18 to 20250925),
+-- consolidated into one migration. Where a change had an add_ and a future_ variant, both are in.
+-- Everything added since is in the migrations that follow. Databases set up from the old files are
+-- recorded at this version with `npm run db:migrate -- baseline` rather than running it, and then
+-- brought up to date with `up`.
+-- Requires Supabase's auth and storage schemas (or database/local/supabase_stubs.sql)
+
+-- Timestamps ------------------------------------------------------------------
+
+CREATE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE FUNCTION set_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Profiles --------------------------------------------------------------------
+
+CREATE TABLE user_profiles (
+  uid UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  username TEXT NOT NULL UNIQUE,
+  full_name TEXT NOT NULL,
+  date_joined TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  email TEXT NOT NULL,
+  organisation TEXT NOT NULL,
+  purpose TEXT NOT NULL,
+  outlook_connected BOOLEAN DEFAULT FALSE,
+  gmail_connected BOOLEAN DEFAULT FALSE,
+  calls_taken INTEGER DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TRIGGER update_user_profiles_updated_at
+  BEFORE UPDATE ON user_profiles
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Calls -------------------------------------------------------------------------
+
+CREATE TABLE calls (
+  call_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES user_profiles(uid) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  company TEXT NOT NULL,
+  call_date DATE NOT NULL,
+  duration INTEGER NOT NULL, -- duration in minutes
+  attendees INTEGER DEFAULT 0,
+  attendee_emails JSONB DEFAULT '[]', -- array of attendee email addresses
+  call_link TEXT,
+
+  -- Meeting Planning
+  meeting_agenda JSONB DEFAULT '[]', -- list of agenda items
+  meeting_description TEXT,
+
+  -- AI & Analysis
+  ai_summary TEXT,
+  assistant_id TEXT, -- ID of the assistant created for this call
+  thread_id TEXT, -- ID of the thread associated with this call
+  bot_id TEXT, -- ID of the bot handling this call
+  meeting_id TEXT, -- External meeting identifier
+
+  -- Status & Metadata
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'completed', 'archived')),
+
+  -- Media & Content
+  voice_recording_path TEXT, -- path to audio file in Supabase Storage
+  transcript JSONB DEFAULT '{}', -- JSON object with transcript data and permissions
+  transcript_speakers JSONB DEFAULT '{}', -- speaker identification data
+  documents JSONB NOT NULL DEFAULT '[]',
+
+  -- DISCO Framework Data
+  disco_data JSONB DEFAULT '{}', -- Decision Criteria, Impact, Situation, Challenges, Objectives
+
+  -- Post-Call Actions & Completion
+  post_call_actions JSONB DEFAULT '{}', -- dictionary with action keys and completion status values
+  post_call_completion INTEGER DEFAULT 0, -- percentage
+  tasks_completed INTEGER DEFAULT 0,
+  total_tasks INTEGER DEFAULT 0,
+  pending_tasks INTEGER DEFAULT 0,
+
+  -- Genie Content
+  genie_content JSONB DEFAULT '[]', -- list of genie content items
+  labels JSONB NOT NULL DEFAULT '[]', -- list of labels { text, color }
+  members_emails JSONB NOT NULL DEFAULT '[]',
+  members_uids JSONB NOT NULL DEFAULT '[]',
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TRIGGER update_calls_updated_at
+  BEFORE UPDATE ON calls
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Writes that set these columns to NULL get '[]' instead
+CREATE FUNCTION ensure_calls_documents_not_null()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.documents IS NULL THEN NEW.documents := '[]'::jsonb; END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE FUNCTION ensure_calls_members_and_labels_not_null()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.labels IS NULL THEN NEW.labels := '[]'::jsonb; END IF;
+  IF NEW.members_emails IS NULL THEN NEW.members_emails := '[]'::jsonb; END IF;
+  IF NEW.members_uids IS NULL THEN NEW.members_uids := '[]'::jsonb; END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trg_calls_documents_not_null
+  BEFORE INSERT OR UPDATE ON calls
+  FOR EACH ROW EXECUTE FUNCTION ensure_calls_documents_not_null();
+
+CREATE TRIGGER trg_calls_members_and_labels_not_null
+  BEFORE INSERT OR UPDATE ON calls
+  FOR EACH ROW EXECUTE FUNCTION ensure_calls_members_and_labels_not_null();
+
+CREATE INDEX idx_calls_owner_id ON calls(owner_id);
+CREATE INDEX idx_calls_call_date ON calls(call_date);
+CREATE INDEX idx_calls_status ON calls(status);
+CREATE INDEX idx_calls_company ON calls(company);
+CREATE INDEX idx_calls_assistant_id ON calls(assistant_id);
+CREATE INDEX idx_calls_thread_id ON calls(thread_id);
+CREATE INDEX idx_calls_bot_id ON calls(bot_id);
+CREATE INDEX idx_calls_meeting_id ON calls(meeting_id);
+CREATE INDEX idx_calls_documents_gin ON calls USING GIN (documents);
+CREATE INDEX idx_calls_labels_gin ON calls USING GIN (labels);
+CREATE INDEX idx_calls_members_emails_gin ON calls USING GIN (members_emails);
+CREATE INDEX idx_calls_members_uids_gin ON calls USING GIN (members_uids);
+
+CREATE TABLE upcoming_calls (
+  call_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES user_profiles(uid) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  company TEXT NOT NULL,
+  call_date DATE NOT NULL,
+  call_time TIME NOT NULL,
+  attendees JSONB DEFAULT '[]', -- array of attendee email addresses
+  description TEXT DEFAULT '',
+  agenda JSONB DEFAULT '[]', -- array of agenda items
+  documents JSONB DEFAULT '[]', -- array of document information
+  call_link TEXT,
+  assistant_id TEXT, -- assistant associated with this scheduled call
+  thread_id TEXT, -- thread associated with this scheduled call
+  bot_id TEXT, -- ID of the bot handling this scheduled call
+  meeting_id TEXT, -- External meeting identifier for this scheduled call
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TRIGGER update_upcoming_calls_updated_at
+  BEFORE UPDATE ON upcoming_calls
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE INDEX idx_upcoming_calls_owner_id ON upcoming_calls(owner_id);
+CREATE INDEX idx_upcoming_calls_call_date ON upcoming_calls(call_date);
+CREATE INDEX idx_upcoming_calls_company ON upcoming_calls(company);
+CREATE INDEX idx_upcoming_calls_assistant_id ON upcoming_calls(assistant_id);
+CREATE INDEX idx_upcoming_calls_thread_id ON upcoming_calls(thread_id);
+CREATE INDEX idx_upcoming_calls_bot_id ON upcoming_calls(bot_id);
+CREATE INDEX idx_upcoming_calls_meeting_id ON upcoming_calls(meeting_id);
+
+-- One row per call with the owner and at most one person per role
+CREATE TABLE call_permissions (
+  call_id UUID PRIMARY KEY REFERENCES calls(call_id) ON DELETE CASCADE,
+  owner UUID NOT NULL REFERENCES user_profiles(uid) ON DELETE CASCADE,
+  admin UUID NULL REFERENCES user_profiles(uid) ON DELETE SET NULL,
+  editor UUID NULL REFERENCES user_profiles(uid) ON DELETE SET NULL,
+  viewer UUID NULL REFERENCES user_profiles(uid) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TRIGGER trg_call_permissions_updated_at
+  BEFORE UPDATE ON call_permissions
+  FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+
+-- Recordings and documents ------------------------------------------------------
+
+-- Metadata for recordings and documents per call
+CREATE TABLE call_recordings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  call_id UUID NOT NULL REFERENCES calls(call_id) ON DELETE CASCADE,
+  owner_id UUID NOT NULL REFERENCES user_profiles(uid) ON DELETE CASCADE,
+  storage_path TEXT NOT NULL, -- path in 'call-recordings' bucket
+  file_name TEXT NOT NULL,
+  mime_type TEXT,
+  file_size BIGINT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_call_recordings_call_id ON call_recordings(call_id);
+CREATE INDEX idx_call_recordings_owner_id ON call_recordings(owner_id);
+
+CREATE TABLE call_documents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  call_id UUID NOT NULL REFERENCES calls(call_id) ON DELETE CASCADE,
+  owner_id UUID NOT NULL REFERENCES user_profiles(uid) ON DELETE CASCADE,
+  storage_path TEXT NOT NULL, -- path in 'call-documents' bucket
+  file_name TEXT NOT NULL,
+  mime_type TEXT,
+  file_size BIGINT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_call_documents_call_id ON call_documents(call_id);
+CREATE INDEX idx_call_documents_owner_id ON call_documents(owner_id);
+
+-- Row Level Security ------------------------------------------------------------
+
+ALTER TABLE user_profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE calls ENABLE ROW LEVEL SECURITY;
+ALTER TABLE upcoming_calls ENABLE ROW LEVEL SECURITY;
+ALTER TABLE call_permissions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE call_recordings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE call_documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own profile" ON user_profiles FOR SELECT USING (auth.uid() = uid);
+CREATE POLICY "Users can insert own profile" ON user_profiles FOR INSERT WITH CHECK (auth.uid() = uid);
+CREATE POLICY "Users can update own profile" ON user_profiles FOR UPDATE USING (auth.uid() = uid);
+
+CREATE POLICY "Users can view own calls" ON calls FOR SELECT USING (auth.uid() = owner_id);
+CREATE POLICY "Users can insert own calls" ON calls FOR INSERT WITH CHECK (auth.uid() = owner_id);
+CREATE POLICY "Users can update own calls" ON calls FOR UPDATE USING (auth.uid() = owner_id);
+CREATE POLICY "Users can delete own calls" ON calls FOR DELETE USING (auth.uid() = owner_id);
+
+-- Editors listed in transcript.permissions
+CREATE POLICY "Users with edit permissions can update transcript"
+ON calls FOR UPDATE
+USING (
+  auth.uid() = owner_id OR
+  jsonb_exists(transcript->'permissions'->'editors', auth.jwt() ->> 'email')
+);
+
+CREATE POLICY "Users can view own upcoming calls" ON upcoming_calls FOR SELECT USING (auth.uid() = owner_id);
+CREATE POLICY "Users can insert own upcoming calls" ON upcoming_calls FOR INSERT WITH CHECK (auth.uid() = owner_id);
+CREATE POLICY "Users can update own upcoming calls" ON upcoming_calls FOR UPDATE USING (auth.uid() = owner_id);
+CREATE POLICY "Users can delete own upcoming calls" ON upcoming_calls FOR DELETE USING (auth.uid() = owner_id);
+
+CREATE POLICY "select_call_permissions_owner"
+ON call_permissions FOR SELECT TO authenticated
+USING (auth.uid() = owner);
+
+CREATE POLICY "insert_call_permissions_owner"
+ON call_permissions FOR INSERT TO authenticated
+WITH CHECK (auth.uid() = owner);
+
+CREATE POLICY "update_call_permissions_owner"
+ON call_permissions FOR UPDATE TO authenticated
+USING (auth.uid() = owner)
+WITH CHECK (auth.uid() = owner);
+
+CREATE POLICY "select_own_call_recordings" ON call_recordings FOR SELECT USING (auth.uid() = owner_id);
+CREATE POLICY "insert_own_call_recordings" ON call_recordings FOR INSERT WITH CHECK (auth.uid() = owner_id);
+CREATE POLICY "update_own_call_recordings" ON call_recordings FOR UPDATE USING (auth.uid() = owner_id);
+CREATE POLICY "delete_own_call_recordings" ON call_recordings FOR DELETE USING (auth.uid() = owner_id);
+
+CREATE POLICY "select_own_call_documents" ON call_documents FOR SELECT USING (auth.uid() = owner_id);
+CREATE POLICY "insert_own_call_documents" ON call_documents FOR INSERT WITH CHECK (auth.uid() = owner_id);
+CREATE POLICY "update_own_call_documents" ON call_documents FOR UPDATE USING (auth.uid() = owner_id);
+CREATE POLICY "delete_own_call_documents" ON call_documents FOR DELETE USING (auth.uid() = owner_id);
+
+-- Storage -----------------------------------------------------------------------
+-- Object names: "<owner_uid>/<call_id>/<filename>"
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES
+  ('call-recordings', 'call-recordings', false, NULL, ARRAY[
+    'audio/mpeg', 'audio/mp3', 'audio/wav', 'audio/x-wav', 'audio/webm', 'audio/ogg', 'audio/m4a'
+  ]),
+  ('call-documents', 'call-documents', false, NULL, ARRAY[
+    'application/pdf', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.ms-excel', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'text/plain', 'text/markdown', 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    'application/rtf', 'image/png', 'image/jpeg'
+  ])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "recordings_select_own"
+ON storage.objects FOR SELECT TO authenticated
+USING (bucket_id = 'call-recordings' AND split_part(name, '/', 1) = auth.uid()::text);
+
+CREATE POLICY "recordings_insert_own"
+ON storage.objects FOR INSERT TO authenticated
+WITH CHECK (bucket_id = 'call-recordings' AND split_part(name, '/', 1) = auth.uid()::text);
+
+CREATE POLICY "recordings_update_own"
+ON storage.objects FOR UPDATE TO authenticated
+USING (bucket_id = 'call-recordings' AND split_part(name, '/', 1) = auth.uid()::text)
+WITH CHECK (bucket_id = 'call-recordings' AND split_part(name, '/', 1) = auth.uid()::text);
+
+CREATE POLICY "recordings_delete_own"
+ON storage.objects FOR DELETE TO authenticated
+USING (bucket_id = 'call-recordings' AND split_part(name, '/', 1) = auth.uid()::text);
+
+CREATE POLICY "documents_select_own"
+ON storage.objects FOR SELECT TO authenticated
+USING (bucket_id = 'call-documents' AND split_part(name, '/', 1) = auth.uid()::text);
+
+CREATE POLICY "documents_insert_own"
+ON storage.objects FOR INSERT TO authenticated
+WITH CHECK (bucket_id = 'call-documents' AND split_part(name, '/', 1) = auth.uid()::text);
+
+CREATE POLICY "documents_update_own"
+ON storage.objects FOR UPDATE TO authenticated
+USING (bucket_id = 'call-documents' AND split_part(name, '/', 1) = auth.uid()::text)
+WITH CHECK (bucket_id = 'call-documents' AND split_part(name, '/', 1) = auth.uid()::text);
+
+CREATE POLICY "documents_delete_own"
+ON storage.objects FOR DELETE TO authenticated
+USING (bucket_id = 'call-documents' AND split_part(name, '/', 1) = auth.uid()::text);
@@ -0,0 +1,4 @@
+-- Migration: Manifests for chunked call recordings (down)
+-- Drops the manifests; uploaded parts and stitched recordings stay in the call-recordings bucket.
+
+DROP TABLE IF EXISTS recording_manifests;
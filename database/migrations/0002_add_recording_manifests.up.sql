@@ -0,0 +1,36 @@
+-- Migration: Manifests for chunked call recordings
+-- Recordings are uploaded to the call-recordings bucket in parts while the call runs
+-- ("<owner_uid>/<call_id>/recordings/<recording_id>/part_000001.webm"). The manifest lists the
+-- parts uploaded so far; finalizing stitches them into one object and records its path.
+CREATE TABLE recording_manifests (
+  recording_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  call_id UUID NOT NULL REFERENCES calls(call_id) ON DELETE CASCADE,
+  owner_id UUID NOT NULL REFERENCES user_profiles(uid) ON DELETE CASCADE,
+  track TEXT NOT NULL DEFAULT 'mic' CHECK (track IN ('mic', 'system')),
+  mime_type TEXT NOT NULL DEFAULT 'audio/webm',
+  status TEXT NOT NULL DEFAULT 'recording' CHECK (status IN ('recording', 'finalizing', 'finalized', 'failed')),
+  parts JSONB NOT NULL DEFAULT '[]', -- [{ index, path, size, uploaded_at }] in upload order
+  final_path TEXT, -- stitched object in call-recordings, set once finalized
+  final_size BIGINT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE recording_manifests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "select_own_recording_manifests"
+ON recording_manifests FOR SELECT TO authenticated
+USING (auth.uid() = owner_id);
+
+CREATE POLICY "insert_own_recording_manifests"
+ON recording_manifests FOR INSERT TO authenticated
+WITH CHECK (auth.uid() = owner_id);
+
+CREATE POLICY "update_own_recording_manifests"
+ON recording_manifests FOR UPDATE TO authenticated
+USING (auth.uid() = owner_id)
+WITH CHECK (auth.uid() = owner_id);
+
+-- Unfinished recordings are looked up per user after a crash
+CREATE INDEX idx_recording_manifests_owner_status ON recording_manifests(owner_id, status);
+CREATE INDEX idx_recording_manifests_call_id ON recording_manifests(call_id);
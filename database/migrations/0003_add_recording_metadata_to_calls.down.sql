@@ -0,0 +1,11 @@
+-- Migration: Processed recording metadata on calls (down)
+
+ALTER TABLE calls
+  DROP COLUMN IF EXISTS recording_status,
+  DROP COLUMN IF EXISTS recording_master_path,
+  DROP COLUMN IF EXISTS recording_source_paths,
+  DROP COLUMN IF EXISTS recording_format,
+  DROP COLUMN IF EXISTS recording_duration_seconds,
+  DROP COLUMN IF EXISTS recording_size_bytes,
+  DROP COLUMN IF EXISTS recording_error,
+  DROP COLUMN IF EXISTS recording_processed_at;
@@ -0,0 +1,13 @@
+-- Migration: Processed recording metadata on calls
+-- The transcription server turns a call's raw recordings (mic and system tracks, or an imported
+-- file) into a loudness-normalized mix: a 16 kHz mono WAV master for transcription and an MP3
+-- listening copy. voice_recording_path points at the listening copy once processing succeeds.
+ALTER TABLE calls
+ADD COLUMN recording_status TEXT CHECK (recording_status IN ('processing', 'ready', 'failed')),
+ADD COLUMN recording_master_path TEXT, -- canonical WAV in call-recordings
+ADD COLUMN recording_source_paths JSONB, -- raw recordings the mix was made from
+ADD COLUMN recording_format JSONB, -- { mime_type, codec, sample_rate, channels, bitrate }
+ADD COLUMN recording_duration_seconds NUMERIC,
+ADD COLUMN recording_size_bytes BIGINT, -- size of the listening copy
+ADD COLUMN recording_error TEXT,
+ADD COLUMN recording_processed_at TIMESTAMP WITH TIME ZONE;
@@ -0,0 +1,3 @@
+-- Migration: Durable post-call job queue (down)
+
+DROP TABLE IF EXISTS post_call_jobs;
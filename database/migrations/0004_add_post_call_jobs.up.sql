@@ -0,0 +1,52 @@
+-- Migration: Durable post-call job queue
+-- completeCall enqueues one row per job; the transcription server's worker claims due rows,
+-- runs them against the AI backend and reschedules failures with backoff until max_attempts.
+CREATE TABLE post_call_jobs (
+  job_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  call_id UUID NOT NULL REFERENCES calls(call_id) ON DELETE CASCADE,
+  owner_id UUID NOT NULL REFERENCES user_profiles(uid) ON DELETE CASCADE,
+  job_type TEXT NOT NULL CHECK (job_type IN ('post_call_steps', 'ai_summary')),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(), -- next time the job may be claimed
+  locked_at TIMESTAMP WITH TIME ZONE, -- set while running; stale locks are reclaimed
+  last_error TEXT,
+  result JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (call_id, job_type)
+);
+
+ALTER TABLE post_call_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Users enqueue, read and retry jobs for calls they own; the worker uses the service role
+CREATE POLICY "select_own_post_call_jobs"
+ON post_call_jobs FOR SELECT TO authenticated
+USING (auth.uid() = owner_id);
+
+CREATE POLICY "insert_own_post_call_jobs"
+ON post_call_jobs FOR INSERT TO authenticated
+WITH CHECK (
+  auth.uid() = owner_id
+  AND EXISTS (
+    SELECT 1 FROM calls
+    WHERE calls.call_id = post_call_jobs.call_id AND calls.owner_id = auth.uid()
+  )
+);
+
+CREATE POLICY "update_own_post_call_jobs"
+ON post_call_jobs FOR UPDATE TO authenticated
+USING (auth.uid() = owner_id)
+WITH CHECK (
+  auth.uid() = owner_id
+  AND EXISTS (
+    SELECT 1 FROM calls
+    WHERE calls.call_id = post_call_jobs.call_id AND calls.owner_id = auth.uid()
+  )
+);
+
+-- The worker polls for due jobs; the dashboard reads jobs per call
+CREATE INDEX idx_post_call_jobs_status_run_at ON post_call_jobs(status, run_at);
+CREATE INDEX idx_post_call_jobs_call_id ON post_call_jobs(call_id);
@@ -0,0 +1,7 @@
+-- Migration: Pluggable sales qualification frameworks (down)
+-- Calls extracted with another framework keep their disco_data, which is then read as DISCO.
+
+DROP TABLE IF EXISTS organisation_settings;
+
+ALTER TABLE upcoming_calls DROP COLUMN IF EXISTS qualification_framework;
+ALTER TABLE calls DROP COLUMN IF EXISTS qualification_framework;
@@ -0,0 +1,42 @@
+-- Migration: Pluggable sales qualification frameworks
+-- Each call records the framework (lib/frameworks.ts) its disco_data was extracted with. Existing
+-- calls keep DISCO. An upcoming call may pick a framework; when it does not, the call gets its
+-- organisation's framework from organisation_settings when it starts (organisations, from
+-- 0010_add_organisations_and_teams on).
+ALTER TABLE calls
+ADD COLUMN qualification_framework TEXT NOT NULL DEFAULT 'disco';
+
+ALTER TABLE upcoming_calls
+ADD COLUMN qualification_framework TEXT; -- null: the organisation's framework
+
+ALTER TABLE calls ADD CONSTRAINT calls_qualification_framework_check
+CHECK (qualification_framework IN ('disco', 'meddicc', 'bant', 'spiced'));
+
+ALTER TABLE upcoming_calls ADD CONSTRAINT upcoming_calls_qualification_framework_check
+CHECK (qualification_framework IS NULL OR qualification_framework IN ('disco', 'meddicc', 'bant', 'spiced'));
+
+-- Per-organisation defaults, keyed by user_profiles.organisation
+CREATE TABLE organisation_settings (
+  organisation TEXT PRIMARY KEY,
+  qualification_framework TEXT NOT NULL DEFAULT 'disco'
+    CHECK (qualification_framework IN ('disco', 'meddicc', 'bant', 'spiced')),
+  updated_by UUID REFERENCES user_profiles(uid) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE organisation_settings ENABLE ROW LEVEL SECURITY;
+
+-- Members of an organisation read and change its settings
+CREATE POLICY "select_own_organisation_settings"
+ON organisation_settings FOR SELECT TO authenticated
+USING (organisation IN (SELECT organisation FROM user_profiles WHERE uid = auth.uid()));
+
+CREATE POLICY "insert_own_organisation_settings"
+ON organisation_settings FOR INSERT TO authenticated
+WITH CHECK (organisation IN (SELECT organisation FROM user_profiles WHERE uid = auth.uid()));
+
+CREATE POLICY "update_own_organisation_settings"
+ON organisation_settings FOR UPDATE TO authenticated
+USING (organisation IN (SELECT organisation FROM user_profiles WHERE uid = auth.uid()))
+WITH CHECK (organisation IN (SELECT organisation FROM user_profiles WHERE uid = auth.uid()));
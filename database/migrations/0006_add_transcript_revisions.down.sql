@@ -0,0 +1,8 @@
+-- Migration: Transcript revision history (down)
+-- Drops the revision history; the transcripts themselves keep their current text.
+
+DROP TRIGGER IF EXISTS trg_calls_transcript_revisions ON calls;
+DROP FUNCTION IF EXISTS record_transcript_revisions();
+
+DROP TABLE IF EXISTS transcript_revisions;
+DROP FUNCTION IF EXISTS prevent_transcript_revision_update();
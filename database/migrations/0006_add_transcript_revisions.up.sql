@@ -0,0 +1,70 @@
+-- Migration: Transcript revision history
+-- Every change to the text of a transcript entry is recorded as an immutable revision holding the
+-- previous text, the new text, who made the change and when. A trigger on calls writes the
+-- revisions in the same transaction as the edit, so no code path can change text without a trail.
+-- The oldest revision's previous_text is the original machine transcription.
+CREATE TABLE transcript_revisions (
+  revision_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  call_id UUID NOT NULL REFERENCES calls(call_id) ON DELETE CASCADE,
+  entry_id TEXT NOT NULL, -- TranscriptEntry.id within calls.transcript
+  previous_text TEXT,
+  new_text TEXT,
+  editor_email TEXT, -- null when the server changed the text
+  reverted_revision_id UUID REFERENCES transcript_revisions(revision_id), -- set when the edit reverted that revision
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_transcript_revisions_entry ON transcript_revisions(call_id, entry_id, created_at);
+
+ALTER TABLE transcript_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Whoever can see the call can read its revisions; only the trigger below writes them
+CREATE POLICY "select_visible_transcript_revisions"
+ON transcript_revisions FOR SELECT TO authenticated
+USING (EXISTS (SELECT 1 FROM calls WHERE calls.call_id = transcript_revisions.call_id));
+
+-- Revisions are never changed, not even by the service role
+CREATE FUNCTION prevent_transcript_revision_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'transcript revisions are immutable';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trg_transcript_revisions_immutable
+  BEFORE UPDATE ON transcript_revisions
+  FOR EACH ROW EXECUTE FUNCTION prevent_transcript_revision_update();
+
+-- One revision per entry whose text changed. The editor is the signed-in user, falling back to the
+-- entry's edited_by for server-side writes.
+CREATE FUNCTION record_transcript_revisions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO transcript_revisions (call_id, entry_id, previous_text, new_text, editor_email, reverted_revision_id)
+  SELECT
+    NEW.call_id,
+    new_entry->>'id',
+    old_entry->>'text',
+    new_entry->>'text',
+    COALESCE(auth.jwt() ->> 'email', new_entry->>'edited_by'),
+    CASE
+      WHEN new_entry->>'reverted_revision_id' IS DISTINCT FROM old_entry->>'reverted_revision_id'
+      THEN (new_entry->>'reverted_revision_id')::UUID
+    END
+  FROM jsonb_array_elements(COALESCE(NEW.transcript->'entries', '[]'::jsonb)) AS new_entry
+  JOIN jsonb_array_elements(COALESCE(OLD.transcript->'entries', '[]'::jsonb)) AS old_entry
+    ON old_entry->>'id' = new_entry->>'id'
+  WHERE old_entry->>'text' IS DISTINCT FROM new_entry->>'text';
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_calls_transcript_revisions
+  AFTER UPDATE OF transcript ON calls
+  FOR EACH ROW
+  WHEN (OLD.transcript IS DISTINCT FROM NEW.transcript)
+  EXECUTE FUNCTION record_transcript_revisions();
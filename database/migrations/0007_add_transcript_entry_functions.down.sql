@@ -0,0 +1,4 @@
+-- Migration: Atomic transcript entry operations (down)
+
+DROP FUNCTION IF EXISTS update_transcript_entry(UUID, TEXT, TEXT, INTEGER, TEXT, UUID);
+DROP FUNCTION IF EXISTS append_transcript_entries(UUID, JSONB);
@@ -0,0 +1,109 @@
+-- Migration: Atomic transcript entry operations
+-- Appending and editing entries used to read calls.transcript, change it in the client and write
+-- it back, so concurrent writers (two editors, or the live stream and an editor) overwrote each
+-- other. These functions change one call's transcript under a row lock. Edits carry the entry
+-- version the editor saw; a stale version fails with SQLSTATE PT409 (HTTP 409 through PostgREST)
+-- and the stored entry as the error detail. Both run as the caller, so the calls RLS policies
+-- still decide who may write.
+
+-- Append entries whose id is not stored yet; returns how many were added
+CREATE FUNCTION append_transcript_entries(p_call_id UUID, p_entries JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_transcript JSONB;
+  v_missing JSONB;
+  v_now TEXT := to_char(NOW() AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"');
+BEGIN
+  SELECT transcript INTO v_transcript FROM calls WHERE call_id = p_call_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Call % not found or not writable', p_call_id USING ERRCODE = 'PT404';
+  END IF;
+
+  IF v_transcript IS NULL OR jsonb_typeof(v_transcript->'entries') IS DISTINCT FROM 'array' THEN
+    v_transcript := jsonb_build_object(
+      'entries', '[]'::jsonb,
+      'created_at', COALESCE(v_transcript->>'created_at', v_now)
+    );
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(entry ORDER BY position), '[]'::jsonb) INTO v_missing
+  FROM jsonb_array_elements(p_entries) WITH ORDINALITY AS incoming(entry, position)
+  WHERE NOT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_transcript->'entries') AS stored
+    WHERE stored->>'id' = entry->>'id'
+  );
+
+  IF jsonb_array_length(v_missing) = 0 THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE calls
+  SET transcript = v_transcript
+    || jsonb_build_object('entries', (v_transcript->'entries') || v_missing, 'updated_at', v_now)
+  WHERE call_id = p_call_id;
+
+  RETURN jsonb_array_length(v_missing);
+END;
+$$;
+
+-- Change an entry's text if it is still at p_expected_version; returns the updated entry
+CREATE FUNCTION update_transcript_entry(
+  p_call_id UUID,
+  p_entry_id TEXT,
+  p_text TEXT,
+  p_expected_version INTEGER,
+  p_editor_email TEXT,
+  p_reverted_revision_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_transcript JSONB;
+  v_position INTEGER;
+  v_entry JSONB;
+  v_now TEXT := to_char(NOW() AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"');
+BEGIN
+  SELECT transcript INTO v_transcript FROM calls WHERE call_id = p_call_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Call % not found or not writable', p_call_id USING ERRCODE = 'PT404';
+  END IF;
+
+  SELECT position - 1, entry INTO v_position, v_entry
+  FROM jsonb_array_elements(COALESCE(v_transcript->'entries', '[]'::jsonb)) WITH ORDINALITY AS stored(entry, position)
+  WHERE entry->>'id' = p_entry_id;
+
+  IF v_entry IS NULL THEN
+    RAISE EXCEPTION 'Transcript entry % not found', p_entry_id USING ERRCODE = 'PT404';
+  END IF;
+
+  -- Entries written before versions existed are at version 0
+  IF COALESCE((v_entry->>'version')::INTEGER, 0) <> p_expected_version THEN
+    RAISE EXCEPTION 'Transcript entry % was changed by someone else', p_entry_id
+      USING ERRCODE = 'PT409', DETAIL = v_entry::TEXT;
+  END IF;
+
+  v_entry := (v_entry - 'reverted_revision_id') || jsonb_strip_nulls(jsonb_build_object(
+    'text', p_text,
+    'edited_by', p_editor_email,
+    'edited_at', v_now,
+    'is_edited', true,
+    'version', p_expected_version + 1,
+    'reverted_revision_id', p_reverted_revision_id
+  ));
+
+  UPDATE calls
+  SET transcript = jsonb_set(v_transcript, ARRAY['entries', v_position::TEXT], v_entry)
+    || jsonb_build_object('updated_at', v_now)
+  WHERE call_id = p_call_id;
+
+  RETURN v_entry;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION append_transcript_entries(UUID, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION update_transcript_entry(UUID, TEXT, TEXT, INTEGER, TEXT, UUID) TO authenticated;
@@ -0,0 +1,20 @@
+-- Migration: One membership model for call access (down)
+-- Drops call_members and puts back the transcript.permissions editors policy. Members added since
+-- the migration are lost; the grants it copied are still in the old columns and table.
+
+DROP POLICY IF EXISTS "update_member_calls" ON calls;
+DROP POLICY IF EXISTS "select_member_calls" ON calls;
+
+CREATE POLICY "Users with edit permissions can update transcript"
+ON calls FOR UPDATE
+USING (
+  auth.uid() = owner_id OR
+  jsonb_exists(transcript->'permissions'->'editors', auth.jwt() ->> 'email')
+);
+
+DROP TABLE IF EXISTS call_members;
+
+DROP FUNCTION IF EXISTS can_manage_call(UUID);
+DROP FUNCTION IF EXISTS can_edit_call(UUID);
+DROP FUNCTION IF EXISTS can_read_call(UUID);
+DROP FUNCTION IF EXISTS call_role(UUID);
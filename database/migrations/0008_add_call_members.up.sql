@@ -0,0 +1,174 @@
+-- Migration: One membership model for call access
+-- Replaces the three earlier descriptions of who may access a call: transcript.permissions
+-- (emails, only checked in the client), call_permissions (one uid per role) and
+-- calls.members_emails / members_uids (no policies, no roles). call_members holds any number of
+-- members per role and is enforced by RLS:
+--   owner (calls.owner_id)  everything, implicitly
+--   admin                   read, write, manage members
+--   editor                  read and write
+--   viewer                  read
+-- Members are matched by user id or, for people invited before they signed up, by email.
+-- Existing grants are copied over, and people listed in members_emails / members_uids become
+-- viewers. The old columns and table are no longer read; 0011_drop_legacy_call_access drops them.
+CREATE TABLE call_members (
+  call_id UUID NOT NULL REFERENCES calls(call_id) ON DELETE CASCADE,
+  email TEXT NOT NULL CHECK (email = lower(email)),
+  user_id UUID REFERENCES user_profiles(uid) ON DELETE SET NULL,
+  role TEXT NOT NULL CHECK (role IN ('admin', 'editor', 'viewer')),
+  added_by UUID REFERENCES user_profiles(uid) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (call_id, email)
+);
+
+CREATE INDEX idx_call_members_user_id ON call_members(user_id);
+CREATE INDEX idx_call_members_email ON call_members(email);
+
+-- The caller's role on a call: 'owner', a call_members role, or null. SECURITY DEFINER so the
+-- calls and call_members policies can use it without recursing into each other.
+CREATE FUNCTION call_role(p_call_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN EXISTS (SELECT 1 FROM calls WHERE call_id = p_call_id AND owner_id = auth.uid()) THEN 'owner'
+    ELSE (
+      SELECT role FROM call_members
+      WHERE call_id = p_call_id
+        AND (user_id = auth.uid() OR email = lower(auth.jwt() ->> 'email'))
+      ORDER BY CASE role WHEN 'admin' THEN 0 WHEN 'editor' THEN 1 ELSE 2 END
+      LIMIT 1
+    )
+  END
+$$;
+
+CREATE FUNCTION can_read_call(p_call_id UUID)
+RETURNS BOOLEAN LANGUAGE sql STABLE SET search_path = public AS $$
+  SELECT call_role(p_call_id) IS NOT NULL
+$$;
+
+CREATE FUNCTION can_edit_call(p_call_id UUID)
+RETURNS BOOLEAN LANGUAGE sql STABLE SET search_path = public AS $$
+  SELECT call_role(p_call_id) IN ('owner', 'admin', 'editor')
+$$;
+
+CREATE FUNCTION can_manage_call(p_call_id UUID)
+RETURNS BOOLEAN LANGUAGE sql STABLE SET search_path = public AS $$
+  SELECT call_role(p_call_id) IN ('owner', 'admin')
+$$;
+
+GRANT EXECUTE ON FUNCTION call_role(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION can_read_call(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION can_edit_call(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION can_manage_call(UUID) TO authenticated;
+
+ALTER TABLE call_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "select_call_members"
+ON call_members FOR SELECT TO authenticated
+USING (can_read_call(call_id));
+
+CREATE POLICY "insert_call_members"
+ON call_members FOR INSERT TO authenticated
+WITH CHECK (can_manage_call(call_id));
+
+CREATE POLICY "update_call_members"
+ON call_members FOR UPDATE TO authenticated
+USING (can_manage_call(call_id))
+WITH CHECK (can_manage_call(call_id));
+
+CREATE POLICY "delete_call_members"
+ON call_members FOR DELETE TO authenticated
+USING (can_manage_call(call_id));
+
+CREATE TRIGGER trg_call_members_updated_at
+  BEFORE UPDATE ON call_members
+  FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+
+-- Members read calls; editors write them. The owner policies from the baseline stay.
+DROP POLICY "Users with edit permissions can update transcript" ON calls;
+
+CREATE POLICY "select_member_calls"
+ON calls FOR SELECT TO authenticated
+USING (can_read_call(call_id));
+
+CREATE POLICY "update_member_calls"
+ON calls FOR UPDATE TO authenticated
+USING (can_edit_call(call_id))
+WITH CHECK (can_edit_call(call_id));
+
+-- Backfill from transcript.permissions; the highest role wins when an email appears twice.
+-- Accounts are matched on their sign-in email in auth.users: user_profiles.email is user-editable.
+WITH accounts AS (
+  SELECT profiles.uid, lower(users.email) AS email, profiles.date_joined
+  FROM user_profiles AS profiles
+  JOIN auth.users AS users ON users.id = profiles.uid
+)
+INSERT INTO call_members (call_id, email, user_id, role)
+SELECT DISTINCT ON (grants.call_id, grants.email)
+  grants.call_id, grants.email, accounts.uid, grants.role
+FROM (
+  SELECT call_id, lower(transcript->'permissions'->>'admin') AS email, 'admin' AS role, 0 AS rank
+  FROM calls
+  UNION ALL
+  SELECT call_id, lower(editor.value), 'editor', 1
+  FROM calls, jsonb_array_elements_text(COALESCE(transcript->'permissions'->'editors', '[]'::jsonb)) AS editor(value)
+  UNION ALL
+  SELECT call_id, lower(viewer.value), 'viewer', 2
+  FROM calls, jsonb_array_elements_text(COALESCE(transcript->'permissions'->'viewers', '[]'::jsonb)) AS viewer(value)
+) AS grants
+LEFT JOIN accounts ON accounts.email = grants.email
+WHERE grants.email IS NOT NULL AND grants.email <> ''
+ORDER BY grants.call_id, grants.email, grants.rank
+ON CONFLICT (call_id, email) DO NOTHING;
+
+-- Backfill from call_permissions
+WITH accounts AS (
+  SELECT profiles.uid, lower(users.email) AS email, profiles.date_joined
+  FROM user_profiles AS profiles
+  JOIN auth.users AS users ON users.id = profiles.uid
+)
+INSERT INTO call_members (call_id, email, user_id, role)
+SELECT DISTINCT ON (grants.call_id, accounts.email)
+  grants.call_id, accounts.email, accounts.uid, grants.role
+FROM (
+  SELECT call_id, admin AS uid, 'admin' AS role, 0 AS rank FROM call_permissions WHERE admin IS NOT NULL
+  UNION ALL
+  SELECT call_id, editor, 'editor', 1 FROM call_permissions WHERE editor IS NOT NULL
+  UNION ALL
+  SELECT call_id, viewer, 'viewer', 2 FROM call_permissions WHERE viewer IS NOT NULL
+) AS grants
+JOIN accounts ON accounts.uid = grants.uid
+WHERE accounts.email IS NOT NULL
+ORDER BY grants.call_id, accounts.email, grants.rank
+ON CONFLICT (call_id, email) DO NOTHING;
+
+-- Backfill from members_emails / members_uids. They held no role, so everyone listed becomes a
+-- viewer; a role copied above wins.
+WITH accounts AS (
+  SELECT profiles.uid, lower(users.email) AS email, profiles.date_joined
+  FROM user_profiles AS profiles
+  JOIN auth.users AS users ON users.id = profiles.uid
+)
+INSERT INTO call_members (call_id, email, user_id, role)
+SELECT DISTINCT ON (members.call_id, members.email)
+  members.call_id, members.email, accounts.uid, 'viewer'
+FROM (
+  SELECT call_id, lower(trim(member.value)) AS email
+  FROM calls, jsonb_array_elements_text(
+    CASE WHEN jsonb_typeof(members_emails) = 'array' THEN members_emails ELSE '[]'::jsonb END
+  ) AS member(value)
+  UNION
+  SELECT call_id, accounts.email
+  FROM calls, jsonb_array_elements_text(
+    CASE WHEN jsonb_typeof(members_uids) = 'array' THEN members_uids ELSE '[]'::jsonb END
+  ) AS member(value)
+  JOIN accounts ON accounts.uid::TEXT = member.value
+) AS members
+LEFT JOIN accounts ON accounts.email = members.email
+WHERE members.email IS NOT NULL AND members.email <> ''
+ORDER BY members.call_id, members.email, accounts.date_joined
+ON CONFLICT (call_id, email) DO NOTHING;
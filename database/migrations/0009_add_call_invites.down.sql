@@ -0,0 +1,15 @@
+-- Migration: Call invitations (down)
+-- Pending invites stay in call_members, but are no longer linked to accounts created later.
+
+DROP POLICY IF EXISTS "select_call_owner_profiles" ON user_profiles;
+
+DROP FUNCTION IF EXISTS invite_call_member(UUID, TEXT, TEXT, TEXT);
+
+DROP TRIGGER IF EXISTS trg_auth_users_claim_call_invites ON auth.users;
+DROP FUNCTION IF EXISTS claim_pending_call_invites_on_email_change();
+
+DROP TRIGGER IF EXISTS trg_user_profiles_claim_call_invites ON user_profiles;
+DROP FUNCTION IF EXISTS claim_pending_call_invites();
+
+DROP TRIGGER IF EXISTS trg_call_members_link_user ON call_members;
+DROP FUNCTION IF EXISTS link_call_member_user();
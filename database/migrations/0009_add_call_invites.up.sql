@@ -0,0 +1,118 @@
+-- Migration: Call invitations
+-- Owners and admins invite people to a call by email or username. An invite for an email without
+-- an account is kept as a pending call_members row (user_id null); it is linked to the account as
+-- soon as one signs in with that email and has a profile, so the call then shows up under "Shared
+-- with me". Emails are always the account's verified one in auth.users, never user_profiles.email,
+-- which its owner can set to anything. user_profiles is only readable by its owner, so invitations
+-- are resolved here rather than in the client. Members may also read the profile of the call's
+-- owner, to show whose call it is.
+
+-- Link new and changed members to the account with their email
+CREATE FUNCTION link_call_member_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.user_id IS NULL THEN
+    SELECT profiles.uid INTO NEW.user_id
+    FROM auth.users AS users
+    JOIN user_profiles AS profiles ON profiles.uid = users.id
+    WHERE lower(users.email) = NEW.email
+    LIMIT 1;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_call_members_link_user
+  BEFORE INSERT OR UPDATE OF email, user_id ON call_members
+  FOR EACH ROW EXECUTE FUNCTION link_call_member_user();
+
+-- Accept pending invites when someone with an invited email creates their profile
+CREATE FUNCTION claim_pending_call_invites()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE call_members SET user_id = NEW.uid
+  FROM auth.users AS users
+  WHERE users.id = NEW.uid AND call_members.email = lower(users.email) AND call_members.user_id IS NULL;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_user_profiles_claim_call_invites
+  AFTER INSERT ON user_profiles
+  FOR EACH ROW EXECUTE FUNCTION claim_pending_call_invites();
+
+-- ...or confirms a change of their sign-in email to one
+CREATE FUNCTION claim_pending_call_invites_on_email_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE call_members SET user_id = NEW.id
+  WHERE email = lower(NEW.email) AND user_id IS NULL
+    AND EXISTS (SELECT 1 FROM user_profiles WHERE uid = NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_auth_users_claim_call_invites
+  AFTER UPDATE OF email ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION claim_pending_call_invites_on_email_change();
+
+-- Invites written before this migration
+UPDATE call_members SET user_id = profiles.uid
+FROM user_profiles AS profiles
+JOIN auth.users AS users ON users.id = profiles.uid
+WHERE call_members.user_id IS NULL AND lower(users.email) = call_members.email;
+
+-- Add or re-role a member by email or username; returns the call_members row. Unknown emails become
+-- pending invites, unknown usernames fail with PT404. Only the owner and admins may invite (PT403).
+CREATE FUNCTION invite_call_member(p_call_id UUID, p_invitee TEXT, p_invite_by TEXT, p_role TEXT)
+RETURNS call_members
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_email TEXT;
+  v_member call_members;
+BEGIN
+  IF NOT can_manage_call(p_call_id) THEN
+    RAISE EXCEPTION 'Not allowed to manage members of call %', p_call_id USING ERRCODE = 'PT403';
+  END IF;
+
+  IF p_invite_by = 'username' THEN
+    SELECT lower(users.email) INTO v_email
+    FROM user_profiles AS profiles
+    JOIN auth.users AS users ON users.id = profiles.uid
+    WHERE profiles.username = trim(p_invitee);
+    IF v_email IS NULL THEN
+      RAISE EXCEPTION 'No user with username %', trim(p_invitee) USING ERRCODE = 'PT404';
+    END IF;
+  ELSE
+    v_email := lower(trim(p_invitee));
+  END IF;
+
+  INSERT INTO call_members (call_id, email, role, added_by)
+  VALUES (p_call_id, v_email, p_role, auth.uid())
+  ON CONFLICT (call_id, email) DO UPDATE SET role = EXCLUDED.role
+  RETURNING * INTO v_member;
+
+  RETURN v_member;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION invite_call_member(UUID, TEXT, TEXT, TEXT) TO authenticated;
+
+CREATE POLICY "select_call_owner_profiles"
+ON user_profiles FOR SELECT TO authenticated
+USING (EXISTS (SELECT 1 FROM calls WHERE calls.owner_id = user_profiles.uid));
@@ -0,0 +1,48 @@
+-- Migration: Organisations and teams (down)
+-- Drops organisations, teams, their invites, label catalogs and library records, data included.
+-- Team library files stay in the call-documents bucket under teams/. organisation_settings still
+-- holds the frameworks it had when this was applied; later changes are lost.
+
+DROP POLICY IF EXISTS "team_documents_delete" ON storage.objects;
+DROP POLICY IF EXISTS "team_documents_insert" ON storage.objects;
+DROP POLICY IF EXISTS "team_documents_select" ON storage.objects;
+DROP POLICY IF EXISTS "select_team_upcoming_calls" ON upcoming_calls;
+DROP POLICY IF EXISTS "select_organisation_profiles" ON user_profiles;
+DROP POLICY IF EXISTS "select_inviting_organisations" ON organisations;
+
+-- As in 0008_add_call_members, without team managers
+CREATE OR REPLACE FUNCTION call_role(p_call_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN EXISTS (SELECT 1 FROM calls WHERE call_id = p_call_id AND owner_id = auth.uid()) THEN 'owner'
+    ELSE (
+      SELECT role FROM call_members
+      WHERE call_id = p_call_id
+        AND (user_id = auth.uid() OR email = lower(auth.jwt() ->> 'email'))
+      ORDER BY CASE role WHEN 'admin' THEN 0 WHEN 'editor' THEN 1 ELSE 2 END
+      LIMIT 1
+    )
+  END
+$$;
+
+ALTER TABLE upcoming_calls DROP COLUMN IF EXISTS team_id;
+ALTER TABLE calls DROP COLUMN IF EXISTS team_id;
+
+DROP FUNCTION IF EXISTS accept_organisation_invite(UUID);
+DROP FUNCTION IF EXISTS setup_organisation(TEXT);
+
+DROP TABLE IF EXISTS team_documents;
+DROP TABLE IF EXISTS team_labels;
+DROP TABLE IF EXISTS organisation_invites;
+DROP TABLE IF EXISTS team_members;
+DROP TABLE IF EXISTS teams;
+DROP TABLE IF EXISTS organisation_members;
+DROP TABLE IF EXISTS organisations;
+
+DROP FUNCTION IF EXISTS team_role(UUID);
+DROP FUNCTION IF EXISTS organisation_role(UUID);
@@ -0,0 +1,406 @@
+-- Migration: Organisations and teams
+-- user_profiles.organisation was free text, so anyone typing the same name shared organisation
+-- settings and nobody could see a colleague's calls. Organisations are now rows with members
+-- (admin or member) and teams (manager or member). People join an organisation by invitation;
+-- someone signing up without one creates their own. Calls, upcoming calls, label catalogs and
+-- document libraries belong to a team: team managers and organisation admins can read every call
+-- of the team without being added to it, team members share its labels and documents.
+-- The free text proves nothing, so existing profiles are not grouped by it: each profile with an
+-- organisation text gets an organisation of its own by that name, with a "General" team, as admin
+-- and manager, and invites colleagues from there. Profiles without one are left unassigned.
+-- organisation_settings is copied into organisations and no longer read; 0011_drop_legacy_call_access
+-- drops it.
+CREATE TABLE organisations (
+  organisation_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  qualification_framework TEXT NOT NULL DEFAULT 'disco'
+    CHECK (qualification_framework IN ('disco', 'meddicc', 'bant', 'spiced')),
+  created_by UUID REFERENCES user_profiles(uid) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One organisation per person
+CREATE TABLE organisation_members (
+  organisation_id UUID NOT NULL REFERENCES organisations(organisation_id) ON DELETE CASCADE,
+  user_id UUID NOT NULL UNIQUE REFERENCES user_profiles(uid) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('admin', 'member')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (organisation_id, user_id)
+);
+
+CREATE TABLE teams (
+  team_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organisation_id UUID NOT NULL REFERENCES organisations(organisation_id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (organisation_id, name)
+);
+
+CREATE TABLE team_members (
+  team_id UUID NOT NULL REFERENCES teams(team_id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES user_profiles(uid) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('manager', 'member')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (team_id, user_id)
+);
+
+CREATE INDEX idx_team_members_user_id ON team_members(user_id);
+
+-- Pending until the invitee accepts; team_id optionally puts them in a team as well
+CREATE TABLE organisation_invites (
+  invite_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organisation_id UUID NOT NULL REFERENCES organisations(organisation_id) ON DELETE CASCADE,
+  email TEXT NOT NULL CHECK (email = lower(email)),
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('admin', 'member')),
+  team_id UUID REFERENCES teams(team_id) ON DELETE SET NULL,
+  team_role TEXT NOT NULL DEFAULT 'member' CHECK (team_role IN ('manager', 'member')),
+  invited_by UUID REFERENCES user_profiles(uid) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  accepted_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE UNIQUE INDEX idx_organisation_invites_pending
+  ON organisation_invites(organisation_id, email) WHERE accepted_at IS NULL;
+CREATE INDEX idx_organisation_invites_email ON organisation_invites(email);
+
+CREATE TABLE team_labels (
+  team_id UUID NOT NULL REFERENCES teams(team_id) ON DELETE CASCADE,
+  text TEXT NOT NULL,
+  color TEXT NOT NULL,
+  created_by UUID REFERENCES user_profiles(uid) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (team_id, text)
+);
+
+-- Files live in the call-documents bucket under teams/<team_id>/
+CREATE TABLE team_documents (
+  document_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id UUID NOT NULL REFERENCES teams(team_id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  path TEXT NOT NULL UNIQUE,
+  size BIGINT,
+  type TEXT,
+  uploaded_by UUID REFERENCES user_profiles(uid) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_team_documents_team_id ON team_documents(team_id);
+
+ALTER TABLE calls ADD COLUMN team_id UUID REFERENCES teams(team_id) ON DELETE SET NULL;
+ALTER TABLE upcoming_calls ADD COLUMN team_id UUID REFERENCES teams(team_id) ON DELETE SET NULL;
+CREATE INDEX idx_calls_team_id ON calls(team_id);
+CREATE INDEX idx_upcoming_calls_team_id ON upcoming_calls(team_id);
+
+-- Roles of the signed-in user. SECURITY DEFINER so policies can use them without recursing.
+CREATE FUNCTION organisation_role(p_organisation_id UUID)
+RETURNS TEXT LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT role FROM organisation_members WHERE organisation_id = p_organisation_id AND user_id = auth.uid()
+$$;
+
+-- 'manager' or 'member' of the team; organisation admins count as managers of every team
+CREATE FUNCTION team_role(p_team_id UUID)
+RETURNS TEXT LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT CASE
+    WHEN EXISTS (
+      SELECT 1 FROM teams
+      JOIN organisation_members ON organisation_members.organisation_id = teams.organisation_id
+      WHERE teams.team_id = p_team_id AND organisation_members.user_id = auth.uid() AND organisation_members.role = 'admin'
+    ) THEN 'manager'
+    ELSE (SELECT role FROM team_members WHERE team_id = p_team_id AND user_id = auth.uid())
+  END
+$$;
+
+GRANT EXECUTE ON FUNCTION organisation_role(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION team_role(UUID) TO authenticated;
+
+-- Team managers read the team's calls as viewers, unless they have a role of their own
+CREATE OR REPLACE FUNCTION call_role(p_call_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN EXISTS (SELECT 1 FROM calls WHERE call_id = p_call_id AND owner_id = auth.uid()) THEN 'owner'
+    ELSE COALESCE(
+      (
+        SELECT role FROM call_members
+        WHERE call_id = p_call_id
+          AND (user_id = auth.uid() OR email = lower(auth.jwt() ->> 'email'))
+        ORDER BY CASE role WHEN 'admin' THEN 0 WHEN 'editor' THEN 1 ELSE 2 END
+        LIMIT 1
+      ),
+      (SELECT 'viewer' FROM calls WHERE call_id = p_call_id AND team_role(team_id) = 'manager')
+    )
+  END
+$$;
+
+ALTER TABLE organisations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organisation_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE teams ENABLE ROW LEVEL SECURITY;
+ALTER TABLE team_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organisation_invites ENABLE ROW LEVEL SECURITY;
+ALTER TABLE team_labels ENABLE ROW LEVEL SECURITY;
+ALTER TABLE team_documents ENABLE ROW LEVEL SECURITY;
+
+-- Members see their organisation, its members and teams; admins change them. Organisations are
+-- created and joined through setup_organisation and accept_organisation_invite below.
+CREATE POLICY "select_member_organisations"
+ON organisations FOR SELECT TO authenticated
+USING (organisation_role(organisation_id) IS NOT NULL);
+
+-- Invitees see the name of the organisation inviting them
+CREATE POLICY "select_inviting_organisations"
+ON organisations FOR SELECT TO authenticated
+USING (EXISTS (
+  SELECT 1 FROM organisation_invites
+  WHERE organisation_invites.organisation_id = organisations.organisation_id
+    AND organisation_invites.email = lower(auth.jwt() ->> 'email')
+    AND organisation_invites.accepted_at IS NULL
+));
+
+CREATE POLICY "update_admin_organisations"
+ON organisations FOR UPDATE TO authenticated
+USING (organisation_role(organisation_id) = 'admin')
+WITH CHECK (organisation_role(organisation_id) = 'admin');
+
+CREATE POLICY "select_organisation_members"
+ON organisation_members FOR SELECT TO authenticated
+USING (organisation_role(organisation_id) IS NOT NULL);
+
+CREATE POLICY "update_organisation_members"
+ON organisation_members FOR UPDATE TO authenticated
+USING (organisation_role(organisation_id) = 'admin')
+WITH CHECK (organisation_role(organisation_id) = 'admin');
+
+-- Admins remove members; anyone may leave
+CREATE POLICY "delete_organisation_members"
+ON organisation_members FOR DELETE TO authenticated
+USING (organisation_role(organisation_id) = 'admin' OR user_id = auth.uid());
+
+CREATE POLICY "select_organisation_teams"
+ON teams FOR SELECT TO authenticated
+USING (organisation_role(organisation_id) IS NOT NULL);
+
+CREATE POLICY "manage_organisation_teams"
+ON teams FOR ALL TO authenticated
+USING (organisation_role(organisation_id) = 'admin')
+WITH CHECK (organisation_role(organisation_id) = 'admin');
+
+CREATE POLICY "select_team_members"
+ON team_members FOR SELECT TO authenticated
+USING (EXISTS (SELECT 1 FROM teams WHERE teams.team_id = team_members.team_id));
+
+-- Team managers (and so organisation admins) add and remove people of their organisation
+CREATE POLICY "manage_team_members"
+ON team_members FOR ALL TO authenticated
+USING (team_role(team_id) = 'manager')
+WITH CHECK (
+  team_role(team_id) = 'manager'
+  AND EXISTS (
+    SELECT 1 FROM teams
+    JOIN organisation_members ON organisation_members.organisation_id = teams.organisation_id
+    WHERE teams.team_id = team_members.team_id AND organisation_members.user_id = team_members.user_id
+  )
+);
+
+CREATE POLICY "select_organisation_invites"
+ON organisation_invites FOR SELECT TO authenticated
+USING (organisation_role(organisation_id) = 'admin' OR email = lower(auth.jwt() ->> 'email'));
+
+CREATE POLICY "insert_organisation_invites"
+ON organisation_invites FOR INSERT TO authenticated
+WITH CHECK (
+  organisation_role(organisation_id) = 'admin'
+  AND accepted_at IS NULL
+  AND (team_id IS NULL OR EXISTS (
+    SELECT 1 FROM teams WHERE teams.team_id = organisation_invites.team_id AND teams.organisation_id = organisation_invites.organisation_id
+  ))
+);
+
+-- Admins revoke invites; invitees decline them
+CREATE POLICY "delete_organisation_invites"
+ON organisation_invites FOR DELETE TO authenticated
+USING (accepted_at IS NULL AND (organisation_role(organisation_id) = 'admin' OR email = lower(auth.jwt() ->> 'email')));
+
+CREATE POLICY "select_team_labels"
+ON team_labels FOR SELECT TO authenticated
+USING (team_role(team_id) IS NOT NULL);
+
+CREATE POLICY "insert_team_labels"
+ON team_labels FOR INSERT TO authenticated
+WITH CHECK (team_role(team_id) IS NOT NULL);
+
+CREATE POLICY "delete_team_labels"
+ON team_labels FOR DELETE TO authenticated
+USING (team_role(team_id) = 'manager' OR created_by = auth.uid());
+
+CREATE POLICY "select_team_documents"
+ON team_documents FOR SELECT TO authenticated
+USING (team_role(team_id) IS NOT NULL);
+
+CREATE POLICY "insert_team_documents"
+ON team_documents FOR INSERT TO authenticated
+WITH CHECK (team_role(team_id) IS NOT NULL AND path LIKE 'teams/' || team_id::TEXT || '/%');
+
+CREATE POLICY "delete_team_documents"
+ON team_documents FOR DELETE TO authenticated
+USING (team_role(team_id) = 'manager' OR uploaded_by = auth.uid());
+
+-- Colleagues see each other's profiles
+CREATE POLICY "select_organisation_profiles"
+ON user_profiles FOR SELECT TO authenticated
+USING (EXISTS (
+  SELECT 1 FROM organisation_members
+  WHERE organisation_members.user_id = user_profiles.uid
+    AND organisation_role(organisation_members.organisation_id) IS NOT NULL
+));
+
+-- Team managers see the team's upcoming calls
+CREATE POLICY "select_team_upcoming_calls"
+ON upcoming_calls FOR SELECT TO authenticated
+USING (team_id IS NOT NULL AND team_role(team_id) = 'manager');
+
+-- Team library files: name format "teams/<team_id>/<filename>"
+CREATE POLICY "team_documents_select"
+ON storage.objects FOR SELECT TO authenticated
+USING (
+  bucket_id = 'call-documents'
+  AND split_part(name, '/', 1) = 'teams'
+  AND EXISTS (SELECT 1 FROM teams WHERE teams.team_id::TEXT = split_part(name, '/', 2) AND team_role(teams.team_id) IS NOT NULL)
+);
+
+CREATE POLICY "team_documents_insert"
+ON storage.objects FOR INSERT TO authenticated
+WITH CHECK (
+  bucket_id = 'call-documents'
+  AND split_part(name, '/', 1) = 'teams'
+  AND EXISTS (SELECT 1 FROM teams WHERE teams.team_id::TEXT = split_part(name, '/', 2) AND team_role(teams.team_id) IS NOT NULL)
+);
+
+CREATE POLICY "team_documents_delete"
+ON storage.objects FOR DELETE TO authenticated
+USING (
+  bucket_id = 'call-documents'
+  AND split_part(name, '/', 1) = 'teams'
+  AND (
+    owner = auth.uid()
+    OR EXISTS (SELECT 1 FROM teams WHERE teams.team_id::TEXT = split_part(name, '/', 2) AND team_role(teams.team_id) = 'manager')
+  )
+);
+
+-- Called once after signing up: accepts every invite sent to the user's email or, without any,
+-- creates an organisation called p_name with a "General" team, the user as admin and manager.
+-- Returns the organisation id.
+CREATE FUNCTION setup_organisation(p_name TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_organisation_id UUID;
+  v_team_id UUID;
+  v_invite organisation_invites;
+BEGIN
+  SELECT organisation_id INTO v_organisation_id FROM organisation_members WHERE user_id = auth.uid();
+  IF v_organisation_id IS NOT NULL THEN
+    RETURN v_organisation_id;
+  END IF;
+
+  FOR v_invite IN
+    SELECT * FROM organisation_invites
+    WHERE email = lower(auth.jwt() ->> 'email') AND accepted_at IS NULL
+    ORDER BY created_at
+  LOOP
+    RETURN accept_organisation_invite(v_invite.invite_id);
+  END LOOP;
+
+  INSERT INTO organisations (name, created_by) VALUES (trim(p_name), auth.uid())
+  RETURNING organisation_id INTO v_organisation_id;
+  INSERT INTO organisation_members (organisation_id, user_id, role) VALUES (v_organisation_id, auth.uid(), 'admin');
+  INSERT INTO teams (organisation_id, name) VALUES (v_organisation_id, 'General') RETURNING team_id INTO v_team_id;
+  INSERT INTO team_members (team_id, user_id, role) VALUES (v_team_id, auth.uid(), 'manager');
+  RETURN v_organisation_id;
+END;
+$$;
+
+-- Join the organisation (and team) of an invite sent to the user's email, leaving any organisation
+-- they belonged to before. Fails with PT404 for unknown, foreign or accepted invites.
+CREATE FUNCTION accept_organisation_invite(p_invite_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invite organisation_invites;
+BEGIN
+  SELECT * INTO v_invite FROM organisation_invites
+  WHERE invite_id = p_invite_id AND email = lower(auth.jwt() ->> 'email') AND accepted_at IS NULL
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invite % not found', p_invite_id USING ERRCODE = 'PT404';
+  END IF;
+
+  -- The user's calls move with them; the old organisation's managers lose access
+  UPDATE calls SET team_id = v_invite.team_id
+  WHERE owner_id = auth.uid()
+    AND team_id IN (SELECT team_id FROM teams WHERE organisation_id <> v_invite.organisation_id);
+  UPDATE upcoming_calls SET team_id = v_invite.team_id
+  WHERE owner_id = auth.uid()
+    AND team_id IN (SELECT team_id FROM teams WHERE organisation_id <> v_invite.organisation_id);
+
+  DELETE FROM team_members
+  WHERE user_id = auth.uid()
+    AND team_id IN (SELECT team_id FROM teams WHERE organisation_id <> v_invite.organisation_id);
+  DELETE FROM organisation_members WHERE user_id = auth.uid() AND organisation_id <> v_invite.organisation_id;
+
+  INSERT INTO organisation_members (organisation_id, user_id, role)
+  VALUES (v_invite.organisation_id, auth.uid(), v_invite.role)
+  ON CONFLICT (organisation_id, user_id) DO UPDATE SET role = EXCLUDED.role;
+
+  IF v_invite.team_id IS NOT NULL THEN
+    INSERT INTO team_members (team_id, user_id, role)
+    VALUES (v_invite.team_id, auth.uid(), v_invite.team_role)
+    ON CONFLICT (team_id, user_id) DO UPDATE SET role = EXCLUDED.role;
+  END IF;
+
+  UPDATE organisation_invites SET accepted_at = NOW() WHERE invite_id = p_invite_id;
+  UPDATE user_profiles SET organisation = (SELECT name FROM organisations WHERE organisation_id = v_invite.organisation_id)
+  WHERE uid = auth.uid();
+  RETURN v_invite.organisation_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION setup_organisation(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION accept_organisation_invite(UUID) TO authenticated;
+
+-- Backfill: an organisation of their own for every profile with an organisation text
+INSERT INTO organisations (name, qualification_framework, created_by)
+SELECT trim(profiles.organisation), COALESCE(settings.qualification_framework, 'disco'), profiles.uid
+FROM user_profiles AS profiles
+LEFT JOIN organisation_settings AS settings ON settings.organisation = profiles.organisation
+WHERE trim(profiles.organisation) <> '';
+
+INSERT INTO organisation_members (organisation_id, user_id, role)
+SELECT organisation_id, created_by, 'admin' FROM organisations;
+
+INSERT INTO teams (organisation_id, name)
+SELECT organisation_id, 'General' FROM organisations;
+
+INSERT INTO team_members (team_id, user_id, role)
+SELECT teams.team_id, organisations.created_by, 'manager'
+FROM teams
+JOIN organisations ON organisations.organisation_id = teams.organisation_id;
+
+-- Calls belong to their owner's team
+UPDATE calls SET team_id = team_members.team_id
+FROM team_members
+WHERE team_members.user_id = calls.owner_id;
+
+UPDATE upcoming_calls SET team_id = team_members.team_id
+FROM team_members
+WHERE team_members.user_id = upcoming_calls.owner_id;
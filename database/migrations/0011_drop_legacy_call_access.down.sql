@@ -0,0 +1,90 @@
+-- Migration: Drop the superseded access models (down)
+-- Puts back the columns, tables, policies and triggers, but not what they held: call_members and
+-- organisations keep the copies made by 0008 and 0010, and nothing is copied back. Reverting 0010
+-- and 0008 as well drops those copies.
+
+ALTER TABLE calls
+  ADD COLUMN IF NOT EXISTS members_emails JSONB NOT NULL DEFAULT '[]',
+  ADD COLUMN IF NOT EXISTS members_uids JSONB NOT NULL DEFAULT '[]';
+
+CREATE INDEX IF NOT EXISTS idx_calls_members_emails_gin ON calls USING GIN (members_emails);
+CREATE INDEX IF NOT EXISTS idx_calls_members_uids_gin ON calls USING GIN (members_uids);
+
+CREATE OR REPLACE FUNCTION ensure_calls_documents_not_null()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.documents IS NULL THEN NEW.documents := '[]'::jsonb; END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION ensure_calls_members_and_labels_not_null()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.labels IS NULL THEN NEW.labels := '[]'::jsonb; END IF;
+  IF NEW.members_emails IS NULL THEN NEW.members_emails := '[]'::jsonb; END IF;
+  IF NEW.members_uids IS NULL THEN NEW.members_uids := '[]'::jsonb; END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trg_calls_documents_not_null
+  BEFORE INSERT OR UPDATE ON calls
+  FOR EACH ROW EXECUTE FUNCTION ensure_calls_documents_not_null();
+
+CREATE TRIGGER trg_calls_members_and_labels_not_null
+  BEFORE INSERT OR UPDATE ON calls
+  FOR EACH ROW EXECUTE FUNCTION ensure_calls_members_and_labels_not_null();
+
+CREATE TABLE call_permissions (
+  call_id UUID PRIMARY KEY REFERENCES calls(call_id) ON DELETE CASCADE,
+  owner UUID NOT NULL REFERENCES user_profiles(uid) ON DELETE CASCADE,
+  admin UUID NULL REFERENCES user_profiles(uid) ON DELETE SET NULL,
+  editor UUID NULL REFERENCES user_profiles(uid) ON DELETE SET NULL,
+  viewer UUID NULL REFERENCES user_profiles(uid) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TRIGGER trg_call_permissions_updated_at
+  BEFORE UPDATE ON call_permissions
+  FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+
+ALTER TABLE call_permissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "select_call_permissions_owner"
+ON call_permissions FOR SELECT TO authenticated
+USING (auth.uid() = owner);
+
+CREATE POLICY "insert_call_permissions_owner"
+ON call_permissions FOR INSERT TO authenticated
+WITH CHECK (auth.uid() = owner);
+
+CREATE POLICY "update_call_permissions_owner"
+ON call_permissions FOR UPDATE TO authenticated
+USING (auth.uid() = owner)
+WITH CHECK (auth.uid() = owner);
+
+CREATE TABLE organisation_settings (
+  organisation TEXT PRIMARY KEY,
+  qualification_framework TEXT NOT NULL DEFAULT 'disco'
+    CHECK (qualification_framework IN ('disco', 'meddicc', 'bant', 'spiced')),
+  updated_by UUID REFERENCES user_profiles(uid) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE organisation_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "select_own_organisation_settings"
+ON organisation_settings FOR SELECT TO authenticated
+USING (organisation IN (SELECT organisation FROM user_profiles WHERE uid = auth.uid()));
+
+CREATE POLICY "insert_own_organisation_settings"
+ON organisation_settings FOR INSERT TO authenticated
+WITH CHECK (organisation IN (SELECT organisation FROM user_profiles WHERE uid = auth.uid()));
+
+CREATE POLICY "update_own_organisation_settings"
+ON organisation_settings FOR UPDATE TO authenticated
+USING (organisation IN (SELECT organisation FROM user_profiles WHERE uid = auth.uid()))
+WITH CHECK (organisation IN (SELECT organisation FROM user_profiles WHERE uid = auth.uid()));
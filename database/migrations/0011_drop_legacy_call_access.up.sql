@@ -0,0 +1,17 @@
+-- Migration: Drop the superseded access models
+-- call_permissions and calls.members_emails / members_uids were copied into call_members by
+-- 0008_add_call_members, and organisation_settings into organisations by
+-- 0010_add_organisations_and_teams; nothing reads them since. Also drops the triggers that filled
+-- NULL documents, labels and members with '[]': the columns are NOT NULL with defaults.
+
+DROP TRIGGER IF EXISTS trg_calls_members_and_labels_not_null ON calls;
+DROP TRIGGER IF EXISTS trg_calls_documents_not_null ON calls;
+DROP FUNCTION IF EXISTS ensure_calls_members_and_labels_not_null();
+DROP FUNCTION IF EXISTS ensure_calls_documents_not_null();
+
+ALTER TABLE calls
+  DROP COLUMN IF EXISTS members_emails,
+  DROP COLUMN IF EXISTS members_uids;
+
+DROP TABLE IF EXISTS call_permissions;
+DROP TABLE IF EXISTS organisation_settings;
@@ -0,0 +1,4 @@
+-- Migration: Restrict what members may change on a call (down)
+
+DROP TRIGGER IF EXISTS trg_calls_protect_ownership ON calls;
+DROP FUNCTION IF EXISTS protect_call_ownership();
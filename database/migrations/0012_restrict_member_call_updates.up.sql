@@ -0,0 +1,31 @@
+-- Migration: Restrict what members may change on a call
+-- update_member_calls lets admins and editors update the calls row, which RLS cannot narrow to
+-- columns. They may change the call's content, but only the owner may change who owns it, which
+-- team sees it and its status. Others fail with PT403. Writes without a signed-in user (the
+-- service role, migrations) are not checked.
+
+CREATE FUNCTION protect_call_ownership()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND OLD.owner_id IS DISTINCT FROM auth.uid()
+    AND (
+      NEW.call_id IS DISTINCT FROM OLD.call_id
+      OR NEW.owner_id IS DISTINCT FROM OLD.owner_id
+      OR NEW.team_id IS DISTINCT FROM OLD.team_id
+      OR NEW.status IS DISTINCT FROM OLD.status
+    )
+  THEN
+    RAISE EXCEPTION 'Only the owner may change the owner, team or status of call %', OLD.call_id
+      USING ERRCODE = 'PT403';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_calls_protect_ownership
+  BEFORE UPDATE ON calls
+  FOR EACH ROW EXECUTE FUNCTION protect_call_ownership();
@@ -1,49 +0,0 @@
--- Create user_profiles table
-CREATE TABLE user_profiles (
-  uid UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
-  username TEXT NOT NULL UNIQUE,
-  full_name TEXT NOT NULL,
-  date_joined TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-  email TEXT NOT NULL,
-  organisation TEXT NOT NULL,
-  purpose TEXT NOT NULL,
-  outlook_connected BOOLEAN DEFAULT FALSE,
-  gmail_connected BOOLEAN DEFAULT FALSE,
-  calls_taken INTEGER DEFAULT 0,
-  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
-);
-
--- Enable Row Level Security
-ALTER TABLE user_profiles ENABLE ROW LEVEL SECURITY;
-
--- Create RLS policies for user_profiles
-CREATE POLICY "Users can view own profile" 
-ON user_profiles 
-FOR SELECT 
-USING (auth.uid() = uid);
-
-CREATE POLICY "Users can insert own profile" 
-ON user_profiles 
-FOR INSERT 
-WITH CHECK (auth.uid() = uid);
-
-CREATE POLICY "Users can update own profile" 
-ON user_profiles 
-FOR UPDATE 
-USING (auth.uid() = uid);
-
--- Create updated_at trigger function
-CREATE OR REPLACE FUNCTION update_updated_at_column()
-RETURNS TRIGGER AS $$
-BEGIN
-  NEW.updated_at = NOW();
-  RETURN NEW;
-END;
-$$ language 'plpgsql';
-
--- Create trigger for user_profiles
-CREATE TRIGGER update_user_profiles_updated_at 
-  BEFORE UPDATE ON user_profiles 
-  FOR EACH ROW 
-  EXECUTE FUNCTION update_updated_at_column();
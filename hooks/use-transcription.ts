@@ -1,7 +1,24 @@
-import { useState, useRef, useCallback, useEffect } from 'react';
+import { useState, useRef, useCallback, useEffect, useMemo } from 'react';
 import { CallManager } from '@/lib/call-management';
 import { AudioUploadService } from '@/lib/audio-upload';
-import { TranscriptEntry, Call, supabase } from '@/lib/supabase';
+import { ChunkedRecordingUpload, RecordingTrack } from '@/lib/recording-upload';
+import { TranscriptEntry, TranscriptWord, Call, supabase } from '@/lib/supabase';
+import { transcriptionWsUrl } from '@/lib/service-config';
+import { AiBackendClient, AiBackendError, AiChatRequest, AnalyzeDiscoRequest, QuickAnalysisRequest, isAiBackendAbort } from '@/lib/ai-backend';
+import { DiscoData, discoToBackendFields, insightsFromAnalysis, mergeDiscoData } from '@/lib/disco';
+import { FrameworkId, getFramework } from '@/lib/frameworks';
+import {
+  AudioChannel,
+  AudioDataMessage,
+  StartTranscriptionMessage,
+  ResumeSessionMessage,
+  RefreshTokenMessage,
+  AckMessage,
+  TranscriptBackfillMessage,
+  TranscriptionAuthErrorCode,
+  TRANSCRIPTION_AUTH_ERROR_MESSAGES,
+  isAuthCloseCode
+} from '@/lib/transcription-protocol';
 
 export interface TranscriptionMessage {
   id: string;
@@ -10,14 +27,16 @@ export interface TranscriptionMessage {
   timestamp: Date;
   isFinal: boolean;
   isAccumulating?: boolean;
+  startTime?: number; // seconds from the start of the recording
+  endTime?: number;
+  words?: TranscriptWord[];
 }
 
-export interface DiscoData {
-  Decision_Criteria?: string | string[];
-  Impact?: string | string[];
-  Situation?: string | string[];
-  Challenges?: string | string[];
-  Objectives?: string | string[];
+export interface MessageTiming {
+  entryId?: string; // server journal id, so replayed entries can be matched up
+  startTime?: number;
+  endTime?: number;
+  words?: TranscriptWord[];
 }
 
 export interface TranscriptionState {
@@ -38,6 +57,30 @@ export interface ScreenSource {
   thumbnail: string;
 }
 
+// Live DISCO runs every 10 seconds; a stuck request must not hold up the next batch for long
+const DISCO_REQUEST_TIMEOUT_MS = 30000;
+
+// Marks a Genie answer the user cancelled or a newer request replaced
+const GENIE_CANCELLED_NOTE = '\n\n(Cancelled)';
+
+// MediaRecorder chunk length; each chunk becomes one uploaded recording part
+const RECORDING_TIMESLICE_MS = 5000;
+
+// Web Audio float samples -> base64 linear16 PCM for audio_data frames
+function encodePcm16(samples: Float32Array): string {
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    pcm[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+  }
+  const bytes = new Uint8Array(pcm.buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
 export const useTranscription = () => {
   // Recording state
   const [isRecording, setIsRecording] = useState(false);
@@ -82,16 +125,23 @@ export const useTranscription = () => {
   const recordingTimerRef = useRef<NodeJS.Timeout | null>(null);
   const systemBurstTimerRef = useRef<NodeJS.Timeout | null>(null);
   const discoAnalysisTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const discoRequestRef = useRef<AbortController | null>(null);
+  // Final messages already sent for DISCO analysis; each run only sends the rest
+  const discoAnalyzedIdsRef = useRef<Set<string>>(new Set());
+  // The interval outlives renders, so it calls the latest analyzeDisco through this
+  const analyzeDiscoRef = useRef<() => Promise<void>>(async () => {});
+  // The Genie answer being streamed; a new question or analysis cancels it
+  const genieRequestRef = useRef<AbortController | null>(null);
   
-  // Audio recording state
-  const [systemAudioChunks, setSystemAudioChunks] = useState<Blob[]>([]);
-  const [micAudioChunks, setMicAudioChunks] = useState<Blob[]>([]);
+  // Recordings stream to storage while the call runs, one upload per track
+  const recordingUploadsRef = useRef<Partial<Record<RecordingTrack, ChunkedRecordingUpload>>>({});
   
   // Database integration state
   const [currentCall, setCurrentCall] = useState<any>(null);
+  // Fields the live panel shows and analysis extracts; calls from before frameworks use DISCO
+  const qualificationFramework = useMemo(() => getFramework(currentCall?.qualification_framework), [currentCall]);
   const [transcriptEntries, setTranscriptEntries] = useState<TranscriptEntry[]>([]);
   const [lastUploadedAudioPath, setLastUploadedAudioPath] = useState<string | null>(null);
-  const [lastRecordingBlob, setLastRecordingBlob] = useState<Blob | null>(null);
   
   // WebSocket connection management
   const unifiedWsReconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
@@ -99,6 +149,14 @@ export const useTranscription = () => {
   const maxReconnectAttempts = 5;
   const reconnectDelay = 2000; // 2 seconds
   const isCallActiveRef = useRef<boolean>(false);
+  const recordingStartedAtRef = useRef<number | null>(null);
+  const currentCallIdRef = useRef<string | null>(null); // read by WebSocket handlers, which outlive state closures
+  const lastEntryIdRef = useRef<string | null>(null); // last journaled entry received, sent on reconnect to get a backfill
+  const transcriptionSessionIdRef = useRef<string | null>(null); // server session to resume after a drop
+  const lastSeqRef = useRef(0); // highest sequence number received in that session
+  const transcriptionReadyRef = useRef(false); // server accepted start/resume, so audio frames may be sent
+  // Streams of the current recording; every (re)connect sends both over the one socket
+  const transcriptionStreamsRef = useRef<{ system?: MediaStream; mic?: MediaStream; botId?: string }>({});
 
   // Start call with database integration
   const startCall = useCallback(async (callData: {
@@ -107,10 +165,11 @@ export const useTranscription = () => {
     meetingAgenda: string[]
     meetingDescription?: string
     attendeeEmails: string[]
-    transcriptAdminEmail: string
     callLink?: string
     assistantId?: string
     threadId?: string
+    framework?: FrameworkId
+    teamId?: string
   }, userId: string, options?: { sourceUpcomingCallId?: string }) => {
     try {
       // Always load screen sources fresh before starting call
@@ -158,7 +217,7 @@ export const useTranscription = () => {
         try {
           const { data, error } = await supabase
             .from('upcoming_calls')
-            .select('documents, call_link, bot_id, meeting_id')
+            .select('documents, call_link, bot_id, meeting_id, qualification_framework, team_id')
             .eq('call_id', options.sourceUpcomingCallId)
             .single()
           if (!error && data?.documents) {
@@ -169,6 +228,14 @@ export const useTranscription = () => {
           if (!callData.callLink && data?.call_link) {
             callData.callLink = data.call_link
           }
+          // Keep the framework chosen when the call was scheduled
+          if (!callData.framework && data?.qualification_framework) {
+            callData.framework = data.qualification_framework
+          }
+          // ...and the team it was scheduled for
+          if (!callData.teamId && data?.team_id) {
+            callData.teamId = data.team_id
+          }
           // Transfer bot/meeting IDs from upcoming call to creation data
           ;(callData as any).botId = (data as any)?.bot_id ?? '908e2224-097f-4031-8f59-a2409554d973'
           ;(callData as any).meetingId = (data as any)?.meeting_id ?? ''
@@ -176,15 +243,16 @@ export const useTranscription = () => {
       }
 
       // Create call in database - use specific ID if joining from upcoming call
-      let newCall: Call | null
+      let newCall: Call
       if (upcomingCallId) {
         console.log('🔄 Creating call with upcoming call ID:', upcomingCallId);
         // Use the upcoming call's ID to create the new call
-        newCall = await CallManager.createCallWithId(callData, userId, upcomingCallId);
-        if (!newCall) {
-          console.error('❌ Failed to create call with upcoming call ID');
+        const created = await CallManager.createCallWithId(callData, userId, upcomingCallId);
+        if (!created.ok) {
+          console.error('❌ Failed to create call with upcoming call ID:', created.error.kind, created.error.message);
           return false;
         }
+        newCall = created.value;
         console.log('✅ Successfully created/found call with upcoming call ID:', upcomingCallId);
         
         // Delete the upcoming call since we've converted it to an active call
@@ -207,21 +275,18 @@ export const useTranscription = () => {
         // Ensure default values for bot/meeting ids when starting fresh
         ;(callData as any).botId = (callData as any).botId ?? '908e2224-097f-4031-8f59-a2409554d973'
         ;(callData as any).meetingId = (callData as any).meetingId ?? ''
-        newCall = await CallManager.createCall(callData, userId);
-        if (!newCall) {
-          console.error('Failed to create call in database');
+        const created = await CallManager.createCall(callData, userId);
+        if (!created.ok) {
+          console.error('Failed to create call in database:', created.error.kind, created.error.message);
           return false;
         }
+        newCall = created.value;
       }
       // If we have seed documents, persist them on the new call
       if (seedDocuments.length > 0) {
-        try {
-          await supabase
-            .from('calls')
-            .update({ documents: seedDocuments })
-            .eq('call_id', newCall.call_id)
-        } catch (e) {
-          console.warn('Failed to seed documents onto new call', e)
+        const seeded = await CallManager.updateCallDocuments(newCall.call_id, seedDocuments)
+        if (!seeded.ok) {
+          console.warn('Failed to seed documents onto new call:', seeded.error.message)
         }
       }
 
@@ -235,6 +300,10 @@ export const useTranscription = () => {
       });
 
       setCurrentCall(newCall);
+      currentCallIdRef.current = newCall.call_id;
+      lastEntryIdRef.current = null;
+      transcriptionSessionIdRef.current = null;
+      lastSeqRef.current = 0;
       setTranscriptEntries([]);
       
       // Start recording and transcription with the selected source
@@ -257,48 +326,35 @@ export const useTranscription = () => {
       await stopUnifiedRecording();
       console.log('🎙️ Recording stopped');
 
-      // Allow MediaRecorder "onstop" handlers to flush final chunks before we read them
+      // Allow MediaRecorder "onstop" handlers to hand over their final chunks
       await new Promise(resolve => setTimeout(resolve, 600));
       console.log('⏱️ Flush wait complete');
-      
-      // Upload audio files
-      console.log('🎛️ Chunks status:', { micChunks: micAudioChunks.length, systemChunks: systemAudioChunks.length });
-      if (systemAudioChunks.length > 0 || micAudioChunks.length > 0) {
-        // Ensure we have an active session for Storage RLS
-        const { data: { session } } = await supabase.auth.getSession();
-        if (!session?.user) {
-          console.error('No active auth session; cannot upload recording.');
-          return false;
-        }
 
-        const combinedBlob = await createCombinedAudioFile();
-        if (combinedBlob) {
-          console.log('🧩 Combined blob ready:', { size: combinedBlob.size, type: combinedBlob.type });
-          setLastRecordingBlob(combinedBlob);
-          console.log('⬆️ Uploading recording to storage...');
-          const audioPath = await AudioUploadService.uploadAudioFile(
-            combinedBlob, 
-            currentCall.call_id, 
-            session.user.id
-          );
-          
-          if (audioPath) {
-            setLastUploadedAudioPath(audioPath);
-            await CallManager.updateCallRecording(currentCall.call_id, audioPath);
-            const signedUrl = await AudioUploadService.getSignedAudioUrl(audioPath, 60 * 60);
-            console.log('✅ Call recording uploaded:', {
-              bucket: 'call-recordings',
-              path: audioPath,
-              signedUrl
-            });
-          } else {
-            console.error('❌ Upload returned null path (see previous error logs).');
-          }
-        } else {
-          console.warn('⚠️ No combined blob produced from chunks.');
+      // Upload the remaining parts and stitch each track into its final object
+      const uploads = recordingUploadsRef.current;
+      recordingUploadsRef.current = {};
+      const [micPath, systemPath] = await Promise.all([
+        uploads.mic?.hasParts ? uploads.mic.finalize() : Promise.resolve(null),
+        uploads.system?.hasParts ? uploads.system.finalize() : Promise.resolve(null),
+      ]);
+
+      // Prefer the mic track if available, else system
+      const audioPath = micPath || systemPath;
+      if (audioPath) {
+        setLastUploadedAudioPath(audioPath);
+        const saved = await CallManager.updateCallRecording(currentCall.call_id, audioPath);
+        if (!saved.ok) {
+          console.error('Failed to save call recording path:', saved.error.message);
         }
+        console.log('✅ Call recording finalized:', { bucket: 'call-recordings', path: audioPath });
+        // Mix both tracks into the normalized listening copy; voice_recording_path moves to it when done
+        const sourcePaths = [micPath, systemPath].filter((path): path is string => !!path);
+        void AudioUploadService.processCallRecording(currentCall.call_id, sourcePaths);
+      } else if (uploads.mic || uploads.system) {
+        // Unfinished parts stay in their manifest and are recovered on the next dashboard load
+        console.error('❌ Recording could not be finalized; it will be retried later.');
       } else {
-        console.warn('⚠️ No audio chunks captured; skipping upload.');
+        console.warn('⚠️ No recording was captured; skipping upload.');
       }
 
       // Convert allMessages to transcript entries (use live transcription data)
@@ -317,25 +373,24 @@ export const useTranscription = () => {
         `Meeting Summary:\n\nKey Points:\n${transcriptText.slice(0, 500)}${transcriptText.length > 500 ? '...' : ''}` : 
         'No transcript available';
 
-      // 1. Format transcript for JSONB storage (speaker-labeled, no timestamps, in order)
-      const formattedTranscript = finalMessages.map((msg, index) => {
+      // 1. Format transcript for JSONB storage (speaker-labeled, in order, with offsets into the recording)
+      const formattedTranscript: TranscriptEntry[] = finalMessages.map((msg, index) => {
         return {
+          id: msg.id,
           order: index + 1,
+          timestamp: msg.timestamp.toISOString(),
           speaker: msg.username,
-          text: msg.text
+          text: msg.text,
+          start_time: msg.startTime,
+          end_time: msg.endTime,
+          words: msg.words
         };
       });
       
       console.log('\ud83d\udcc4 Formatted transcript for storage:', formattedTranscript.length, 'entries');
 
-      // 2. Format DISCO data for JSONB storage
-      const formattedDiscoData = {
-        decision_criteria: (discoData as any).Decision_Criteria || (discoData as any).decision_criteria || '',
-        impact: (discoData as any).Impact || (discoData as any).impact || '',
-        situation: (discoData as any).Situation || (discoData as any).situation || '',
-        challenges: (discoData as any).Challenges || (discoData as any).challenges || '',
-        objectives: (discoData as any).Objectives || (discoData as any).objectives || ''
-      };
+      // 2. DISCO data is stored as is (lib/disco.ts), insights with their sources and scores
+      const formattedDiscoData = discoData;
       
       console.log('\ud83d\udcc8 Formatted DISCO data for storage:', formattedDiscoData);
 
@@ -476,133 +531,19 @@ export const useTranscription = () => {
       console.log('\ud83d\udcdd Summary being sent:', aiSummary);
       console.log('=============================================');
       
-      await CallManager.updateCallTranscript(currentCall.call_id, formattedTranscript);
-      await CallManager.updateCallDisco(currentCall.call_id, formattedDiscoData);
-      await CallManager.updateCallGenie(currentCall.call_id, splitGenieContent);
-      await CallManager.updateCallSummary(currentCall.call_id, aiSummary);
-      await CallManager.completeCall(currentCall.call_id, Math.floor(recordingTime / 60));
-      
-      // Fire post-call steps API
-      try {
-        console.log('\ud83d\ude80 ===== FIRING POST-CALL STEPS API =====');
-        
-        // Prepare conversation transcript
-        const conversationText = formattedTranscript.map(entry => `${entry.speaker}: ${entry.text}`).join('\n');
-        
-        // Prepare request body
-        const postCallRequestBody: any = {
-          conversation: conversationText,
-          discoAnalysis: formattedDiscoData,
-          genieSupport: splitGenieContent
-        };
-        
-        // Only include assistantId and threadId if they exist
-        if (currentCall?.assistant_id) {
-          postCallRequestBody.assistantId = currentCall.assistant_id;
-          console.log('\u2705 Including assistant ID:', currentCall.assistant_id);
-        }
-        
-        if (currentCall?.thread_id) {
-          postCallRequestBody.threadId = currentCall.thread_id;
-          console.log('\u2705 Including thread ID:', currentCall.thread_id);
-        }
-        
-        console.log('\ud83d\udce4 Post-call request data:', JSON.stringify(postCallRequestBody, null, 2));
-        
-        // Make API call
-        const response = await fetch('http://localhost:8000/api/post-call-steps', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(postCallRequestBody),
-        });
-        
-        console.log('\ud83d\udce1 Post-call API response status:', response.status);
-        
-        if (!response.ok) {
-          const errorText = await response.text();
-          throw new Error(`HTTP error! status: ${response.status}, body: ${errorText}`);
-        }
-        
-        const postCallResult = await response.json();
-        console.log('\ud83d\udce5 Post-call API response:', JSON.stringify(postCallResult, null, 2));
-        
-        // Store the response in post_call_actions column
-        await CallManager.updateCallActions(currentCall.call_id, postCallResult);
-        console.log('\u2705 Post-call actions saved to database');
-        
-      } catch (error) {
-        console.error('\u274c Error in post-call steps API:', error);
-        // Don't fail the call end process if post-call API fails
-      }
-      
-      // Fire AI summary API call
-      try {
-        console.log('\ud83e\udd16 ===== FIRING AI SUMMARY API =====');
-        
-        // Prepare conversation transcript for AI summary
-        const aiSummaryConversationText = formattedTranscript.map(entry => `${entry.speaker}: ${entry.text}`).join('\n');
-        
-        // Use the same request body as post-call steps
-        const aiSummaryRequestBody: any = {
-          conversation: aiSummaryConversationText,
-          discoAnalysis: formattedDiscoData,
-          genieSupport: splitGenieContent
-        };
-        
-        // Only include assistantId and threadId if they exist
-        if (currentCall?.assistant_id) {
-          aiSummaryRequestBody.assistantId = currentCall.assistant_id;
-          console.log('\u2705 Including assistant ID for AI summary:', currentCall.assistant_id);
-        }
-        
-        if (currentCall?.thread_id) {
-          aiSummaryRequestBody.threadId = currentCall.thread_id;
-          console.log('\u2705 Including thread ID for AI summary:', currentCall.thread_id);
-        }
-        
-        console.log('\ud83d\udce4 AI Summary request body:', JSON.stringify(aiSummaryRequestBody, null, 2));
-        
-        // Make API call
-        const aiSummaryResponse = await fetch('http://localhost:8000/api/ai-summary', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(aiSummaryRequestBody),
-        });
-        
-        console.log('\ud83d\udce1 AI Summary API response status:', aiSummaryResponse.status);
-        
-        if (!aiSummaryResponse.ok) {
-          const errorText = await aiSummaryResponse.text();
-          throw new Error(`HTTP error! status: ${aiSummaryResponse.status}, body: ${errorText}`);
-        }
-        
-        const aiSummaryResult = await aiSummaryResponse.json();
-        console.log('📄 AI Summary API response:', JSON.stringify(aiSummaryResult, null, 2));
-
-        // Debug the response structure
-        console.log('🔍 Response keys:', Object.keys(aiSummaryResult || {}));
-        console.log('🔍 Has summary field:', !!aiSummaryResult?.summary);
-        console.log('🔍 Has response field:', !!aiSummaryResult?.response);
-        console.log('🔍 Summary value:', aiSummaryResult?.summary);
-        console.log('🔍 Response value:', aiSummaryResult?.response);
-
-        // Store the AI summary response in ai_summary column (as text)
-        const summaryText = aiSummaryResult.summary.overview || aiSummaryResult.response || JSON.stringify(aiSummaryResult);
-        console.log('📝 Final summary text:', summaryText);
-        console.log('📝 Summary text type:', typeof summaryText);
-        console.log('📝 Summary text length:', summaryText?.length || 0);
-
-        await CallManager.updateCallSummary(currentCall.call_id, summaryText);
-        console.log('\u2705 AI Summary saved to database:', summaryText.substring(0, 100) + '...');
-        
-      } catch (error) {
-        console.error('\u274c Error in AI summary API:', error);
-        // Don't fail the call end process if AI summary API fails
-      }
+      // Entries the server journaled are already stored under the same ids; only ones it missed are added
+      const appended = await CallManager.appendTranscriptEntries(currentCall.call_id, formattedTranscript);
+      if (!appended.ok) console.error('❌ Failed to save transcript:', appended.error.kind, appended.error.message);
+      const saves = [
+        await CallManager.updateCallDisco(currentCall.call_id, formattedDiscoData),
+        await CallManager.updateCallGenie(currentCall.call_id, splitGenieContent),
+        await CallManager.updateCallSummary(currentCall.call_id, aiSummary),
+        // Also queues the post-call steps and AI summary; the transcription server runs them with retries
+        await CallManager.completeCall(currentCall.call_id, Math.floor(recordingTime / 60)),
+      ];
+      saves.forEach((result) => {
+        if (!result.ok) console.error('❌ Failed to save call data:', result.error.kind, result.error.message);
+      });
       
       // ===== COMPREHENSIVE CALL END LOGGING =====
       console.log('🎯 ===== CALL ENDED - COMPREHENSIVE LOGGING =====');
@@ -666,13 +607,17 @@ export const useTranscription = () => {
       
       // Clear state
       setCurrentCall(null);
+      currentCallIdRef.current = null;
+      lastEntryIdRef.current = null;
+      transcriptionSessionIdRef.current = null;
+      lastSeqRef.current = 0;
       setTranscriptEntries([]);
       return true;
     } catch (error) {
       console.error('Error stopping call:', error);
       return false;
     }
-  }, [currentCall, transcriptEntries, recordingTime, discoData, quickAnalysisData, systemAudioChunks, micAudioChunks]);
+  }, [currentCall, transcriptEntries, recordingTime, discoData, quickAnalysisData]);
 
   // Add transcript entry to database
   const addTranscriptEntry = useCallback(async (entry: Omit<TranscriptEntry, 'id' | 'edited_at'>) => {
@@ -684,9 +629,11 @@ export const useTranscription = () => {
       edited_at: new Date().toISOString()
     };
 
-    const success = await CallManager.addTranscriptEntry(currentCall.call_id, transcriptEntry);
-    if (success) {
-      setTranscriptEntries(prev => [...prev, transcriptEntry]);
+    const added = await CallManager.addTranscriptEntry(currentCall.call_id, transcriptEntry);
+    if (added.ok) {
+      setTranscriptEntries(prev => [...prev, added.value]);
+    } else {
+      console.error('Failed to add transcript entry:', added.error.kind, added.error.message);
     }
   }, [currentCall]);
 
@@ -699,7 +646,7 @@ export const useTranscription = () => {
     return true;
   }, []);
 
-  const reconnectWebSocket = useCallback(async (systemStream?: MediaStream, micStream?: MediaStream) => {
+  const reconnectWebSocket = useCallback(async () => {
     if (!isCallActiveRef.current) {
       console.log('Call not active, skipping unified WebSocket reconnection');
       return;
@@ -729,13 +676,14 @@ export const useTranscription = () => {
     // Wait before reconnecting
     unifiedWsReconnectTimeoutRef.current = setTimeout(async () => {
       try {
-        await startUnifiedTranscription(systemStream, micStream, currentCall?.bot_id);
+        const { system, mic, botId } = transcriptionStreamsRef.current;
+        await startUnifiedTranscription(system, mic, botId);
         console.log('Unified WebSocket reconnected successfully');
         unifiedWsReconnectAttemptsRef.current = 0; // Reset attempts on successful reconnection
       } catch (error) {
         console.error('Failed to reconnect unified WebSocket:', error);
         // Schedule another reconnection attempt
-        reconnectWebSocket(systemStream, micStream);
+        reconnectWebSocket();
       }
     }, reconnectDelay);
   }, []);
@@ -793,159 +741,100 @@ export const useTranscription = () => {
     }
   }, []);
 
-  // Build a blob to upload (no auto-download). Prefer mic track if available, else system.
-  const createCombinedAudioFile = useCallback(async (): Promise<Blob | null> => {
-    try {
-      if (micAudioChunks.length > 0) {
-        return new Blob(micAudioChunks, { type: 'audio/webm' });
-      }
-      if (systemAudioChunks.length > 0) {
-        return new Blob(systemAudioChunks, { type: 'audio/webm' });
-      }
-      console.log('⚠️ No audio chunks available to build upload blob');
-      return null;
-    } catch (error) {
-      console.error('❌ Error creating uploadable audio blob:', error);
-      return null;
-    }
-  }, [micAudioChunks, systemAudioChunks]);
+  // DISCO Analysis: send the final messages not analyzed yet and merge the result into discoData
+  const analyzeDisco = useCallback(async () => {
+    // Messages that arrive meanwhile go with the next run
+    if (discoRequestRef.current) return;
 
-  // Provide a synchronous way to fetch the latest local recording blob
-  const getLocalRecordingBlob = useCallback((): Blob | null => {
-    try {
-      if (micAudioChunks.length > 0) {
-        return new Blob(micAudioChunks, { type: 'audio/webm' });
-      }
-      if (systemAudioChunks.length > 0) {
-        return new Blob(systemAudioChunks, { type: 'audio/webm' });
-      }
-      return null;
-    } catch (error) {
-      console.error('Error creating local recording blob:', error);
-      return null;
+    const newMessages = allMessages.filter(msg => msg.isFinal && msg.text.trim() && !discoAnalyzedIdsRef.current.has(msg.id));
+    if (newMessages.length === 0) {
+      console.log('⏭️ Skipping DISCO analysis - no new final messages');
+      return;
     }
-  }, [micAudioChunks, systemAudioChunks]);
 
-  // DISCO Analysis function
-  const analyzeDisco = useCallback(async (conversation: string) => {
+    const controller = new AbortController();
+    discoRequestRef.current = controller;
+    const batchIds = newMessages.map(msg => msg.id);
+
     try {
-      console.log('🚀 Starting DISCO analysis...');
-      console.log('📊 Current DISCO data:', discoData);
-      console.log('💬 Conversation to analyze:', conversation);
+      console.log(`🚀 Starting DISCO analysis of ${newMessages.length} new messages...`);
       console.log('🆔 Current call assistant ID:', currentCall?.assistant_id || 'No assistant ID');
       console.log('🧵 Current call thread ID:', currentCall?.thread_id || 'No thread ID');
       
       setIsAnalyzingDisco(true);
       setDiscoError('');
       
-      const requestBody: any = {
-        conversation,
+      // Each line carries its entry id so the bullets can cite it
+      const request: AnalyzeDiscoRequest = {
+        conversation: newMessages.map(msg => `[${msg.id}] ${msg.username}: ${msg.text}`).join('\n'),
         context: {
           type: 'live_transcription',
-          currentDISCO: discoData
+          mode: 'incremental',
+          framework: {
+            id: qualificationFramework.id,
+            name: qualificationFramework.name,
+            fields: qualificationFramework.fields.map(field => ({ name: field.backend_name, label: field.label, prompt: field.prompt }))
+          },
+          currentDISCO: discoToBackendFields(qualificationFramework, discoData),
+          entries: newMessages.map(msg => ({ id: msg.id, speaker: msg.username, text: msg.text }))
         }
       };
       
       // Only include assistantId and threadId if the current call has them
       if (currentCall?.assistant_id) {
-        requestBody.assistantId = currentCall.assistant_id;
+        request.assistantId = currentCall.assistant_id;
         console.log('✅ Using assistant ID for DISCO analysis:', currentCall.assistant_id);
         
         if (currentCall?.thread_id) {
-          requestBody.threadId = currentCall.thread_id;
+          request.threadId = currentCall.thread_id;
           console.log('✅ Using thread ID for DISCO analysis:', currentCall.thread_id);
-          console.log('🤖 Assistant + Thread powered DISCO analysis enabled');
-        } else {
-          console.log('🤖 Assistant-powered DISCO analysis enabled (no thread)');
         }
       } else {
         console.log('⚠️ No assistant ID found - using standard DISCO analysis');
       }
       
-      console.log('📤 ===== DISCO API REQUEST DEBUG =====');
-      console.log('🎯 URL:', 'http://localhost:8000/api/analyze-disco');
-      console.log('📄 Request Body:', JSON.stringify(requestBody, null, 2));
-      console.log('🔍 Request Body Size:', JSON.stringify(requestBody).length, 'characters');
-      console.log('🔍 Conversation Length:', requestBody.conversation?.length || 0, 'characters');
-      console.log('🔍 Has Assistant ID:', !!requestBody.assistantId);
-      console.log('🔍 Has Thread ID:', !!requestBody.threadId);
-      console.log('====================================');
-      
-      const response = await fetch('http://localhost:8000/api/analyze-disco', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestBody),
-      });
-      
-      console.log('📡 ===== DISCO API RESPONSE STATUS =====');
-      console.log('📡 Status Code:', response.status);
-      console.log('📡 Status Text:', response.statusText);
-      console.log('📡 Headers:', Object.fromEntries(response.headers.entries()));
-      console.log('=====================================');
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`HTTP error! status: ${response.status}, body: ${errorText}`);
-      }
-
-      const result = await response.json();
-      
-      console.log('📥 ===== DISCO API RESPONSE DEBUG =====');
-      console.log('📄 Raw Response:', JSON.stringify(result, null, 2));
-      console.log('🔍 Response Type:', typeof result);
-      console.log('🔍 Response Keys:', Object.keys(result || {}));
-      console.log('🔍 Success Field:', result?.success);
-      console.log('🔍 Data Field:', result?.data);
-      console.log('🔍 Message Field:', result?.message);
-      console.log('🔍 Error Field:', result?.error);
-      console.log('=======================================');
+      const result = await AiBackendClient.analyzeDisco(request, { signal: controller.signal, timeoutMs: DISCO_REQUEST_TIMEOUT_MS });
+      console.log('📥 DISCO analysis result:', JSON.stringify(result.disco, null, 2));
       
       // Store raw response for debugging
-      setRawDiscoResponse(result);
-      
-      // Check if response has DISCO framework fields directly or wrapped in success/data structure
-      const hasDiscoFields = result.Decision_Criteria || result.Impact || result.Situation || result.Challenges || result.Objectives;
-      const hasSuccessStructure = result.success && result.data;
-      
-      if (hasSuccessStructure) {
-        // Standard success/data structure
-        console.log('✅ DISCO analysis successful (success/data structure)');
-        console.log('📈 DISCO Data to be set:', JSON.stringify(result.data, null, 2));
-        setDiscoData(result.data);
-        console.log('✅ DISCO data state updated successfully');
-      } else if (hasDiscoFields) {
-        // Direct DISCO fields in response
-        console.log('✅ DISCO analysis successful (direct fields structure)');
-        console.log('📈 DISCO Data to be set:', JSON.stringify(result, null, 2));
-        setDiscoData(result);
-        console.log('✅ DISCO data state updated successfully');
-      } else {
-        // Neither structure found
-        console.log('❌ DISCO analysis failed or no recognizable data');
-        console.log('❌ Failure reason:', result.message || result.error || 'No DISCO fields found');
-        console.log('❌ Success flag:', result.success);
-        console.log('❌ Data present:', !!result.data);
-        console.log('❌ DISCO fields present:', hasDiscoFields);
-        setDiscoError(result.message || result.error || 'No DISCO fields found in API response');
-      }
+      setRawDiscoResponse(result.raw);
+      const entryOrder = allMessages.filter(msg => msg.isFinal).map(msg => msg.id);
+      setDiscoData(prev => mergeDiscoData(prev, insightsFromAnalysis(qualificationFramework, result.disco, batchIds), entryOrder));
+      batchIds.forEach(id => discoAnalyzedIdsRef.current.add(id));
     } catch (error) {
-      console.error('❌ ===== DISCO API ERROR DEBUG =====');
-      console.error('❌ Error Type:', typeof error);
-      console.error('❌ Error Name:', (error as Error)?.name);
-      console.error('❌ Error Message:', (error as Error)?.message);
-      console.error('❌ Error Stack:', (error as Error)?.stack);
-      console.error('❌ Full Error Object:', error);
-      console.error('==================================');
+      // The batch stays unanalyzed and is sent again with the next run
+      if (isAiBackendAbort(error)) return;
+      console.error('❌ DISCO analysis failed:', error);
+      setRawDiscoResponse((error as AiBackendError).details ?? null);
       setDiscoError(`DISCO analysis failed: ${(error as Error).message}`);
     } finally {
-      setIsAnalyzingDisco(false);
+      if (discoRequestRef.current === controller) {
+        discoRequestRef.current = null;
+        setIsAnalyzingDisco(false);
+      }
     }
-  }, [discoData, currentCall]); // Updated dependency array to include currentCall
+  }, [allMessages, discoData, currentCall, qualificationFramework]);
+
+  useEffect(() => {
+    analyzeDiscoRef.current = analyzeDisco;
+  }, [analyzeDisco]);
+
+  // Stop the Genie answer being streamed, keeping what has arrived
+  const cancelGenieResponse = useCallback(() => {
+    const controller = genieRequestRef.current;
+    if (!controller) return;
+    genieRequestRef.current = null;
+    controller.abort();
+    setQuickAnalysisData(prev => prev + `${GENIE_CANCELLED_NOTE}\n\n`);
+    setIsAnalyzingQuick(false);
+  }, []);
 
   // Quick Analysis function for Genie
   const analyzeQuick = useCallback(async (conversation: string) => {
+    cancelGenieResponse();
+    const controller = new AbortController();
+    genieRequestRef.current = controller;
+
     try {
       console.log('🚀 Starting Quick Analysis...');
       console.log('💬 Conversation for quick analysis:', conversation);
@@ -955,83 +844,51 @@ export const useTranscription = () => {
       setIsAnalyzingQuick(true);
       setQuickAnalysisError('');
       
-      const requestBody: any = {
-        ai_chat: false,
-        conversation: conversation
-      };
+      const request: QuickAnalysisRequest = { conversation };
       
       // Only include assistantId and threadId if the current call has them
       if (currentCall?.assistant_id) {
-        requestBody.assistantId = currentCall.assistant_id;
+        request.assistantId = currentCall.assistant_id;
         console.log('✅ Using assistant ID for Quick Analysis:', currentCall.assistant_id);
         
         if (currentCall?.thread_id) {
-          requestBody.threadId = currentCall.thread_id;
+          request.threadId = currentCall.thread_id;
           console.log('✅ Using thread ID for Quick Analysis:', currentCall.thread_id);
-          console.log('🤖 Assistant + Thread powered Quick Analysis enabled');
-        } else {
-          console.log('🤖 Assistant-powered Quick Analysis enabled (no thread)');
         }
       } else {
         console.log('⚠️ No assistant ID found - using standard Quick Analysis');
       }
       
-      console.log('📤 Sending request to Quick Analysis API:', {
-        url: 'http://localhost:8000/api/generate-quick-answer',
-        body: requestBody
-      });
-      
-      const response = await fetch('http://localhost:8000/api/generate-quick-answer', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestBody),
-      });
+      // Tokens are appended to the panel as they arrive
+      setQuickAnalysisData(prev => prev + `## Real-time Analysis\n\n`);
+      const analysis = await AiBackendClient.streamQuickAnalysis(
+        request,
+        delta => setQuickAnalysisData(prev => prev + delta),
+        { signal: controller.signal }
+      );
+      console.log('📥 Quick Analysis response:', analysis);
       
-      console.log('📡 Quick Analysis response status:', response.status);
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`HTTP error! status: ${response.status}, body: ${errorText}`);
-      }
-
-      const result = await response.json();
-      console.log('📥 Quick Analysis response:', result);
-      console.log('📥 Quick Analysis analysis text:', result.analysis); 
-      
-      if (result.analysis) {
-        setQuickAnalysisData(prev => {
-          const newContent = `## Real-time Analysis\n\n${result.analysis}\n\n`;
-          const updated = prev + newContent;
-          console.log('✅ Quick Analysis completed successfully');
-          console.log('✅ Quick Analysis data appended. New content:', result.analysis);
-          console.log('✅ Full Quick Analysis data:', updated);
-          return updated;
-        });
-      } else if (result.response) {
-        // Fallback to response field if analysis doesn't exist
-        setQuickAnalysisData(prev => {
-          const newContent = `## Real-time Analysis\n\n${result.response}\n\n`;
-          const updated = prev + newContent;
-          console.log('✅ Quick Analysis completed successfully (using response field)');
-          console.log('✅ Quick Analysis data appended. New content:', result.response);
-          console.log('✅ Full Quick Analysis data:', updated);
-          return updated;
-        });
-      } else {
-        throw new Error('No analysis or response data from Quick Analysis API');
-      }
+      setQuickAnalysisData(prev => prev + '\n\n');
     } catch (error) {
+      // cancelGenieResponse already closed the section
+      if (isAiBackendAbort(error)) return;
       console.error('❌ Error in Quick Analysis:', error);
+      setQuickAnalysisData(prev => prev + '\n\n');
       setQuickAnalysisError(`Quick Analysis failed: ${(error as Error).message}`);
     } finally {
-      setIsAnalyzingQuick(false);
+      if (genieRequestRef.current === controller) {
+        genieRequestRef.current = null;
+        setIsAnalyzingQuick(false);
+      }
     }
-  }, [currentCall]);
+  }, [currentCall, cancelGenieResponse]);
 
   // AI Chat function for Genie
   const sendAiChat = useCallback(async (userQuery: string, onResponse?: (response: string) => void) => {
+    cancelGenieResponse();
+    const controller = new AbortController();
+    genieRequestRef.current = controller;
+
     try {
       console.log('🤖 Starting AI Chat...');
       console.log('❓ User query:', userQuery);
@@ -1041,167 +898,75 @@ export const useTranscription = () => {
       setIsAnalyzingQuick(true);
       setQuickAnalysisError('');
       
-      const requestBody: any = {
-        ai_chat: true,
-        user_query: userQuery
-      };
+      const request: AiChatRequest = { user_query: userQuery };
       
       // Only include assistantId and threadId if the current call has them
       if (currentCall?.assistant_id) {
-        requestBody.assistantId = currentCall.assistant_id;
+        request.assistantId = currentCall.assistant_id;
         console.log('✅ Using assistant ID for AI Chat:', currentCall.assistant_id);
         
         if (currentCall?.thread_id) {
-          requestBody.threadId = currentCall.thread_id;
+          request.threadId = currentCall.thread_id;
           console.log('✅ Using thread ID for AI Chat:', currentCall.thread_id);
-          console.log('🤖 Assistant + Thread powered AI Chat enabled');
-        } else {
-          console.log('🤖 Assistant-powered AI Chat enabled (no thread)');
         }
       } else {
         console.log('⚠️ No assistant ID found - using standard AI Chat');
       }
       
-      console.log('📤 Sending request to AI Chat API:', {
-        url: 'http://localhost:8000/api/generate-quick-answer',
-        body: requestBody
-      });
+      // Tokens are appended to the panel as they arrive
+      setQuickAnalysisData(prev => prev + `## Your Question\n\n${userQuery}\n\n## AI Response\n\n`);
+      const answer = await AiBackendClient.streamAiChat(
+        request,
+        delta => setQuickAnalysisData(prev => prev + delta),
+        { signal: controller.signal }
+      );
+      console.log('📥 AI Chat response:', answer);
       
-      const response = await fetch('http://localhost:8000/api/generate-quick-answer', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestBody),
-      });
+      setQuickAnalysisData(prev => prev + '\n\n');
       
-      console.log('📡 AI Chat response status:', response.status);
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`HTTP error! status: ${response.status}, body: ${errorText}`);
-      }
-
-      const result = await response.json();
-      console.log('📥 AI Chat response:', result);
-      console.log('📥 AI Chat response text:', result.response);
-      
-      if (result.response) {
-        // Call the callback if provided
-        if (onResponse) {
-          onResponse(result.response);
-        }
-        
-        setQuickAnalysisData(prev => {
-          const timestamp = new Date().toLocaleTimeString();
-          const newContent = `## Your Question\n\n${userQuery}\n\n## AI Response\n\n${result.response}\n\n`;
-          const updated = prev + newContent;
-          console.log('✅ AI Chat completed successfully');
-          console.log('✅ AI Chat Q&A pair added:', { question: userQuery, answer: result.response });
-          console.log('✅ Full AI Chat data:', updated);
-          return updated;
-        });
-      } else {
-        throw new Error('No response data from AI Chat API');
+      // Call the callback if provided
+      if (onResponse) {
+        onResponse(answer);
       }
     } catch (error) {
+      // cancelGenieResponse already closed the section
+      if (isAiBackendAbort(error)) return;
       console.error('❌ Error in AI Chat:', error);
+      setQuickAnalysisData(prev => prev + '\n\n');
       setQuickAnalysisError(`AI Chat failed: ${(error as Error).message}`);
     } finally {
-      setIsAnalyzingQuick(false);
+      if (genieRequestRef.current === controller) {
+        genieRequestRef.current = null;
+        setIsAnalyzingQuick(false);
+      }
     }
-  }, [currentCall]);
+  }, [currentCall, cancelGenieResponse]);
+
 
-  // Automatic DISCO analysis: first after 20 seconds, then every 10 seconds
+  // Automatic DISCO analysis: first after 20 seconds, then every 10 seconds, each time on new final messages only
   const startDiscoAnalysisInterval = useCallback(() => {
-    console.log('🎯 startDiscoAnalysisInterval function called');
-    
     if (discoAnalysisTimerRef.current) {
       console.log('🔄 Clearing existing DISCO analysis timer');
       clearTimeout(discoAnalysisTimerRef.current);
+      clearInterval(discoAnalysisTimerRef.current);
     }
     
     console.log('🔄 Starting DISCO analysis automation (first after 20s, then every 10s)');
     
-    // First analysis after 20 seconds
-    console.log('⏰ Setting up 20-second timeout for first DISCO analysis');
     const firstAnalysis = setTimeout(() => {
-      console.log('⏰ 20-second timeout fired! Starting first DISCO analysis');
-      console.log('🔍 Total messages count:', allMessages.length);
-      
-      // Log each message individually
-      allMessages.forEach((msg, index) => {
-        console.log(`🔍 Message ${index}:`, {
-          id: msg.id,
-          username: msg.username,
-          text: msg.text,
-          isFinal: msg.isFinal,
-          isAccumulating: msg.isAccumulating,
-          timestamp: msg.timestamp
-        });
-      });
-      
-      // Use all messages with text content, not just final ones
-      const messagesWithText = allMessages.filter(msg => msg.text.trim());
-      console.log('🔍 Messages with text content:', messagesWithText);
-      console.log('🔍 Messages with text count:', messagesWithText.length);
-      
-        const conversation = messagesWithText
-          .map(msg => `${msg.username}: ${msg.text}`)
-          .join('\n');
-      
-      console.log('⏰ First DISCO analysis triggered (after 20s). Conversation length:', conversation.length);
+      console.log('⏰ First DISCO analysis triggered (after 20s)');
+      analyzeDiscoRef.current();
       
-      // Send to DISCO analysis if we have content
-      if (conversation.trim().length > 0) {
-        console.log('✅ Triggering first DISCO analysis...');
-        analyzeDisco(conversation);
-      } else {
-        console.log('⏭️ Skipping first DISCO analysis - no conversation content yet');
-      }
-      
-      // Start the regular 10-second interval after the first analysis
-      console.log('⏰ Setting up 10-second interval for regular DISCO analysis');
       discoAnalysisTimerRef.current = setInterval(() => {
-        console.log('🔍 Total messages count:', allMessages.length);
-        
-        // Log each message individually
-        allMessages.forEach((msg, index) => {
-          console.log(`🔍 Message ${index}:`, {
-            id: msg.id,
-            username: msg.username,
-            text: msg.text,
-            isFinal: msg.isFinal,
-            isAccumulating: msg.isAccumulating,
-            timestamp: msg.timestamp
-          });
-        });
-        
-        // Use all messages with text content, not just final ones
-        const messagesWithText = allMessages.filter(msg => msg.text.trim());
-        console.log('🔍 Messages with text content:', messagesWithText);
-        console.log('🔍 Messages with text count:', messagesWithText.length);
-        
-        const conversation = messagesWithText
-          .map(msg => `${msg.username}: ${msg.text}`)
-          .join('\n');
-        
-        console.log('⏰ Regular DISCO analysis triggered (every 10s). Conversation length:', conversation.length);
-        
-        // Send to DISCO analysis if we have content
-        if (conversation.trim().length > 0) {
-          console.log('✅ Triggering regular DISCO analysis...');
-          analyzeDisco(conversation);
-        } else {
-          console.log('⏭️ Skipping regular DISCO analysis - no conversation content yet');
-        }
+        console.log('⏰ Regular DISCO analysis triggered (every 10s)');
+        analyzeDiscoRef.current();
       }, 10000); // Analyze every 10 seconds after the first one
       
     }, 20000); // First analysis after 20 seconds
     
     // Store the first timeout so we can clear it if needed
     discoAnalysisTimerRef.current = firstAnalysis;
-  }, [allMessages, analyzeDisco]);
+  }, []);
 
   const stopDiscoAnalysisInterval = useCallback(() => {
     if (discoAnalysisTimerRef.current) {
@@ -1210,10 +975,11 @@ export const useTranscription = () => {
       clearInterval(discoAnalysisTimerRef.current);
       discoAnalysisTimerRef.current = null;
     }
+    discoRequestRef.current?.abort();
   }, []);
 
   // Message management
-  const addTranscriptionMessage = useCallback((username: string, text: string, isFinal: boolean = true) => {
+  const addTranscriptionMessage = useCallback((username: string, text: string, isFinal: boolean = true, timing?: MessageTiming) => {
     // Always create a new message for each incoming transcript
     const messageData = {
       username: username,
@@ -1225,17 +991,47 @@ export const useTranscription = () => {
     console.log('Processed into format:', messageData);
     console.log('================================');
     
+    // Fall back to the receive time when the source did not send word timings
+    const receivedAt = recordingStartedAtRef.current !== null
+      ? (Date.now() - recordingStartedAtRef.current) / 1000
+      : undefined;
+    
     const message: TranscriptionMessage = {
-      id: `${Date.now()}_${Math.random()}`,
+      id: timing?.entryId || `${Date.now()}_${Math.random()}`,
       username: username,
       text: text.trim(),
       timestamp: new Date(),
-      isFinal
+      isFinal,
+      startTime: timing?.startTime ?? receivedAt,
+      endTime: timing?.endTime ?? receivedAt,
+      words: timing?.words
     };
     
     setAllMessages(prev => [...prev, message]);
   }, []);
 
+  // Merge entries replayed from the server journal, skipping any we already have
+  const mergeBackfilledEntries = useCallback((entries: TranscriptEntry[]) => {
+    setAllMessages(prev => {
+      const knownIds = new Set(prev.map(msg => msg.id));
+      const missing: TranscriptionMessage[] = entries
+        .filter(entry => entry.id && !knownIds.has(entry.id))
+        .map(entry => ({
+          id: entry.id,
+          username: entry.speaker,
+          text: entry.text,
+          timestamp: new Date(entry.timestamp || Date.now()),
+          isFinal: true,
+          startTime: entry.start_time,
+          endTime: entry.end_time,
+          words: entry.words
+        }));
+      if (missing.length === 0) return prev;
+      console.log(`📥 Restored ${missing.length} transcript entries from the server`);
+      return [...prev, ...missing].sort((a, b) => (a.startTime ?? 0) - (b.startTime ?? 0));
+    });
+  }, []);
+
   const addMicMessage = useCallback((text: string, isFinal: boolean = true) => {
     // Use the new addTranscriptionMessage function
     addTranscriptionMessage('Microphone', text, isFinal);
@@ -1287,8 +1083,44 @@ export const useTranscription = () => {
   }, []);
 
   // Audio processing setup
+  const sendAudioFrame = useCallback((channel: AudioChannel, samples: Float32Array) => {
+    const ws = unifiedWsRef.current;
+    if (!ws || ws.readyState !== WebSocket.OPEN || !transcriptionReadyRef.current) return;
+    const message: AudioDataMessage = {
+      type: 'audio_data',
+      channel,
+      data: encodePcm16(samples)
+    };
+    ws.send(JSON.stringify(message));
+  }, []);
+
+  // Disconnect a channel's processing chain and close its AudioContext
+  const teardownAudioProcessing = useCallback((channel: AudioChannel) => {
+    const [contextRef, sourceRef, processorRef] = channel === 'mic'
+      ? [micAudioContextRef, micMicrophoneRef, micProcessorRef]
+      : [systemAudioContextRef, systemMicrophoneRef, systemProcessorRef];
+
+    if (processorRef.current) {
+      processorRef.current.onaudioprocess = null;
+      processorRef.current.disconnect();
+      processorRef.current = null;
+    }
+    if (sourceRef.current) {
+      sourceRef.current.disconnect();
+      sourceRef.current = null;
+    }
+    if (contextRef.current && contextRef.current.state !== 'closed') {
+      contextRef.current.close();
+    }
+    contextRef.current = null;
+  }, []);
+
+  // Audio processing is set up once per recording; frames are dropped while the socket is reconnecting
   const setupMicAudioProcessing = useCallback((stream: MediaStream) => {
     try {
+      // A chain left from an earlier setup would send every frame twice
+      teardownAudioProcessing('mic');
+
       // Create audio context
       const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({
         sampleRate: 16000
@@ -1304,16 +1136,8 @@ export const useTranscription = () => {
       micProcessorRef.current = processor;
       
       processor.onaudioprocess = (event) => {
-        // Audio processing is disabled since we're only receiving messages from ngrok WebSocket
-        // The WebSocket connection is used for receiving data, not sending audio
-        const inputData = event.inputBuffer.getChannelData(0);
-        
-        // Check if there's actual audio data (not silence) - for logging purposes only
-        const hasAudio = inputData.some(sample => Math.abs(sample) > 0.01);
-        
-        if (hasAudio) {
-          console.log('Audio detected from microphone (not sending to WebSocket)');
-        }
+        // Mic frames are tagged so the server transcribes them as the local user
+        sendAudioFrame('mic', event.inputBuffer.getChannelData(0));
       };
       
       // Connect audio processing chain
@@ -1325,10 +1149,12 @@ export const useTranscription = () => {
       console.error('Error setting up microphone audio processing:', error);
       setTranscriptionError('Failed to set up microphone audio processing');
     }
-  }, []);
+  }, [sendAudioFrame, teardownAudioProcessing]);
 
   const setupSystemAudioProcessing = useCallback((stream: MediaStream) => {
     try {
+      teardownAudioProcessing('system');
+
       // Create audio context for system audio
       const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({
         sampleRate: 16000
@@ -1344,16 +1170,8 @@ export const useTranscription = () => {
       systemProcessorRef.current = processor;
       
       processor.onaudioprocess = (event) => {
-        // Audio processing is disabled since we're only receiving messages from ngrok WebSocket
-        // The WebSocket connection is used for receiving data, not sending audio
-        const inputData = event.inputBuffer.getChannelData(0);
-        
-        // Check if there's actual audio data (not silence) - for logging purposes only
-        const hasAudio = inputData.some(sample => Math.abs(sample) > 0.01);
-        
-        if (hasAudio) {
-          console.log('Audio detected from system (not sending to WebSocket)');
-        }
+        // System audio carries the remote participants; only this channel is diarized
+        sendAudioFrame('system', event.inputBuffer.getChannelData(0));
       };
       
       // Connect audio processing chain
@@ -1364,25 +1182,27 @@ export const useTranscription = () => {
       console.error('Error setting up system audio processing:', error);
       setSystemTranscriptionError('Failed to set up system audio processing');
     }
-  }, []);
+  }, [sendAudioFrame, teardownAudioProcessing]);
 
   // Unified WebSocket connection
-  // Using ngrok WebSocket connection instead of Deepgram
+  // Endpoint comes from lib/service-config (env or user settings)
   const startUnifiedTranscription = useCallback(async (systemStream?: MediaStream, micStream?: MediaStream, botId?: string) => {
     try {
       // Check if connection already exists
-      if (unifiedWsRef.current && unifiedWsRef.current.readyState === WebSocket.OPEN) {
+      const existing = unifiedWsRef.current;
+      if (existing && (existing.readyState === WebSocket.OPEN || existing.readyState === WebSocket.CONNECTING)) {
         console.log('⚠️ Unified WebSocket already connected, skipping new connection');
         return;
       }
       
-      // Connect to ngrok WebSocket server
-      console.log('🔌 Creating NEW unified WebSocket connection to ngrok server');
-      const ws = new WebSocket('wss://399d80c50137.ngrok-free.app');
+      // Connect to the configured transcription WebSocket server
+      const wsUrl = transcriptionWsUrl();
+      console.log('🔌 Creating NEW unified WebSocket connection to', wsUrl);
+      const ws = new WebSocket(wsUrl);
       unifiedWsRef.current = ws;
       
-      ws.onopen = () => {
-        console.log('Unified WebSocket connected successfully to ngrok');
+      ws.onopen = async () => {
+        console.log('Unified WebSocket connected successfully to', wsUrl);
         console.log('🤖 Bot ID for this call:', botId || 'No bot ID provided');
         setSystemTranscribing(true);
         setMicTranscribing(true);
@@ -1391,14 +1211,6 @@ export const useTranscription = () => {
         setSystemSpeakers(new Map()); // Reset speakers for new session
         unifiedWsReconnectAttemptsRef.current = 0; // Reset reconnection attempts
         
-        // Set up audio processing for both streams
-        if (systemStream) {
-          setupSystemAudioProcessing(systemStream);
-        }
-        if (micStream) {
-          setupMicAudioProcessing(micStream);
-        }
-        
         // Start burst timer if diarization is disabled
         if (!diarizationEnabled) {
           startSystemBurstTimer();
@@ -1406,6 +1218,41 @@ export const useTranscription = () => {
         
         // Set up heartbeat monitoring
         setupWebSocketHeartbeat(unifiedWsRef);
+        
+        // Authenticate the session; the server verifies the token and call ownership before transcribing
+        const { data: { session } } = await supabase.auth.getSession();
+        if (ws.readyState !== WebSocket.OPEN) return;
+        
+        // After a drop, pick the server session back up so nothing sent meanwhile is lost
+        if (transcriptionSessionIdRef.current) {
+          const resumeMessage: ResumeSessionMessage = {
+            type: 'resume',
+            session_id: transcriptionSessionIdRef.current,
+            last_seq: lastSeqRef.current,
+            access_token: session?.access_token || ''
+          };
+          ws.send(JSON.stringify(resumeMessage));
+          return;
+        }
+        sendStartTranscription(ws, session?.access_token || '');
+      };
+      
+      const sendStartTranscription = (socket: WebSocket, accessToken: string) => {
+        const channels: AudioChannel[] = [];
+        if (micStream) channels.push('mic');
+        if (systemStream) channels.push('system');
+        
+        const startMessage: StartTranscriptionMessage = {
+          type: 'start_transcription',
+          access_token: accessToken,
+          call_id: currentCallIdRef.current || '',
+          diarization: diarizationEnabled,
+          last_entry_id: lastEntryIdRef.current,
+          channels: channels.length > 0 ? channels : undefined,
+          // Mic speech is always attributed to the signed-in user
+          local_speaker: localStorage.getItem('sally_fullname') || undefined
+        };
+        socket.send(JSON.stringify(startMessage));
       };
       
       ws.onmessage = (event) => {
@@ -1415,6 +1262,87 @@ export const useTranscription = () => {
           console.log('Full incoming data:', data);
           console.log('====================================');
           
+          // Rejected or failed sessions
+          if (data && data.type === 'error') {
+            const errorMessage = TRANSCRIPTION_AUTH_ERROR_MESSAGES[data.code as TranscriptionAuthErrorCode] || data.message || 'Transcription error occurred';
+            console.error('❌ Transcription server error:', data.code || '', data.message);
+            setSystemTranscriptionError(errorMessage);
+            setTranscriptionError(errorMessage);
+            return;
+          }
+          
+          // The upstream STT session was reopened (e.g. diarization toggled); speaker numbering starts over
+          if (data && data.type === 'session_restarted') {
+            console.log('🔁 Transcription session restarted:', data.channel || 'system', 'diarization:', data.diarization);
+            // The mic channel is never diarized, so only a system restart renumbers speakers
+            if (data.channel !== 'mic') {
+              setSystemSpeakers(new Map());
+            }
+            return;
+          }
+          
+          if (data && data.type === 'transcription_started') {
+            transcriptionSessionIdRef.current = data.session_id || null;
+            lastSeqRef.current = 0;
+            transcriptionReadyRef.current = true;
+            return;
+          }
+          
+          if (data && data.type === 'session_resumed') {
+            transcriptionReadyRef.current = true;
+            console.log(`🔁 Resumed transcription session ${data.session_id}, ${data.replayed} messages replayed`);
+            return;
+          }
+          
+          // The server no longer has our session (e.g. it restarted); start a new one and rely on the journal backfill
+          if (data && data.type === 'resume_failed') {
+            console.warn('Could not resume transcription session:', data.code);
+            transcriptionReadyRef.current = false;
+            transcriptionSessionIdRef.current = null;
+            lastSeqRef.current = 0;
+            supabase.auth.getSession().then(({ data: { session } }) => {
+              if (ws.readyState === WebSocket.OPEN) {
+                sendStartTranscription(ws, session?.access_token || '');
+              }
+            });
+            return;
+          }
+          
+          // Entries the server journaled while we were disconnected
+          if (data && data.type === 'transcript_backfill') {
+            const backfill = data as TranscriptBackfillMessage;
+            mergeBackfilledEntries(backfill.entries || []);
+            const lastEntry = backfill.entries?.[backfill.entries.length - 1];
+            if (lastEntry?.id) lastEntryIdRef.current = lastEntry.id;
+            return;
+          }
+          
+          // Final results from our own transcription server
+          if (data && data.type === 'transcription') {
+            // Sequence numbers make replays after a resume safe to apply
+            if (typeof data.seq === 'number' && data.session_id === transcriptionSessionIdRef.current) {
+              if (data.seq <= lastSeqRef.current) {
+                console.log('Skipping already received transcription seq', data.seq);
+                return;
+              }
+              lastSeqRef.current = data.seq;
+              if (data.is_final) {
+                const ack: AckMessage = { type: 'ack', seq: data.seq };
+                ws.send(JSON.stringify(ack));
+              }
+            }
+            if (data.entry_id) lastEntryIdRef.current = data.entry_id;
+            if (data.is_final && data.transcript?.trim()) {
+              addTranscriptionMessage(data.speaker_label || 'Speaker', data.transcript, true, {
+                entryId: data.entry_id || undefined,
+                startTime: data.start ?? undefined,
+                endTime: data.end ?? undefined,
+                words: data.words
+              });
+            }
+            return;
+          }
+          
           // Only process transcript data, ignore log messages
           if (data && data.data && data.data.data && data.data.data.words) {
             const words = data.data.data.words;
@@ -1442,7 +1370,20 @@ export const useTranscription = () => {
                 console.log('Bot ID confirmed:', messageBotId);
                 console.log('===============================================');
                 
-                addTranscriptionMessage(username, text, true);
+                // Recall word timestamps are relative to the start of the bot's recording
+                const timedWords: TranscriptWord[] = words
+                  .filter((word: any) => typeof word.start_timestamp?.relative === 'number')
+                  .map((word: any) => ({
+                    word: word.text,
+                    start: word.start_timestamp.relative,
+                    end: word.end_timestamp?.relative ?? word.start_timestamp.relative
+                  }));
+                
+                addTranscriptionMessage(username, text, true, timedWords.length > 0 ? {
+                  startTime: timedWords[0].start,
+                  endTime: timedWords[timedWords.length - 1].end,
+                  words: timedWords
+                } : undefined);
               }
             } else {
               console.log('❌ Bot ID mismatch - ignoring message');
@@ -1460,7 +1401,7 @@ export const useTranscription = () => {
             return;
           }
         } catch (e) {
-          console.log('Raw message from ngrok WebSocket (unified):', event.data);
+          console.log('Ignoring non-JSON message from transcription server (unified):', event.data);
           // If it's not JSON, ignore it
           return;
         }
@@ -1468,16 +1409,23 @@ export const useTranscription = () => {
       
       ws.onclose = (event) => {
         console.log('Unified WebSocket disconnected:', event.code, event.reason);
+        transcriptionReadyRef.current = false;
         cleanupWebSocketHeartbeat(unifiedWsRef);
         setSystemTranscribing(false);
         setMicTranscribing(false);
         
+        // Rejected sessions will be rejected again, so do not reconnect
+        if (isAuthCloseCode(event.code)) {
+          console.warn('Transcription session rejected by server:', event.reason);
+          return;
+        }
+        
         // Only attempt reconnection if call is still active and not a normal closure
         if (isCallActiveRef.current && event.code !== 1000) {
           console.log('Call is still active, attempting to reconnect unified WebSocket');
           setSystemTranscriptionError('Connection lost, attempting to reconnect...');
           setTranscriptionError('Connection lost, attempting to reconnect...');
-          reconnectWebSocket(systemStream, micStream);
+          reconnectWebSocket();
         } else if (event.code !== 1000) {
           setSystemTranscriptionError('Connection lost unexpectedly');
           setTranscriptionError('Connection lost unexpectedly');
@@ -1497,10 +1445,27 @@ export const useTranscription = () => {
       setSystemTranscriptionError('Failed to start transcription');
       setTranscriptionError('Failed to start transcription');
     }
-  }, [diarizationEnabled, setupSystemAudioProcessing, setupMicAudioProcessing, addTranscriptionMessage, startSystemBurstTimer, setupWebSocketHeartbeat, cleanupWebSocketHeartbeat, reconnectWebSocket]);
+  }, [diarizationEnabled, addTranscriptionMessage, mergeBackfilledEntries, startSystemBurstTimer, setupWebSocketHeartbeat, cleanupWebSocketHeartbeat, reconnectWebSocket]);
 
   // Recording functions
-  const startSystemRecording = useCallback(async () => {
+  // Open a chunked upload for a recorder; null when there is no call to attach it to
+  const startRecordingUpload = useCallback(async (track: RecordingTrack): Promise<ChunkedRecordingUpload | null> => {
+    const callId = currentCallIdRef.current;
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!callId || !session?.user) {
+      console.warn(`No active call or session; ${track} recording will not be saved`);
+      return null;
+    }
+
+    const upload = await ChunkedRecordingUpload.start(callId, session.user.id, track);
+    if (upload) {
+      recordingUploadsRef.current[track] = upload;
+    }
+    return upload;
+  }, []);
+
+  // Starts recording system audio and returns the stream for transcription, or null if it could not start
+  const startSystemRecording = useCallback(async (): Promise<MediaStream | null> => {
     try {
       let stream: MediaStream | null = null;
       const isElectron = typeof window !== 'undefined' && (window as any).electronAPI;
@@ -1552,38 +1517,31 @@ export const useTranscription = () => {
       });
       systemMediaRecorderRef.current = mediaRecorder;
 
-      // Collect audio chunks for recording
-      const audioChunks: Blob[] = [];
+      // Stream chunks to storage as they are recorded
+      const upload = await startRecordingUpload('system');
       mediaRecorder.ondataavailable = (event) => {
         if (event.data.size > 0) {
-          audioChunks.push(event.data);
+          upload?.addChunk(event.data);
         }
       };
 
       mediaRecorder.onstop = () => {
-        const audioBlob = new Blob(audioChunks, { type: 'audio/webm' });
-        setSystemAudioChunks(audioChunks);
-        console.log('System recording stopped, audio blob size:', audioBlob.size);
+        console.log('System recording stopped');
       };
 
       // Start recording
-      mediaRecorder.start(1000); // Record in 1-second chunks
+      mediaRecorder.start(RECORDING_TIMESLICE_MS);
       console.log('System recording started');
 
-      // Start unified transcription with system stream
-      if (stream) {
-        await startUnifiedTranscription(stream, undefined, currentCall?.bot_id);
-      } else {
-        throw new Error('Failed to get media stream for system recording');
-      }
-
+      return stream;
     } catch (error) {
       console.error('Error starting system recording:', error);
       setSystemTranscriptionError(`Failed to start system recording: ${(error as Error).message}`);
+      return null;
     }
-  }, [screenSources, selectedScreenSource, startUnifiedTranscription]);
+  }, [screenSources, selectedScreenSource, startRecordingUpload]);
 
-  const startSystemRecordingWithSource = useCallback(async (source: ScreenSource, botId?: string) => {
+  const startSystemRecordingWithSource = useCallback(async (source: ScreenSource): Promise<MediaStream | null> => {
     try {
       let stream: MediaStream | null = null;
       const isElectron = typeof window !== 'undefined' && (window as any).electronAPI;
@@ -1631,38 +1589,32 @@ export const useTranscription = () => {
       });
       systemMediaRecorderRef.current = mediaRecorder;
 
-      // Collect audio chunks for recording
-      const audioChunks: Blob[] = [];
+      // Stream chunks to storage as they are recorded
+      const upload = await startRecordingUpload('system');
       mediaRecorder.ondataavailable = (event) => {
         if (event.data.size > 0) {
-          audioChunks.push(event.data);
+          upload?.addChunk(event.data);
         }
       };
 
       mediaRecorder.onstop = () => {
-        const audioBlob = new Blob(audioChunks, { type: 'audio/webm' });
-        setSystemAudioChunks(audioChunks);
-        console.log('System recording stopped, audio blob size:', audioBlob.size);
+        console.log('System recording stopped');
       };
 
       // Start recording
-      mediaRecorder.start(1000); // Record in 1-second chunks
+      mediaRecorder.start(RECORDING_TIMESLICE_MS);
       console.log('System recording started with source:', source.id);
 
-      // Start unified transcription with system stream
-      if (stream) {
-        await startUnifiedTranscription(stream, undefined, botId);
-      } else {
-        throw new Error('Failed to get media stream for system recording');
-      }
-
+      return stream;
     } catch (error) {
       console.error('Error starting system recording with source:', error);
       setSystemTranscriptionError(`Failed to start system recording: ${(error as Error).message}`);
+      return null;
     }
-  }, [startUnifiedTranscription]);
+  }, [startRecordingUpload]);
 
-  const startMicRecording = useCallback(async (botId?: string) => {
+  // Starts recording the microphone and returns the stream for transcription, or null if it could not start
+  const startMicRecording = useCallback(async (): Promise<MediaStream | null> => {
     try {
       // Get microphone access
       const stream = await navigator.mediaDevices.getUserMedia({
@@ -1679,29 +1631,27 @@ export const useTranscription = () => {
       });
       micMediaRecorderRef.current = mediaRecorder;
 
-      // Collect audio chunks for recording
-      const audioChunks: Blob[] = [];
+      // Stream chunks to storage as they are recorded
+      const upload = await startRecordingUpload('mic');
       mediaRecorder.ondataavailable = (event) => {
         if (event.data.size > 0) {
-          audioChunks.push(event.data);
-          setMicAudioChunks(prev => [...prev, event.data]);
+          upload?.addChunk(event.data);
         }
       };
 
       mediaRecorder.onstop = () => {
-        // Prevent auto-download on stop; uploads happen in stopCall
+        // Prevent auto-download on stop; uploads are finalized in stopCall
       };
 
-      mediaRecorder.start();
-
-      // Start unified transcription with mic stream
-      await startUnifiedTranscription(undefined, stream, botId);
+      mediaRecorder.start(RECORDING_TIMESLICE_MS);
 
+      return stream;
     } catch (error) {
       console.error('Error starting microphone recording:', error);
       setTranscriptionError(`Failed to start microphone recording: ${(error as Error).message}`);
+      return null;
     }
-  }, [startUnifiedTranscription]);
+  }, [startRecordingUpload]);
 
   const stopSystemRecording = useCallback(() => {
     if (systemMediaRecorderRef.current) {
@@ -1742,22 +1692,15 @@ export const useTranscription = () => {
     
     // Reset reconnection attempts
     unifiedWsReconnectAttemptsRef.current = 0;
+    transcriptionStreamsRef.current = {};
     
-    if (systemProcessorRef.current) {
-      systemProcessorRef.current.disconnect();
-      systemProcessorRef.current = null;
-    }
-    
-    if (systemMicrophoneRef.current) {
-      systemMicrophoneRef.current.disconnect();
-      systemMicrophoneRef.current = null;
-    }
+    teardownAudioProcessing('system');
     
     // Stop burst timer
     stopSystemBurstTimer();
     
     setSystemTranscribing(false);
-  }, [stopSystemBurstTimer, cleanupWebSocketHeartbeat]);
+  }, [stopSystemBurstTimer, cleanupWebSocketHeartbeat, teardownAudioProcessing]);
 
   const stopMicRecording = useCallback(() => {
     if (micMediaRecorderRef.current) {
@@ -1772,18 +1715,10 @@ export const useTranscription = () => {
     
     // Note: Unified WebSocket cleanup is handled in stopSystemRecording
     
-    if (micProcessorRef.current) {
-      micProcessorRef.current.disconnect();
-      micProcessorRef.current = null;
-    }
-    
-    if (micMicrophoneRef.current) {
-      micMicrophoneRef.current.disconnect();
-      micMicrophoneRef.current = null;
-    }
+    teardownAudioProcessing('mic');
     
     stopMicTranscription();
-  }, [cleanupWebSocketHeartbeat]);
+  }, [cleanupWebSocketHeartbeat, teardownAudioProcessing]);
 
   const stopMicTranscription = useCallback(() => {
     setMicTranscribing(false);
@@ -1795,26 +1730,34 @@ export const useTranscription = () => {
       setIsRecording(true);
       setRecordingTime(0);
       isCallActiveRef.current = true; // Mark call as active
+      recordingStartedAtRef.current = Date.now(); // Transcript timings are relative to this
       
       // Clear all data for fresh start
       console.log('🧹 Clearing all data for fresh start');
       setAllMessages([]);
       setSystemSpeakers(new Map());
       setDiscoData({});
+      discoAnalyzedIdsRef.current = new Set();
       setDiscoError('');
       setRawDiscoResponse(null);
       // Keep Genie data persistent - don't clear quickAnalysisData
       setQuickAnalysisError('');
       
-      // Clear audio chunks for new recording
-      setSystemAudioChunks([]);
-      setMicAudioChunks([]);
-      
-      // Start system recording
-      await startSystemRecording();
-      
-      // Start microphone recording
-      await startMicRecording();
+      // Drop uploads left over from a previous recording
+      recordingUploadsRef.current = {};
+      
+      // Both recordings start before transcription: one socket carries both channels, and the
+      // server learns which channels to open from start_transcription
+      const systemStream = await startSystemRecording();
+      const micStream = await startMicRecording();
+      transcriptionStreamsRef.current = {
+        system: systemStream || undefined,
+        mic: micStream || undefined,
+        botId: currentCall?.bot_id
+      };
+      if (systemStream) setupSystemAudioProcessing(systemStream);
+      if (micStream) setupMicAudioProcessing(micStream);
+      await startUnifiedTranscription(systemStream || undefined, micStream || undefined, currentCall?.bot_id);
       
       // Start unified timer
       recordingTimerRef.current = setInterval(() => {
@@ -1830,33 +1773,40 @@ export const useTranscription = () => {
       setIsRecording(false);
       isCallActiveRef.current = false; // Reset call active state on error
     }
-  }, [startSystemRecording, startMicRecording, startDiscoAnalysisInterval]);
+  }, [startSystemRecording, startMicRecording, setupSystemAudioProcessing, setupMicAudioProcessing, startUnifiedTranscription, startDiscoAnalysisInterval, currentCall]);
 
   const startUnifiedRecordingWithSource = useCallback(async (source: ScreenSource, botId?: string) => {
     try {
       setIsRecording(true);
       setRecordingTime(0);
       isCallActiveRef.current = true; // Mark call as active
+      recordingStartedAtRef.current = Date.now(); // Transcript timings are relative to this
       
       // Clear all data for fresh start
       console.log('🧹 Clearing all data for fresh start');
       setAllMessages([]);
       setSystemSpeakers(new Map());
       setDiscoData({});
+      discoAnalyzedIdsRef.current = new Set();
       setDiscoError('');
       setRawDiscoResponse(null);
       // Keep Genie data persistent - don't clear quickAnalysisData
       setQuickAnalysisError('');
       
-      // Clear audio chunks for new recording
-      setSystemAudioChunks([]);
-      setMicAudioChunks([]);
+      // Drop uploads left over from a previous recording
+      recordingUploadsRef.current = {};
       
-      // Start system recording with specific source
-      await startSystemRecordingWithSource(source, botId);
-      
-      // Start microphone recording
-      await startMicRecording(botId);
+      // Both recordings start before transcription so the one socket carries both channels
+      const systemStream = await startSystemRecordingWithSource(source);
+      const micStream = await startMicRecording();
+      transcriptionStreamsRef.current = {
+        system: systemStream || undefined,
+        mic: micStream || undefined,
+        botId
+      };
+      if (systemStream) setupSystemAudioProcessing(systemStream);
+      if (micStream) setupMicAudioProcessing(micStream);
+      await startUnifiedTranscription(systemStream || undefined, micStream || undefined, botId);
       
       // Start unified timer
       recordingTimerRef.current = setInterval(() => {
@@ -1872,36 +1822,17 @@ export const useTranscription = () => {
       setIsRecording(false);
       isCallActiveRef.current = false; // Reset call active state on error
     }
-  }, [startSystemRecordingWithSource, startMicRecording, startDiscoAnalysisInterval]);
+  }, [startSystemRecordingWithSource, startMicRecording, setupSystemAudioProcessing, setupMicAudioProcessing, startUnifiedTranscription, startDiscoAnalysisInterval]);
 
   // Send data to post-call actions API
   const sendToPostCallActions = useCallback(async (holisticView: any) => {
     try {
       console.log('📤 Sending data to post-call actions API...');
       
-      const requestBody = {
+      const result = await AiBackendClient.postCallActions({
         inputData: holisticView,
         assistantId: null
-      };
-      
-      console.log('📤 Post-call actions request:', requestBody);
-      
-      const response = await fetch('http://localhost:8000/api/post-call-actions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestBody),
       });
-      
-      console.log('📡 Post-call actions response status:', response.status);
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`HTTP error! status: ${response.status}, body: ${errorText}`);
-      }
-      
-      const result = await response.json();
       console.log('✅ Post-call actions response:', result);
       
     } catch (error) {
@@ -2064,6 +1995,7 @@ export const useTranscription = () => {
     console.log('🧹 Clearing all data for fresh start');
     setAllMessages([]);
     setDiscoData({});
+    discoAnalyzedIdsRef.current = new Set();
     setDiscoError('');
     setRawDiscoResponse(null);
     // Keep Genie data persistent - don't clear quickAnalysisData
@@ -2119,6 +2051,9 @@ export const useTranscription = () => {
         clearTimeout(unifiedWsReconnectTimeoutRef.current);
       }
       
+      discoRequestRef.current?.abort();
+      genieRequestRef.current?.abort();
+
       // Stop media recorders
       if (systemMediaRecorderRef.current) systemMediaRecorderRef.current.stop();
       if (micMediaRecorderRef.current) micMediaRecorderRef.current.stop();
@@ -2135,14 +2070,49 @@ export const useTranscription = () => {
       stopMicTranscription();
       
       // Cleanup audio contexts
-      if (micAudioContextRef.current && micAudioContextRef.current.state !== 'closed') {
-        micAudioContextRef.current.close();
-      }
-      if (systemAudioContextRef.current && systemAudioContextRef.current.state !== 'closed') {
-        systemAudioContextRef.current.close();
-      }
+      teardownAudioProcessing('mic');
+      teardownAudioProcessing('system');
     };
-  }, [stopMicTranscription, cleanupWebSocketHeartbeat]);
+  }, [stopMicTranscription, cleanupWebSocketHeartbeat, teardownAudioProcessing]);
+
+  // Apply diarization changes to the live session; the server restarts its upstream session
+  const previousDiarizationRef = useRef(diarizationEnabled);
+  useEffect(() => {
+    if (previousDiarizationRef.current === diarizationEnabled) return;
+    previousDiarizationRef.current = diarizationEnabled;
+    if (!isCallActiveRef.current) return;
+
+    if (unifiedWsRef.current && unifiedWsRef.current.readyState === WebSocket.OPEN) {
+      console.log('🔀 Sending diarization update to transcription server:', diarizationEnabled);
+      unifiedWsRef.current.send(JSON.stringify({
+        type: 'update_diarization',
+        diarization: diarizationEnabled
+      }));
+    }
+
+    // The burst timer only groups messages when speakers are not being separated
+    if (diarizationEnabled) {
+      stopSystemBurstTimer();
+    } else {
+      startSystemBurstTimer();
+    }
+  }, [diarizationEnabled, startSystemBurstTimer, stopSystemBurstTimer]);
+
+  // Keep the server's copy of the access token current for the length of the call
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      if (event !== 'TOKEN_REFRESHED' || !session?.access_token) return;
+      const ws = unifiedWsRef.current;
+      if (!ws || ws.readyState !== WebSocket.OPEN || !transcriptionReadyRef.current) return;
+
+      const refreshMessage: RefreshTokenMessage = {
+        type: 'refresh_token',
+        access_token: session.access_token
+      };
+      ws.send(JSON.stringify(refreshMessage));
+    });
+    return () => subscription.unsubscribe();
+  }, []);
 
   // Load screen sources on mount
   useEffect(() => {
@@ -2167,6 +2137,7 @@ export const useTranscription = () => {
     
     // DISCO Analysis state
     discoData,
+    qualificationFramework,
     isAnalyzingDisco,
     discoError,
     rawDiscoResponse,
@@ -2180,7 +2151,6 @@ export const useTranscription = () => {
     currentCall,
     transcriptEntries,
     lastUploadedAudioPath,
-    lastRecordingBlob,
     
     // Refs
     systemVideoRef,
@@ -2197,10 +2167,9 @@ export const useTranscription = () => {
     stopDiscoAnalysisInterval,
     analyzeQuick,
     sendAiChat,
+    cancelGenieResponse,
     consolidateCallData,
     downloadAudioFile,
-    createCombinedAudioFile,
-    getLocalRecordingBlob,
     
     // Database integration actions
     startCall,
@@ -0,0 +1,451 @@
+import { z } from 'zod'
+import { aiBackendUrl } from './service-config'
+
+// Typed client for the AI backend. Requests and responses are validated against the schemas
+// below, every request has a timeout and can be cancelled with an AbortSignal.
+// server/mock-ai-backend.js implements the same contract for working offline.
+
+const DEFAULT_TIMEOUT_MS = 60_000
+
+export type AiBackendErrorKind = 'http' | 'timeout' | 'aborted' | 'network' | 'invalid_request' | 'invalid_response'
+
+export class AiBackendError extends Error {
+  constructor(
+    public kind: AiBackendErrorKind,
+    message: string,
+    public status?: number,
+    public details?: unknown
+  ) {
+    super(message)
+    this.name = 'AiBackendError'
+  }
+}
+
+// Cancelled by the caller, as opposed to failed; usually not worth showing to the user
+export const isAiBackendAbort = (error: unknown): boolean =>
+  error instanceof AiBackendError && error.kind === 'aborted'
+
+export interface AiRequestOptions {
+  signal?: AbortSignal
+  timeoutMs?: number
+}
+
+// ----- Schemas -----
+
+const assistantFields = {
+  assistantId: z.string().optional(),
+  threadId: z.string().optional(),
+}
+
+// Text, bullets, or bullets with the transcript entries they came from, a 0-1 confidence and a
+// status (see lib/disco.ts)
+const discoValueSchema = z.union([
+  z.string(),
+  z.array(z.union([
+    z.string(),
+    z.object({
+      text: z.string(),
+      entry_ids: z.array(z.string()).optional(),
+      confidence: z.number().min(0).max(1).optional(),
+      status: z.enum(['confirmed', 'assumed', 'contradicted']).optional(),
+    }),
+  ])),
+])
+
+// Keyed by the framework's backend field names (FrameworkField.backend_name in lib/frameworks.ts)
+export const discoFieldsSchema = z.record(discoValueSchema)
+
+// The qualification framework to extract; without it the backend falls back to DISCO
+const frameworkSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  fields: z.array(z.object({ name: z.string(), label: z.string(), prompt: z.string() })).min(1),
+})
+
+// In incremental mode `conversation` and `entries` hold only what was said since the last analysis,
+// each line prefixed with its entry id so bullets can cite it; currentDISCO is what is already known.
+export const analyzeDiscoRequestSchema = z.object({
+  conversation: z.string(),
+  context: z.object({
+    type: z.string(),
+    mode: z.enum(['full', 'incremental']).optional(),
+    framework: frameworkSchema.optional(),
+    currentDISCO: discoFieldsSchema.optional(),
+    entries: z.array(z.object({ id: z.string(), speaker: z.string(), text: z.string() })).optional(),
+  }).optional(),
+  ...assistantFields,
+})
+
+// The backend answers either { success, data: {...fields} } or with the fields at the top level
+const analyzeDiscoResponseSchema = z.object({
+  success: z.boolean().optional(),
+  data: discoFieldsSchema.nullish(),
+  message: z.string().optional(),
+  error: z.string().optional(),
+}).catchall(discoValueSchema)
+
+export const quickAnalysisRequestSchema = z.object({
+  ai_chat: z.literal(false),
+  conversation: z.string(),
+  stream: z.boolean().optional(),
+  ...assistantFields,
+})
+
+export const aiChatRequestSchema = z.object({
+  ai_chat: z.literal(true),
+  user_query: z.string().min(1),
+  stream: z.boolean().optional(),
+  ...assistantFields,
+})
+
+const quickAnswerResponseSchema = z.object({
+  analysis: z.string().optional(),
+  response: z.string().optional(),
+})
+
+// With stream: true the backend may answer text/event-stream: `data: {"delta": "..."}` events,
+// `data: {"error": "..."}` on failure and `data: [DONE]` at the end. A backend that does not
+// stream answers JSON as before, and the whole answer arrives as a single delta.
+const streamEventSchema = z.object({
+  delta: z.string().optional(),
+  error: z.string().optional(),
+})
+
+export const postCallRequestSchema = z.object({
+  conversation: z.string(),
+  framework: z.string().optional(), // id of the framework discoAnalysis follows; DISCO when absent
+  discoAnalysis: z.record(z.unknown()),
+  genieSupport: z.unknown(),
+  ...assistantFields,
+})
+
+const postCallStepsResponseSchema = z.record(z.unknown())
+
+const aiSummaryResponseSchema = z.object({
+  summary: z.object({ overview: z.string().optional() }).passthrough().optional(),
+  response: z.string().optional(),
+}).passthrough().refine(
+  result => !!(result.summary?.overview || result.response),
+  'Expected summary.overview or response'
+)
+
+export const postCallActionsRequestSchema = z.object({
+  inputData: z.unknown(),
+  assistantId: z.string().nullable(),
+})
+
+export const aiCompleteRequestSchema = z.object({
+  action_item: z.string().min(1),
+  assistantId: z.string(),
+  threadId: z.string(),
+})
+
+const aiCompleteResponseSchema = z.object({
+  content: z.string(),
+  tag: z.string().optional(),
+})
+
+export const recallBotRequestSchema = z.object({
+  meeting_url: z.string(),
+})
+
+// A bare bot ID string, or JSON carrying it
+const recallBotResponseSchema = z.union([
+  z.string().min(1),
+  z.object({ bot_id: z.string() }).passthrough().transform(body => body.bot_id),
+  z.object({ id: z.string() }).passthrough().transform(body => body.id),
+])
+
+export type DiscoFields = z.infer<typeof discoFieldsSchema>
+export type AnalyzeDiscoRequest = z.infer<typeof analyzeDiscoRequestSchema>
+export type QuickAnalysisRequest = Omit<z.infer<typeof quickAnalysisRequestSchema>, 'ai_chat' | 'stream'>
+export type AiChatRequest = Omit<z.infer<typeof aiChatRequestSchema>, 'ai_chat' | 'stream'>
+export type PostCallRequest = z.infer<typeof postCallRequestSchema>
+export type PostCallActionsRequest = z.infer<typeof postCallActionsRequestSchema>
+export type AiCompleteRequest = z.infer<typeof aiCompleteRequestSchema>
+export type AiCompleteResult = z.infer<typeof aiCompleteResponseSchema>
+
+export interface AnalyzeDiscoResult {
+  disco: DiscoFields
+  raw: unknown
+}
+
+export interface AiSummaryResult {
+  text: string
+  raw: unknown
+}
+
+// Receives each piece of a streamed answer as it arrives
+export type AiDeltaHandler = (delta: string) => void
+
+// ----- Transport -----
+
+const describeIssues = (error: z.ZodError) =>
+  error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ')
+
+function validateRequest<Req>(path: string, requestSchema: z.ZodType<Req, z.ZodTypeDef, unknown>, body: unknown): Req {
+  const request = requestSchema.safeParse(body)
+  if (!request.success) {
+    throw new AiBackendError('invalid_request', `Invalid ${path} request: ${describeIssues(request.error)}`, undefined, request.error.issues)
+  }
+  return request.data
+}
+
+// Most endpoints answer JSON; recall-bot may answer with a bare string
+function parsePayload(text: string): unknown {
+  try {
+    return JSON.parse(text)
+  } catch {
+    return text
+  }
+}
+
+function parseResponse<Res>(path: string, responseSchema: z.ZodType<Res, z.ZodTypeDef, unknown>, status: number, text: string): Res {
+  const payload = parsePayload(text)
+
+  if (status < 200 || status >= 300) {
+    const detail = typeof payload === 'object' && payload !== null
+      ? (payload as any).error || (payload as any).message
+      : text
+    throw new AiBackendError('http', `${path} returned ${status}${detail ? `: ${detail}` : ''}`, status, payload)
+  }
+
+  const result = responseSchema.safeParse(payload)
+  if (!result.success) {
+    throw new AiBackendError('invalid_response', `Unexpected ${path} response: ${describeIssues(result.error)}`, status, payload)
+  }
+  return result.data
+}
+
+/**
+ * One controller for both the caller's signal and the timeout. `touch` restarts
+ * the timeout, so a stream only times out when it stalls.
+ */
+function requestController(options: AiRequestOptions) {
+  const controller = new AbortController()
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+  let timedOut = false
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const touch = () => {
+    clearTimeout(timer)
+    timer = setTimeout(() => {
+      timedOut = true
+      controller.abort()
+    }, timeoutMs)
+  }
+  const onAbort = () => controller.abort()
+
+  touch()
+  if (options.signal?.aborted) controller.abort()
+  options.signal?.addEventListener('abort', onAbort, { once: true })
+
+  return {
+    signal: controller.signal,
+    touch,
+    // Turn a failed fetch or read into the matching AiBackendError
+    failure: (path: string, error: unknown): AiBackendError => {
+      if (error instanceof AiBackendError) return error
+      if (timedOut) return new AiBackendError('timeout', `${path} timed out`)
+      if (options.signal?.aborted) return new AiBackendError('aborted', `${path} was cancelled`)
+      return new AiBackendError('network', `${path} failed: ${(error as Error).message}`)
+    },
+    done: () => {
+      clearTimeout(timer)
+      options.signal?.removeEventListener('abort', onAbort)
+    },
+  }
+}
+
+async function post<Req, Res>(
+  path: string,
+  requestSchema: z.ZodType<Req, z.ZodTypeDef, unknown>,
+  responseSchema: z.ZodType<Res, z.ZodTypeDef, unknown>,
+  body: unknown,
+  options: AiRequestOptions = {}
+): Promise<Res> {
+  const request = validateRequest(path, requestSchema, body)
+  const control = requestController(options)
+
+  let status: number
+  let text: string
+  try {
+    const response = await fetch(aiBackendUrl(path), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+      signal: control.signal,
+    })
+    status = response.status
+    text = await response.text()
+  } catch (error) {
+    throw control.failure(path, error)
+  } finally {
+    control.done()
+  }
+
+  return parseResponse(path, responseSchema, status, text)
+}
+
+/**
+ * POST with `stream: true` and hand each delta to `onDelta` as it arrives.
+ * Resolves to the whole answer. The timeout applies between chunks, not to
+ * the whole stream. `fallback` picks the answer out of a plain JSON response.
+ */
+async function postStream<Req, Res>(
+  path: string,
+  requestSchema: z.ZodType<Req, z.ZodTypeDef, unknown>,
+  fallbackSchema: z.ZodType<Res, z.ZodTypeDef, unknown>,
+  fallback: (result: Res) => string | undefined,
+  body: unknown,
+  onDelta: AiDeltaHandler,
+  options: AiRequestOptions = {}
+): Promise<string> {
+  const request = validateRequest(path, requestSchema, body)
+  const control = requestController(options)
+
+  try {
+    const response = await fetch(aiBackendUrl(path), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+      body: JSON.stringify(request),
+      signal: control.signal,
+    })
+
+    const isEventStream = (response.headers.get('content-type') || '').includes('text/event-stream')
+    if (!response.ok || !isEventStream || !response.body) {
+      const result = parseResponse(path, fallbackSchema, response.status, await response.text())
+      const answer = fallback(result)
+      if (!answer) {
+        throw new AiBackendError('invalid_response', `No answer in ${path} response`, response.status, result)
+      }
+      onDelta(answer)
+      return answer
+    }
+
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+    let answer = ''
+
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      control.touch()
+      buffer += decoder.decode(value, { stream: true })
+
+      // Events are separated by a blank line; the last piece may be incomplete
+      const events = buffer.split(/\r?\n\r?\n/)
+      buffer = events.pop() || ''
+
+      for (const event of events) {
+        const data = event
+          .split(/\r?\n/)
+          .filter(line => line.startsWith('data:'))
+          .map(line => line.slice(5).replace(/^ /, ''))
+          .join('\n')
+        if (!data) continue
+        if (data === '[DONE]') {
+          await reader.cancel()
+          return answer
+        }
+
+        const parsed = streamEventSchema.safeParse(parsePayload(data))
+        if (!parsed.success) {
+          throw new AiBackendError('invalid_response', `Unexpected ${path} stream event: ${describeIssues(parsed.error)}`, response.status, data)
+        }
+        if (parsed.data.error) {
+          throw new AiBackendError('http', `${path} failed while streaming: ${parsed.data.error}`, response.status, parsed.data)
+        }
+        if (parsed.data.delta) {
+          answer += parsed.data.delta
+          onDelta(parsed.data.delta)
+        }
+      }
+    }
+
+    // The stream closed without [DONE]; keep what arrived unless nothing did
+    if (!answer) {
+      throw new AiBackendError('invalid_response', `${path} stream ended without an answer`, response.status)
+    }
+    return answer
+  } catch (error) {
+    throw control.failure(path, error)
+  } finally {
+    control.done()
+  }
+}
+
+// ----- Endpoints -----
+
+export class AiBackendClient {
+  // Live extraction of the call's qualification framework from the conversation so far
+  static async analyzeDisco(request: AnalyzeDiscoRequest, options?: AiRequestOptions): Promise<AnalyzeDiscoResult> {
+    const result = await post('/api/analyze-disco', analyzeDiscoRequestSchema, analyzeDiscoResponseSchema, request, options)
+    const { success, data, message, error, ...fields } = result
+
+    if (data) return { disco: data, raw: result }
+    if (Object.keys(fields).length > 0) return { disco: fields, raw: result }
+    throw new AiBackendError('invalid_response', message || error || 'No framework fields in response', 200, result)
+  }
+
+  // Genie's real-time analysis of the conversation
+  static async quickAnalysis(request: QuickAnalysisRequest, options?: AiRequestOptions): Promise<string> {
+    const result = await post('/api/generate-quick-answer', quickAnalysisRequestSchema, quickAnswerResponseSchema, { ...request, ai_chat: false }, options)
+    const analysis = result.analysis || result.response
+    if (!analysis) {
+      throw new AiBackendError('invalid_response', 'No analysis in quick answer response', 200, result)
+    }
+    return analysis
+  }
+
+  // Genie chat: answer a question asked during the call
+  static async aiChat(request: AiChatRequest, options?: AiRequestOptions): Promise<string> {
+    const result = await post('/api/generate-quick-answer', aiChatRequestSchema, quickAnswerResponseSchema, { ...request, ai_chat: true }, options)
+    if (!result.response) {
+      throw new AiBackendError('invalid_response', 'No response in AI chat response', 200, result)
+    }
+    return result.response
+  }
+
+  // Streaming variant of quickAnalysis; resolves to the whole analysis
+  static async streamQuickAnalysis(request: QuickAnalysisRequest, onDelta: AiDeltaHandler, options?: AiRequestOptions): Promise<string> {
+    return postStream(
+      '/api/generate-quick-answer', quickAnalysisRequestSchema, quickAnswerResponseSchema,
+      result => result.analysis || result.response,
+      { ...request, ai_chat: false, stream: true }, onDelta, options
+    )
+  }
+
+  // Streaming variant of aiChat; resolves to the whole answer
+  static async streamAiChat(request: AiChatRequest, onDelta: AiDeltaHandler, options?: AiRequestOptions): Promise<string> {
+    return postStream(
+      '/api/generate-quick-answer', aiChatRequestSchema, quickAnswerResponseSchema,
+      result => result.response,
+      { ...request, ai_chat: true, stream: true }, onDelta, options
+    )
+  }
+
+  // Post-call action items; stored as calls.post_call_actions
+  static async postCallSteps(request: PostCallRequest, options?: AiRequestOptions): Promise<Record<string, unknown>> {
+    return post('/api/post-call-steps', postCallRequestSchema, postCallStepsResponseSchema, request, options)
+  }
+
+  static async aiSummary(request: PostCallRequest, options?: AiRequestOptions): Promise<AiSummaryResult> {
+    const result = await post('/api/ai-summary', postCallRequestSchema, aiSummaryResponseSchema, request, options)
+    return { text: (result.summary?.overview || result.response) as string, raw: result }
+  }
+
+  static async postCallActions(request: PostCallActionsRequest, options?: AiRequestOptions): Promise<unknown> {
+    return post('/api/post-call-actions', postCallActionsRequestSchema, z.unknown(), request, options)
+  }
+
+  // Draft the deliverable for one post-call action item (email, report, ...)
+  static async aiComplete(request: AiCompleteRequest, options?: AiRequestOptions): Promise<AiCompleteResult> {
+    return post('/api/ai-complete', aiCompleteRequestSchema, aiCompleteResponseSchema, request, options)
+  }
+
+  // Create a meeting bot; resolves to its bot ID
+  static async recallBot(meetingUrl: string, options?: AiRequestOptions): Promise<string> {
+    return post('/api/recall-bot', recallBotRequestSchema, recallBotResponseSchema, { meeting_url: meetingUrl }, options)
+  }
+}
@@ -1,4 +1,5 @@
 import { supabase } from './supabase'
+import { transcriptionHttpUrl } from './service-config'
 
 export class AudioUploadService {
   // Upload audio file to Supabase Storage
@@ -32,6 +33,32 @@ export class AudioUploadService {
     }
   }
 
+  // Ask the transcription server to mix, normalize and transcode a call's recordings.
+  // Runs in the background; the result lands on the call row (recording_status, recording_format, ...)
+  static async processCallRecording(callId: string, sourcePaths?: string[]): Promise<boolean> {
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      const response = await fetch(transcriptionHttpUrl(`/api/calls/${callId}/recording/process`), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(session?.access_token ? { Authorization: `Bearer ${session.access_token}` } : {}),
+        },
+        body: JSON.stringify({ source_paths: sourcePaths }),
+      })
+
+      if (!response.ok) {
+        console.error('Error starting recording processing:', response.status, await response.text())
+        return false
+      }
+
+      return true
+    } catch (error) {
+      console.error('Error starting recording processing:', error)
+      return false
+    }
+  }
+
   // Get public URL for audio file
   static getAudioUrl(filePath: string): string | null {
     try {
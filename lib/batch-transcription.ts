@@ -0,0 +1,207 @@
+import { supabase, Call, TranscriptEntry } from './supabase'
+import { CallManager } from './call-management'
+import { AudioUploadService } from './audio-upload'
+import { transcriptionHttpUrl } from './service-config'
+
+// Stages reported by the transcription server's batch jobs (server/batch-transcription.js)
+export type BatchTranscriptionStatus = 'queued' | 'fetching_audio' | 'transcribing' | 'formatting' | 'completed' | 'failed'
+
+export interface BatchTranscriptionJob {
+  job_id: string
+  call_id: string | null
+  recording_path: string | null
+  status: BatchTranscriptionStatus
+  progress: number // 0-100
+  error: string | null
+  result: {
+    entries: TranscriptEntry[]
+    duration: number | null // seconds
+  } | null
+  created_at: string
+  updated_at: string
+}
+
+export interface BatchImportProgress {
+  stage: 'creating_call' | 'uploading' | BatchTranscriptionStatus | 'saving'
+  progress: number // 0-100 across the whole import
+  callId?: string
+}
+
+export interface BatchTranscriptionOptions {
+  callId?: string
+  diarization?: boolean
+}
+
+const BATCH_ENDPOINT = '/api/batch-transcriptions'
+const POLL_INTERVAL_MS = 2000
+
+// Share of the overall import progress taken by the server-side job
+const JOB_PROGRESS_START = 15
+const JOB_PROGRESS_END = 95
+
+const toImportProgress = (job: BatchTranscriptionJob, callId?: string): BatchImportProgress => ({
+  stage: job.status,
+  progress: Math.round(JOB_PROGRESS_START + (job.progress / 100) * (JOB_PROGRESS_END - JOB_PROGRESS_START)),
+  callId,
+})
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+async function authHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession()
+  return session?.access_token ? { Authorization: `Bearer ${session.access_token}` } : {}
+}
+
+export class BatchTranscriptionService {
+  // Transcribe a recording already stored in the call-recordings bucket
+  static async startFromRecording(recordingPath: string, options: BatchTranscriptionOptions = {}): Promise<BatchTranscriptionJob | null> {
+    try {
+      const response = await fetch(transcriptionHttpUrl(BATCH_ENDPOINT), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+        body: JSON.stringify({
+          recording_path: recordingPath,
+          call_id: options.callId,
+          diarization: options.diarization ?? true,
+        }),
+      })
+
+      if (!response.ok) {
+        console.error('Error starting batch transcription:', response.status, await response.text())
+        return null
+      }
+
+      return await response.json()
+    } catch (error) {
+      console.error('Error starting batch transcription:', error)
+      return null
+    }
+  }
+
+  // Transcribe a file without storing it
+  static async startFromFile(file: Blob, options: BatchTranscriptionOptions = {}): Promise<BatchTranscriptionJob | null> {
+    try {
+      const params = new URLSearchParams({ diarization: String(options.diarization ?? true) })
+      if (options.callId) params.set('call_id', options.callId)
+
+      const response = await fetch(transcriptionHttpUrl(`${BATCH_ENDPOINT}/upload?${params}`), {
+        method: 'POST',
+        headers: { 'Content-Type': file.type || 'application/octet-stream', ...(await authHeaders()) },
+        body: file,
+      })
+
+      if (!response.ok) {
+        console.error('Error uploading file for batch transcription:', response.status, await response.text())
+        return null
+      }
+
+      return await response.json()
+    } catch (error) {
+      console.error('Error uploading file for batch transcription:', error)
+      return null
+    }
+  }
+
+  static async getJob(jobId: string): Promise<BatchTranscriptionJob | null> {
+    try {
+      const response = await fetch(transcriptionHttpUrl(`${BATCH_ENDPOINT}/${jobId}`), {
+        headers: await authHeaders(),
+      })
+
+      if (!response.ok) {
+        console.error('Error fetching batch transcription job:', response.status)
+        return null
+      }
+
+      return await response.json()
+    } catch (error) {
+      console.error('Error fetching batch transcription job:', error)
+      return null
+    }
+  }
+
+  // Poll until the job completes or fails; returns null if the job cannot be read
+  static async waitForJob(jobId: string, onUpdate?: (job: BatchTranscriptionJob) => void): Promise<BatchTranscriptionJob | null> {
+    while (true) {
+      const job = await this.getJob(jobId)
+      if (!job) return null
+
+      onUpdate?.(job)
+      if (job.status === 'completed' || job.status === 'failed') return job
+
+      await wait(POLL_INTERVAL_MS)
+    }
+  }
+
+  // Add a completed job's transcript entries to the call and mark it completed
+  static async saveToCall(callId: string, job: BatchTranscriptionJob): Promise<boolean> {
+    if (job.status !== 'completed' || !job.result) {
+      console.error('Batch transcription job has no result to save:', job.job_id, job.status)
+      return false
+    }
+
+    const saved = await CallManager.appendTranscriptEntries(callId, job.result.entries)
+    if (!saved.ok) {
+      console.error('Failed to save batch transcript:', saved.error.kind, saved.error.message)
+      return false
+    }
+
+    if (job.result.duration !== null) {
+      // Call durations are stored in minutes
+      const completed = await CallManager.completeCall(callId, Math.ceil(job.result.duration / 60))
+      if (!completed.ok) console.error('Failed to complete imported call:', completed.error.message)
+    }
+    return true
+  }
+
+  // Transcribe an existing call from its stored recording, adding the entries to its transcript
+  static async transcribeCallRecording(
+    callId: string,
+    recordingPath: string,
+    onProgress?: (progress: BatchImportProgress) => void
+  ): Promise<boolean> {
+    const job = await this.startFromRecording(recordingPath, { callId })
+    if (!job) return false
+
+    const finished = await this.waitForJob(job.job_id, (update) => onProgress?.(toImportProgress(update, callId)))
+    if (!finished || finished.status === 'failed') {
+      console.error('Batch transcription failed:', finished?.error)
+      return false
+    }
+
+    onProgress?.({ stage: 'saving', progress: JOB_PROGRESS_END, callId })
+    const saved = await this.saveToCall(callId, finished)
+    if (saved) onProgress?.({ stage: 'completed', progress: 100, callId })
+    return saved
+  }
+
+  // Import a call recorded outside the app: create the call, store the recording, then transcribe it
+  static async importRecording(
+    file: File,
+    userId: string,
+    onProgress?: (progress: BatchImportProgress) => void
+  ): Promise<Call | null> {
+    onProgress?.({ stage: 'creating_call', progress: 0 })
+    const created = await CallManager.createCall({
+      title: file.name.replace(/\.[^.]+$/, '') || 'Imported call',
+      company: '',
+      meetingAgenda: [],
+      attendeeEmails: [],
+    }, userId)
+    if (!created.ok) {
+      console.error('Failed to create imported call:', created.error.kind, created.error.message)
+      return null
+    }
+    const call = created.value
+
+    onProgress?.({ stage: 'uploading', progress: 5, callId: call.call_id })
+    const recordingPath = await AudioUploadService.uploadAudioFile(file, call.call_id, userId)
+    if (!recordingPath) return null
+    const recorded = await CallManager.updateCallRecording(call.call_id, recordingPath)
+    if (!recorded.ok) console.error('Failed to save imported call recording path:', recorded.error.message)
+    void AudioUploadService.processCallRecording(call.call_id, [recordingPath])
+
+    const transcribed = await this.transcribeCallRecording(call.call_id, recordingPath, onProgress)
+    return transcribed ? call : null
+  }
+}
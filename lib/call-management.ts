@@ -1,653 +1,370 @@
 import { supabase } from './supabase'
-import { Call, CreateCallData, UpdateCallData, TranscriptData, TranscriptEntry, TranscriptPermissions } from './supabase'
+import {
+  Call,
+  CallDocument,
+  CallLabel,
+  CallMember,
+  CallRole,
+  CreateCallData,
+  DiscoData,
+  GenieContent,
+  PostCallActions,
+  SharedCall,
+  TranscriptData,
+  TranscriptEntry,
+} from './supabase'
+import { CallRepository, CallRepositoryError, CallResult, SupabaseCallStore, toStoreError } from './call-repository'
+import { sharedCallRowSchema, callWithOwnerSchema, describeIssues } from './call-schemas'
+import { PostCallJobService } from './post-call-jobs'
+import { FrameworkSettingsService } from './frameworks'
+import { OrganisationService } from './organisations'
+import { TranscriptRevisionService } from './transcript-revisions'
+
+// SQLSTATE raised by update_transcript_entry
+// (database/migrations/0007_add_transcript_entry_functions.up.sql)
+const TRANSCRIPT_CONFLICT_CODE = 'PT409'
+
+/**
+ * An entry was changed by someone else since it was loaded. `currentEntry` is
+ * what is stored now (null if it could not be read); `attemptedText` is the
+ * text that was not saved. Retry with `currentEntry.version` to overwrite.
+ */
+export class TranscriptConflictError extends CallRepositoryError {
+  constructor(
+    public readonly entryId: string,
+    public readonly currentEntry: TranscriptEntry | null,
+    public readonly attemptedText: string
+  ) {
+    super('conflict', `Transcript entry ${entryId} was changed by someone else`, currentEntry)
+    this.name = 'TranscriptConflictError'
+  }
+}
 
-export class CallManager {
-  // Create a new call with transcript permissions
-  static async createCall(callData: CreateCallData, userId: string): Promise<Call | null> {
-    try {
-      // Create initial transcript structure
-      const initialTranscript: TranscriptData = {
-        entries: [],
-        permissions: {
-          admin: callData.transcriptAdminEmail,
-          editors: [callData.transcriptAdminEmail],
-          viewers: []
-        },
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      }
+export const isTranscriptConflict = (error: unknown): error is TranscriptConflictError =>
+  error instanceof TranscriptConflictError
+
+// What to tell the inviter when CallManager.setCallMember fails
+export function inviteErrorMessage(error: CallRepositoryError, inviteBy: 'email' | 'username' = 'email'): string {
+  switch (error.kind) {
+    case 'not_found':
+      return inviteBy === 'username' ? 'No user has that username' : 'No user has that email'
+    case 'forbidden':
+      return 'Only the call owner and admins can add members'
+    default:
+      return 'Failed to add member'
+  }
+}
 
-      const { data, error } = await supabase
-        .from('calls')
-        .insert([{
-          owner_id: userId,
-          title: callData.title,
-          company: callData.company,
-          call_date: new Date().toISOString().split('T')[0],
-          duration: 0, // will be updated when call ends
-          attendees: callData.attendeeEmails.length,
-          attendee_emails: callData.attendeeEmails,
-          call_link: callData.callLink ?? null,
-          bot_id: callData.botId ?? null,
-          meeting_id: callData.meetingId ?? null,
-          labels: [],
-          members_emails: callData.attendeeEmails || [],
-          members_uids: [],
-          documents: [],
-          meeting_agenda: callData.meetingAgenda,
-          meeting_description: callData.meetingDescription,
-          status: 'active',
-          transcript: initialTranscript,
-          post_call_actions: {},
-          genie_content: [],
-          post_call_completion: 0,
-          tasks_completed: 0,
-          total_tasks: 0,
-          pending_tasks: 0,
-          assistant_id: callData.assistantId ?? null,
-          thread_id: callData.threadId ?? null
-        }])
-        .select()
-        .single()
-      
-      if (error) {
-        console.error('Error creating call:', error)
-        return null
-      }
-      
-      return data
-    } catch (error) {
-      console.error('Error creating call:', error)
-      return null
-    }
+const CALL_ROLE_RANK: Record<CallRole, number> = { admin: 0, editor: 1, viewer: 2 }
+
+function parseConflictEntry(details: string | undefined): TranscriptEntry | null {
+  try {
+    return details ? JSON.parse(details) : null
+  } catch {
+    return null
   }
+}
 
-  // Create a new call with a specific call_id (for joining from upcoming calls)
-  static async createCallWithId(callData: CreateCallData, userId: string, callId: string): Promise<Call | null> {
-    try {
-      console.log('🔄 createCallWithId called with callId:', callId);
-      
-      // First check if a call with this ID already exists
-      const { data: existingCall, error: fetchError } = await supabase
-        .from('calls')
-        .select('*')
-        .eq('call_id', callId)
-        .single()
-      
-      if (existingCall && !fetchError) {
-        console.log('✅ Call with ID already exists, returning existing call:', callId);
-        return existingCall;
-      }
-      
-      console.log('🆕 Creating new call with ID:', callId);
-      
-      // Create initial transcript structure
-      const initialTranscript: TranscriptData = {
+// Log a failed query CallManager makes itself and report it in the repository's result shape
+function queryFailed<T>(action: string, error: unknown): CallResult<T> {
+  console.error(`Error ${action}:`, error)
+  if (error instanceof CallRepositoryError) return { ok: false, error }
+  if (error && typeof error === 'object' && 'message' in error && typeof error.message === 'string') {
+    return { ok: false, error: toStoreError(error as { code?: string; message: string }) }
+  }
+  return { ok: false, error: new CallRepositoryError('storage', `Failed ${action}`, error) }
+}
+
+// Writes to calls go through the typed repository (lib/call-repository.ts)
+export const callRepository = new CallRepository(new SupabaseCallStore(supabase))
+
+export class CallManager {
+  // Create a new call; the framework and team default to those of the owner's organisation
+  static async createCall(callData: CreateCallData, userId: string, callId?: string): Promise<CallResult<Call>> {
+    const now = new Date().toISOString()
+    return callRepository.create({
+      call_id: callId,
+      owner_id: userId,
+      title: callData.title,
+      company: callData.company,
+      call_date: now.split('T')[0],
+      attendee_emails: callData.attendeeEmails,
+      meeting_agenda: callData.meetingAgenda,
+      meeting_description: callData.meetingDescription,
+      call_link: callData.callLink ?? null,
+      bot_id: callData.botId ?? null,
+      meeting_id: callData.meetingId ?? null,
+      assistant_id: callData.assistantId ?? null,
+      thread_id: callData.threadId ?? null,
+      qualification_framework: callData.framework ?? await FrameworkSettingsService.getDefaultFrameworkForUser(userId),
+      team_id: callData.teamId ?? await OrganisationService.getDefaultTeamId(userId),
+      transcript: {
         entries: [],
-        permissions: {
-          admin: callData.transcriptAdminEmail,
-          editors: [callData.transcriptAdminEmail],
-          viewers: []
-        },
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
+        created_at: now,
+        updated_at: now
       }
+    })
+  }
 
-      const { data, error } = await supabase
-        .from('calls')
-        .insert([{
-          call_id: callId, // Use the specific call_id
-          owner_id: userId,
-          title: callData.title,
-          company: callData.company,
-          call_date: new Date().toISOString().split('T')[0],
-          duration: 0, // will be updated when call ends
-          attendees: callData.attendeeEmails.length,
-          attendee_emails: callData.attendeeEmails,
-          call_link: callData.callLink ?? null,
-          bot_id: callData.botId ?? null,
-          meeting_id: callData.meetingId ?? null,
-          labels: [],
-          members_emails: callData.attendeeEmails || [],
-          members_uids: [],
-          documents: [],
-          meeting_agenda: callData.meetingAgenda,
-          meeting_description: callData.meetingDescription,
-          status: 'active',
-          transcript: initialTranscript,
-          post_call_actions: {},
-          genie_content: [],
-          post_call_completion: 0,
-          tasks_completed: 0,
-          total_tasks: 0,
-          pending_tasks: 0,
-          assistant_id: callData.assistantId ?? null,
-          thread_id: callData.threadId ?? null
-        }])
-        .select()
-        .single()
-      
-      if (error) {
-        console.error('❌ Error creating call with specific ID:', error)
-        console.error('Call ID that failed:', callId)
-        console.error('Error details:', error)
-        return null
-      }
-      
-      console.log('✅ Successfully created call with ID:', callId);
-      return data
-    } catch (error) {
-      console.error('❌ Exception in createCallWithId:', error)
-      return null
-    }
+  // Create a new call with a specific call_id (for joining from upcoming calls); a call that already
+  // has the id is returned as is
+  static async createCallWithId(callData: CreateCallData, userId: string, callId: string): Promise<CallResult<Call>> {
+    const existing = await callRepository.get(callId)
+    if (existing.ok) return existing
+    return CallManager.createCall(callData, userId, callId)
   }
 
-  // Replace the entire transcript entries array
-  static async updateCallTranscript(callId: string, entries: any[]): Promise<boolean> {
-    try {
-      // Check if entries are already formatted (with order, speaker, text) or need formatting
-      const isFormattedEntries = entries.length > 0 && entries[0].hasOwnProperty('order');
-      
-      let finalTranscriptData;
-      
-      if (isFormattedEntries) {
-        // Use the formatted entries directly (from stopCall)
-        finalTranscriptData = {
-          entries: entries,
-          permissions: { admin: '', editors: [], viewers: [] },
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString()
-        };
-        console.log('\ud83d\udcc4 Using formatted transcript entries:', entries.length);
-      } else {
-        // Handle legacy TranscriptEntry format
-        const { data: call, error: fetchError } = await supabase
-          .from('calls')
-          .select('transcript')
-          .eq('call_id', callId)
-          .single()
-
-        if (fetchError || !call) {
-          console.error('Error fetching call for transcript update:', fetchError)
-          return false
-        }
-
-        const transcript: TranscriptData = call.transcript || {
-          entries: [],
-          permissions: { admin: '', editors: [], viewers: [] },
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString()
-        }
-
-        transcript.entries = entries
-        transcript.updated_at = new Date().toISOString()
-        finalTranscriptData = transcript;
-      }
+  // Add entries the call does not have yet (matched by id); stored entries are left as they are
+  static async appendTranscriptEntries(callId: string, entries: TranscriptEntry[]): Promise<CallResult<number>> {
+    return callRepository.appendTranscriptEntries(callId, entries)
+  }
 
-      const { error } = await supabase
-        .from('calls')
-        .update({ transcript: finalTranscriptData })
-        .eq('call_id', callId)
+  // Set assistant and thread IDs after external creation
+  static async setAssistantAndThreadIds(callId: string, assistantId: string, threadId: string): Promise<CallResult<Call>> {
+    return callRepository.updateAssistant(callId, assistantId, threadId)
+  }
 
-      if (error) {
-        console.error('Error updating call transcript:', error)
-        return false
-      }
-      return true
-    } catch (error) {
-      console.error('Error updating call transcript:', error)
-      return false
+  // Add transcript entry; appended atomically, so concurrent writers cannot drop each other's entries
+  static async addTranscriptEntry(callId: string, entry: TranscriptEntry): Promise<CallResult<TranscriptEntry>> {
+    const newEntry: TranscriptEntry = {
+      ...entry,
+      id: `entry_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      edited_at: new Date().toISOString()
     }
+
+    const appended = await callRepository.appendTranscriptEntries(callId, [newEntry])
+    return appended.ok ? { ok: true, value: newEntry } : appended
   }
 
-  // Set assistant and thread IDs after external creation
-  static async setAssistantAndThreadIds(callId: string, assistantId: string, threadId: string): Promise<boolean> {
+  /**
+   * Update transcript entry if it is still at `expectedVersion` (the entry's
+   * `version` when the editor loaded it) and return it as stored. Fails with a
+   * TranscriptConflictError when someone else changed it first. The database
+   * keeps the previous text as a revision (lib/transcript-revisions.ts).
+   */
+  static async updateTranscriptEntry(
+    callId: string,
+    entryId: string,
+    updatedText: string,
+    editorEmail: string,
+    expectedVersion: number,
+    revertedRevisionId?: string
+  ): Promise<CallResult<TranscriptEntry>> {
     try {
-      const { error } = await supabase
-        .from('calls')
-        .update({ assistant_id: assistantId, thread_id: threadId })
-        .eq('call_id', callId)
-
-      if (error) {
-        console.error('Error setting assistant/thread IDs:', error)
-        return false
-      }
-      return true
+      const { data, error } = await supabase.rpc('update_transcript_entry', {
+        p_call_id: callId,
+        p_entry_id: entryId,
+        p_text: updatedText,
+        p_expected_version: expectedVersion,
+        p_editor_email: editorEmail,
+        p_reverted_revision_id: revertedRevisionId ?? null
+      })
+
+      if (error?.code === TRANSCRIPT_CONFLICT_CODE) {
+        return { ok: false, error: new TranscriptConflictError(entryId, parseConflictEntry(error.details), updatedText) }
+      }
+      if (error) return queryFailed('updating transcript entry', error)
+      return { ok: true, value: data as TranscriptEntry }
     } catch (error) {
-      console.error('Error setting assistant/thread IDs:', error)
-      return false
+      return queryFailed('updating transcript entry', error)
     }
   }
 
-  // Add transcript entry
-  static async addTranscriptEntry(callId: string, entry: TranscriptEntry): Promise<boolean> {
-    try {
-      // Get current call
-      const { data: call, error: fetchError } = await supabase
-        .from('calls')
-        .select('transcript')
-        .eq('call_id', callId)
-        .single()
-      
-      if (fetchError || !call) {
-        console.error('Error fetching call:', fetchError)
-        return false
-      }
-
-      const transcript: TranscriptData = call.transcript
-      const newEntry: TranscriptEntry = {
-        ...entry,
-        id: `entry_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        edited_at: new Date().toISOString()
-      }
-
-      transcript.entries.push(newEntry)
-      transcript.updated_at = new Date().toISOString()
-
-      const { error } = await supabase
-        .from('calls')
-        .update({ transcript: transcript })
-        .eq('call_id', callId)
-      
-      if (error) {
-        console.error('Error updating transcript:', error)
-        return false
-      }
-      
-      return true
-    } catch (error) {
-      console.error('Error adding transcript entry:', error)
-      return false
+  // Undo a revision and every later edit of the entry: restore the text it replaced
+  static async revertTranscriptEntry(callId: string, revisionId: string, editorEmail: string, expectedVersion: number): Promise<CallResult<TranscriptEntry>> {
+    const revision = await TranscriptRevisionService.getRevision(revisionId)
+    if (!revision || revision.call_id !== callId) {
+      return queryFailed('reverting transcript entry', new CallRepositoryError('not_found', `Revision ${revisionId} not found for call ${callId}`))
     }
+    return CallManager.updateTranscriptEntry(callId, revision.entry_id, revision.previous_text ?? '', editorEmail, expectedVersion, revisionId)
   }
 
-  // Update transcript entry
-  static async updateTranscriptEntry(callId: string, entryId: string, updatedText: string, editorEmail: string): Promise<boolean> {
+  // The signed-in user's role on a call: 'owner', a member role, or null without access
+  static async getCallRole(callId: string): Promise<CallResult<'owner' | CallRole | null>> {
     try {
-      // Get current call
-      const { data: call, error: fetchError } = await supabase
-        .from('calls')
-        .select('transcript')
-        .eq('call_id', callId)
-        .single()
-      
-      if (fetchError || !call) {
-        console.error('Error fetching call:', fetchError)
-        return false
-      }
-
-      const transcript: TranscriptData = call.transcript
-      
-      // Find and update the entry
-      const entryIndex = transcript.entries.findIndex(entry => entry.id === entryId)
-      if (entryIndex === -1) {
-        console.error('Entry not found')
-        return false
-      }
-
-      transcript.entries[entryIndex] = {
-        ...transcript.entries[entryIndex],
-        text: updatedText,
-        edited_by: editorEmail,
-        edited_at: new Date().toISOString(),
-        is_edited: true
-      }
-
-      transcript.updated_at = new Date().toISOString()
-
-      const { error } = await supabase
-        .from('calls')
-        .update({ transcript: transcript })
-        .eq('call_id', callId)
-      
-      if (error) {
-        console.error('Error updating transcript entry:', error)
-        return false
-      }
-      
-      return true
+      const { data, error } = await supabase.rpc('call_role', { p_call_id: callId })
+      if (error) return queryFailed('fetching call role', error)
+      return { ok: true, value: data ?? null }
     } catch (error) {
-      console.error('Error updating transcript entry:', error)
-      return false
+      return queryFailed('fetching call role', error)
     }
   }
 
-  // Update transcript permissions
-  static async updateTranscriptPermissions(callId: string, permissions: TranscriptPermissions): Promise<boolean> {
+  // Members of a call, admins first; the owner is implicit and not listed
+  static async getCallMembers(callId: string): Promise<CallResult<CallMember[]>> {
     try {
-      // Get current call
-      const { data: call, error: fetchError } = await supabase
-        .from('calls')
-        .select('transcript')
+      const { data, error } = await supabase
+        .from('call_members')
+        .select('*')
         .eq('call_id', callId)
-        .single()
-      
-      if (fetchError || !call) {
-        console.error('Error fetching call:', fetchError)
-        return false
-      }
-
-      const transcript: TranscriptData = call.transcript
-      transcript.permissions = permissions
-      transcript.updated_at = new Date().toISOString()
+        .order('created_at', { ascending: true })
 
-      const { error } = await supabase
-        .from('calls')
-        .update({ transcript: transcript })
-        .eq('call_id', callId)
-      
-      if (error) {
-        console.error('Error updating transcript permissions:', error)
-        return false
-      }
-      
-      return true
+      if (error) return queryFailed('fetching call members', error)
+      const members = (data || []).sort((a: CallMember, b: CallMember) => CALL_ROLE_RANK[a.role] - CALL_ROLE_RANK[b.role])
+      return { ok: true, value: members }
     } catch (error) {
-      console.error('Error updating transcript permissions:', error)
-      return false
+      return queryFailed('fetching call members', error)
     }
   }
 
-  // Check if user has edit permissions for transcript
-  static async canEditTranscript(callId: string, userEmail: string): Promise<boolean> {
+  // Add a member or change their role; only the owner and admins may. Invitees are given by email or
+  // username; an email without an account yet is kept as a pending invite (user_id null). Fails with
+  // `not_found` for an unknown username and `forbidden` when the user may not manage members.
+  static async setCallMember(
+    callId: string,
+    invitee: string,
+    role: CallRole,
+    inviteBy: 'email' | 'username' = 'email'
+  ): Promise<CallResult<CallMember>> {
     try {
-      const { data: call, error } = await supabase
-        .from('calls')
-        .select('transcript, owner_id')
-        .eq('call_id', callId)
-        .single()
-      
-      if (error || !call) {
-        console.error('Error fetching call:', error)
-        return false
-      }
-
-      const transcript: TranscriptData = call.transcript
-      const permissions = transcript.permissions
-
-      // Check if user is the call owner
-      if (call.owner_id === userEmail) {
-        return true
-      }
-
-      // Check if user is the admin
-      if (permissions.admin === userEmail) {
-        return true
-      }
-
-      // Check if user is in editors list
-      if (permissions.editors.includes(userEmail)) {
-        return true
-      }
-
-      return false
+      const { data, error } = await supabase.rpc('invite_call_member', {
+        p_call_id: callId,
+        p_invitee: invitee,
+        p_invite_by: inviteBy,
+        p_role: role
+      })
+
+      if (error) return queryFailed('saving call member', error)
+      return { ok: true, value: data }
     } catch (error) {
-      console.error('Error checking edit permissions:', error)
-      return false
+      return queryFailed('saving call member', error)
     }
   }
 
-  // Get transcript with permissions check
-  static async getTranscript(callId: string, userEmail: string): Promise<TranscriptData | null> {
+  static async removeCallMember(callId: string, email: string): Promise<CallResult<void>> {
     try {
-      const { data: call, error } = await supabase
-        .from('calls')
-        .select('transcript, owner_id')
+      const { error } = await supabase
+        .from('call_members')
+        .delete()
         .eq('call_id', callId)
-        .single()
-      
-      if (error || !call) {
-        console.error('Error fetching call:', error)
-        return null
-      }
-
-      const transcript: TranscriptData = call.transcript
-      const permissions = transcript.permissions
+        .eq('email', email.trim().toLowerCase())
 
-      // Check if user has access (owner, admin, editor, or viewer)
-      const hasAccess = 
-        call.owner_id === userEmail ||
-        permissions.admin === userEmail ||
-        permissions.editors.includes(userEmail) ||
-        permissions.viewers.includes(userEmail)
-
-      if (!hasAccess) {
-        console.error('User does not have access to this transcript')
-        return null
-      }
-
-      return transcript
+      if (error) return queryFailed('removing call member', error)
+      return { ok: true, value: undefined }
     } catch (error) {
-      console.error('Error getting transcript:', error)
-      return null
+      return queryFailed('removing call member', error)
     }
   }
 
+  // Check if the signed-in user may edit the call's transcript (owner, admin or editor)
+  static async canEditTranscript(callId: string): Promise<boolean> {
+    const role = await CallManager.getCallRole(callId)
+    return role.ok && (role.value === 'owner' || role.value === 'admin' || role.value === 'editor')
+  }
+
+  // Get transcript; RLS returns nothing when the signed-in user is not a member (not_found)
+  static async getTranscript(callId: string): Promise<CallResult<TranscriptData>> {
+    const call = await callRepository.get(callId)
+    return call.ok ? { ok: true, value: call.value.transcript } : call
+  }
+
   // Update call with AI summary
-  static async updateCallSummary(callId: string, summary: string): Promise<boolean> {
-    console.log('🔄 ===== UPDATING CALL SUMMARY =====');
-    console.log('📞 Call ID:', callId);
-    console.log('📝 Summary Length:', summary?.length || 0, 'characters');
-    console.log('�� Summary Preview:', summary?.substring(0, 100) + (summary?.length > 100 ? '...' : ''));
-    
-    try {
-      console.log('🚀 Sending Supabase update request...');
-      console.log('🎯 Table: calls');
-      console.log('🔍 Filter: call_id =', callId);
-      console.log('�� Update: ai_summary =', summary?.substring(0, 50) + '...');
-      
-      const { error } = await supabase
-        .from('calls')
-        .update({ ai_summary: summary })
-        .eq('call_id', callId)
-      
-      console.log('📡 Supabase response received');
-      
-      if (error) {
-        console.error('❌ Supabase update error:', error);
-        console.error('❌ Error details:', JSON.stringify(error, null, 2));
-        return false
-      }
-      
-      console.log('✅ AI Summary successfully updated in database');
-      console.log('==========================================');
-      return true
-      
-    } catch (error) {
-      console.error('💥 Exception during summary update:', error);
-      console.error('💥 Error type:', typeof error);
-      console.error('💥 Error message:', error instanceof Error ? error.message : 'Unknown error');
-      console.error('==========================================');
-      return false
-    }
+  static async updateCallSummary(callId: string, summary: string): Promise<CallResult<Call>> {
+    return callRepository.updateSummary(callId, summary)
   }
 
-  // Update call with DISCO data
-  static async updateCallDisco(callId: string, discoData: any): Promise<boolean> {
-    try {
-      const { error } = await supabase
-        .from('calls')
-        .update({ disco_data: discoData })
-        .eq('call_id', callId)
-      
-      if (error) {
-        console.error('Error updating DISCO data:', error)
-        return false
-      }
-      
-      return true
-    } catch (error) {
-      console.error('Error updating DISCO data:', error)
-      return false
-    }
+  // Update call with DISCO data (insights with their transcript sources, confidence and status)
+  static async updateCallDisco(callId: string, discoData: DiscoData): Promise<CallResult<Call>> {
+    return callRepository.updateDisco(callId, discoData)
   }
 
   // Update call with post-call actions
-  static async updateCallActions(callId: string, actions: Record<string, 'completed' | 'inprogress' | 'unfinished'>): Promise<boolean> {
-    try {
-      const { error } = await supabase
-        .from('calls')
-        .update({ post_call_actions: actions })
-        .eq('call_id', callId)
-      
-      if (error) {
-        console.error('Error updating actions:', error)
-        return false
-      }
-      
-      return true
-    } catch (error) {
-      console.error('Error updating actions:', error)
-      return false
-    }
+  static async updateCallActions(callId: string, actions: PostCallActions): Promise<CallResult<Call>> {
+    return callRepository.updateActions(callId, actions)
   }
 
   // Update labels on a call
-  static async updateCallLabels(callId: string, labels: Array<{ text: string; color: string }>): Promise<boolean> {
-    try {
-      const { error } = await supabase
-        .from('calls')
-        .update({ labels })
-        .eq('call_id', callId)
+  static async updateCallLabels(callId: string, labels: CallLabel[]): Promise<CallResult<Call>> {
+    return callRepository.updateLabels(callId, labels)
+  }
 
-      if (error) {
-        console.error('Error updating call labels:', error)
-        return false
-      }
-      return true
-    } catch (error) {
-      console.error('Error updating call labels:', error)
-      return false
-    }
+  // Update call with genie content (live analysis and Genie questions and answers)
+  static async updateCallGenie(callId: string, genieContent: GenieContent): Promise<CallResult<Call>> {
+    return callRepository.updateGenie(callId, genieContent)
   }
 
-  // Update call with genie content
-  static async updateCallGenie(callId: string, genieContent: any): Promise<boolean> {
-    try {
-      // Handle both old format (string[]) and new format (split object)
-      let finalGenieData;
-      
-      if (Array.isArray(genieContent)) {
-        // Legacy format - convert to new structure
-        finalGenieData = {
-          live_analysis: genieContent.map((content, index) => ({
-            content: content,
-            type: 'live_analysis',
-            order: index + 1
-          })),
-          ai_chat_qna: []
-        };
-        console.log('\ud83e\uddde Converting legacy genie format to split structure');
-      } else {
-        // New split format
-        finalGenieData = genieContent;
-        console.log('\ud83e\uddde Using new split genie format');
-      }
-      
-      console.log('\ud83e\uddde Final Genie data for storage:', JSON.stringify(finalGenieData, null, 2));
-      
-      const { error } = await supabase
-        .from('calls')
-        .update({ genie_content: finalGenieData })
-        .eq('call_id', callId)
-      
-      if (error) {
-        console.error('Error updating genie content:', error)
-        return false
-      }
-      
-      return true
-    } catch (error) {
-      console.error('Error updating genie content:', error)
-      return false
-    }
+  // Update the documents attached to a call
+  static async updateCallDocuments(callId: string, documents: CallDocument[]): Promise<CallResult<Call>> {
+    return callRepository.updateDocuments(callId, documents)
   }
 
   // Update call with voice recording path
-  static async updateCallRecording(callId: string, recordingPath: string): Promise<boolean> {
-    try {
-      const { error } = await supabase
-        .from('calls')
-        .update({ voice_recording_path: recordingPath })
-        .eq('call_id', callId)
-      
-      if (error) {
-        console.error('Error updating recording path:', error)
-        return false
-      }
-      
-      return true
-    } catch (error) {
-      console.error('Error updating recording path:', error)
-      return false
-    }
+  static async updateCallRecording(callId: string, recordingPath: string): Promise<CallResult<Call>> {
+    return callRepository.updateRecording(callId, recordingPath)
   }
 
-  // Complete call
-  static async completeCall(callId: string, duration: number): Promise<boolean> {
-    try {
-      const { error } = await supabase
-        .from('calls')
-        .update({ 
-          status: 'completed',
-          duration: duration
-        })
-        .eq('call_id', callId)
-      
-      if (error) {
-        console.error('Error completing call:', error)
-        return false
-      }
-      
-      return true
-    } catch (error) {
-      console.error('Error completing call:', error)
-      return false
-    }
+  // Complete call and queue its post-call processing (summary, post-call steps)
+  static async completeCall(callId: string, duration: number): Promise<CallResult<Call>> {
+    const result = await callRepository.complete(callId, duration)
+    // The call is complete either way; a failed enqueue can be retried from call history
+    if (result.ok) await PostCallJobService.enqueue(callId, result.value.owner_id)
+    return result
   }
 
-  // Get current active call for a user
-  static async getCurrentCall(userId: string): Promise<Call | null> {
+  // Get current active call for a user; null when there is none
+  static async getCurrentCall(userId: string): Promise<CallResult<Call | null>> {
+    const calls = await callRepository.listByOwner(userId, 'active')
+    return calls.ok ? { ok: true, value: calls.value[0] ?? null } : calls
+  }
+
+  // Get user's calls, newest first
+  static async getUserCalls(userId: string): Promise<CallResult<Call[]>> {
+    return callRepository.listByOwner(userId)
+  }
+
+  // Calls other people have shared with the user, newest first
+  static async getSharedCalls(userId: string): Promise<CallResult<SharedCall[]>> {
     try {
       const { data, error } = await supabase
-        .from('calls')
-        .select('*')
-        .eq('owner_id', userId)
-        .eq('status', 'active')
-        .order('created_at', { ascending: false })
-        .limit(1)
-        .single()
-      
-      if (error) {
-        console.error('Error getting current call:', error)
-        return null
+        .from('call_members')
+        .select('role, call:calls(*, owner:user_profiles(full_name, email))')
+        .eq('user_id', userId)
+
+      if (error) return queryFailed('fetching shared calls', error)
+
+      const rows = sharedCallRowSchema.array().safeParse(data || [])
+      if (!rows.success) {
+        return queryFailed('fetching shared calls', new CallRepositoryError('invalid', `Shared call does not match its schema: ${describeIssues(rows.error)}`))
       }
-      
-      return data
+
+      const sharedCalls = rows.data
+        .filter((row) => row.call && row.call.call.owner_id !== userId)
+        .map(({ role, call }) => ({ ...call!, role }))
+        .sort((a, b) => b.call.created_at.localeCompare(a.call.created_at))
+      return { ok: true, value: sharedCalls }
     } catch (error) {
-      console.error('Error getting current call:', error)
-      return null
+      return queryFailed('fetching shared calls', error)
     }
   }
 
-  // Get user's calls
-  static async getUserCalls(userId: string): Promise<Call[]> {
+  // Calls of teams the user manages (or of every team, for organisation admins), other than their
+  // own and those shared with them directly, newest first
+  static async getTeamCalls(userId: string): Promise<CallResult<SharedCall[]>> {
     try {
-      const { data, error } = await supabase
-        .from('calls')
-        .select('*')
-        .eq('owner_id', userId)
-        .order('created_at', { ascending: false })
-      
-      if (error) {
-        console.error('Error fetching calls:', error)
-        return []
+      const [{ data, error }, { data: memberships, error: membershipsError }] = await Promise.all([
+        supabase
+          .from('calls')
+          .select('*, owner:user_profiles(full_name, email)')
+          .neq('owner_id', userId)
+          .not('team_id', 'is', null)
+          .order('created_at', { ascending: false }),
+        supabase.from('call_members').select('call_id').eq('user_id', userId)
+      ])
+
+      if (error || membershipsError) return queryFailed('fetching team calls', error || membershipsError)
+
+      const rows = callWithOwnerSchema.array().safeParse(data || [])
+      if (!rows.success) {
+        return queryFailed('fetching team calls', new CallRepositoryError('invalid', `Team call does not match its schema: ${describeIssues(rows.error)}`))
       }
-      
-      return data || []
+
+      const sharedCallIds = new Set((memberships || []).map((row: { call_id: string }) => row.call_id))
+      const teamCalls = rows.data
+        .filter(({ call }) => !sharedCallIds.has(call.call_id))
+        .map((row) => ({ ...row, role: 'viewer' as CallRole }))
+      return { ok: true, value: teamCalls }
     } catch (error) {
-      console.error('Error fetching calls:', error)
-      return []
+      return queryFailed('fetching team calls', error)
     }
   }
 }
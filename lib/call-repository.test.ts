@@ -0,0 +1,135 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { CallRepository, InMemoryCallStore, NewCall } from './call-repository'
+import type { TranscriptEntry } from './supabase'
+
+// Nothing here talks to Supabase; lib/frameworks.ts imports the shared client, which needs a
+// WebSocket implementation to be created outside the browser
+vi.mock('./supabase', () => ({ supabase: {} }))
+
+const OWNER_ID = 'user-1'
+
+const newCall = (overrides: Partial<NewCall> = {}): NewCall => ({
+  owner_id: OWNER_ID,
+  title: 'Discovery call',
+  company: 'Acme',
+  call_date: '2026-10-19',
+  attendee_emails: ['buyer@acme.test'],
+  meeting_agenda: ['Intro'],
+  qualification_framework: 'disco',
+  transcript: {
+    entries: [],
+    created_at: '2026-10-19T09:00:00.000Z',
+    updated_at: '2026-10-19T09:00:00.000Z',
+  },
+  ...overrides,
+})
+
+const entry = (id: string, text: string): TranscriptEntry => ({
+  id,
+  timestamp: '2026-10-19T09:01:00.000Z',
+  speaker: 'Speaker 1',
+  text,
+})
+
+describe('CallRepository with InMemoryCallStore', () => {
+  let store: InMemoryCallStore
+  let repository: CallRepository
+
+  beforeEach(() => {
+    store = new InMemoryCallStore(() => new Date('2026-10-19T09:00:00.000Z'))
+    repository = new CallRepository(store)
+  })
+
+  it('runs a call from creation to completion', async () => {
+    const created = await repository.create(newCall())
+    expect(created.ok).toBe(true)
+    if (!created.ok) return
+    const callId = created.value.call_id
+    expect(created.value).toMatchObject({ status: 'active', attendees: 1, labels: [], documents: [] })
+
+    const appended = await repository.appendTranscriptEntries(callId, [entry('e1', 'Hello'), entry('e2', 'Hi there')])
+    expect(appended).toEqual({ ok: true, value: 2 })
+
+    const labelled = await repository.updateLabels(callId, [{ text: 'Hot lead', color: 'red' }])
+    expect(labelled.ok && labelled.value.labels).toEqual([{ text: 'Hot lead', color: 'red' }])
+
+    const summarized = await repository.updateSummary(callId, 'Went well')
+    expect(summarized.ok && summarized.value.ai_summary).toBe('Went well')
+
+    const completed = await repository.complete(callId, 30)
+    expect(completed.ok).toBe(true)
+    if (!completed.ok) return
+    expect(completed.value).toMatchObject({ status: 'completed', duration: 30, ai_summary: 'Went well' })
+    expect(completed.value.transcript.entries.map((stored) => stored.text)).toEqual(['Hello', 'Hi there'])
+
+    const active = await repository.listByOwner(OWNER_ID, 'active')
+    const all = await repository.listByOwner(OWNER_ID)
+    expect(active).toEqual({ ok: true, value: [] })
+    expect(all.ok && all.value.map((call) => call.call_id)).toEqual([callId])
+  })
+
+  it('keeps stored entries when appending, adding only unknown ids', async () => {
+    const created = await repository.create(newCall({ transcript: { ...newCall().transcript, entries: [entry('e1', 'Edited text')] } }))
+    if (!created.ok) throw created.error
+    const callId = created.value.call_id
+
+    const appended = await repository.appendTranscriptEntries(callId, [entry('e1', 'Original text'), entry('e2', 'New')])
+    expect(appended).toEqual({ ok: true, value: 1 })
+
+    const read = await repository.get(callId)
+    expect(read.ok && read.value.transcript.entries.map((stored) => [stored.id, stored.text])).toEqual([
+      ['e1', 'Edited text'],
+      ['e2', 'New'],
+    ])
+  })
+
+  it('reports unknown calls as not_found', async () => {
+    const read = await repository.get('missing')
+    const updated = await repository.updateSummary('missing', 'Nothing')
+    const appended = await repository.appendTranscriptEntries('missing', [entry('e1', 'Hello')])
+
+    expect(!read.ok && read.error.kind).toBe('not_found')
+    expect(!updated.ok && updated.error.kind).toBe('not_found')
+    expect(!appended.ok && appended.error.kind).toBe('not_found')
+  })
+
+  it('rejects invalid values without writing them', async () => {
+    const created = await repository.create(newCall())
+    if (!created.ok) throw created.error
+    const callId = created.value.call_id
+
+    const labelled = await repository.updateLabels(callId, [{ text: '', color: 'red' }])
+    const completed = await repository.complete(callId, -1)
+    const appended = await repository.appendTranscriptEntries(callId, [{ ...entry('', 'No id') }])
+
+    expect(!labelled.ok && labelled.error.kind).toBe('invalid')
+    expect(!completed.ok && completed.error.kind).toBe('invalid')
+    expect(!appended.ok && appended.error.kind).toBe('invalid')
+
+    const read = await repository.get(callId)
+    expect(read.ok && read.value).toMatchObject({ status: 'active', labels: [] })
+    expect(read.ok && read.value.transcript.entries).toEqual([])
+  })
+
+  it('does not write to a stored row that fails its schema', async () => {
+    await store.insert({ call_id: 'legacy', owner_id: OWNER_ID, labels: 'not a list' })
+
+    const updated = await repository.updateSummary('legacy', 'Summary')
+    expect(!updated.ok && updated.error.kind).toBe('invalid')
+    expect(await store.get('legacy')).not.toHaveProperty('ai_summary')
+  })
+
+  it('reports a second call with the same id as a conflict', async () => {
+    await repository.create(newCall({ call_id: 'call-a' }))
+    const duplicate = await repository.create(newCall({ call_id: 'call-a' }))
+
+    expect(!duplicate.ok && duplicate.error.kind).toBe('conflict')
+  })
+
+  it('upgrades legacy Genie content when reading', async () => {
+    await store.insert({ call_id: 'old', owner_id: OWNER_ID, genie_content: ['First insight'] })
+
+    const read = await repository.get('old')
+    expect(read.ok && read.value.genie_content.live_analysis.map((item) => item.content)).toEqual(['First insight'])
+  })
+})
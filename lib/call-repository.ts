@@ -0,0 +1,380 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { ZodType, ZodTypeDef } from 'zod'
+import {
+  callRowSchema,
+  describeIssues,
+  discoDataSchema,
+  documentsSchema,
+  genieContentSchema,
+  labelsSchema,
+  postCallActionsSchema,
+  transcriptDataSchema,
+  transcriptEntrySchema,
+} from './call-schemas'
+import type {
+  Call,
+  CallDocument,
+  CallLabel,
+  DiscoData,
+  GenieContent,
+  PostCallActions,
+  TranscriptData,
+  TranscriptEntry,
+} from './supabase'
+import type { FrameworkId } from './frameworks'
+
+export type CallErrorKind = 'not_found' | 'invalid' | 'forbidden' | 'conflict' | 'storage'
+
+export class CallRepositoryError extends Error {
+  constructor(
+    public kind: CallErrorKind,
+    message: string,
+    public details?: unknown
+  ) {
+    super(message)
+    this.name = 'CallRepositoryError'
+  }
+}
+
+export type CallResult<T> = { ok: true; value: T } | { ok: false; error: CallRepositoryError }
+
+const ok = <T>(value: T): CallResult<T> => ({ ok: true, value })
+const fail = <T>(kind: CallErrorKind, message: string, details?: unknown): CallResult<T> => ({
+  ok: false,
+  error: new CallRepositoryError(kind, message, details),
+})
+
+// Everything needed to insert a call; defaults (team, framework) are resolved by the caller
+export interface NewCall {
+  call_id?: string
+  owner_id: string
+  title: string
+  company: string
+  call_date: string
+  attendee_emails: string[]
+  meeting_agenda: string[]
+  meeting_description?: string
+  call_link?: string | null
+  bot_id?: string | null
+  meeting_id?: string | null
+  assistant_id?: string | null
+  thread_id?: string | null
+  qualification_framework: FrameworkId
+  team_id?: string | null
+  transcript: TranscriptData
+  documents?: CallDocument[]
+}
+
+// Columns that can be written after creation
+export type CallPatch = Partial<Omit<Call, 'call_id' | 'owner_id' | 'created_at'>>
+
+/**
+ * Storage behind CallRepository: raw rows in, raw rows out. Implementations
+ * throw CallRepositoryError (with the underlying error as `details`); `get`
+ * and `update` return null for unknown ids.
+ */
+export interface CallStore {
+  insert(row: Record<string, unknown>): Promise<unknown>
+  get(callId: string): Promise<unknown | null>
+  update(callId: string, patch: Record<string, unknown>): Promise<unknown | null>
+  listByOwner(ownerId: string, status?: Call['status']): Promise<unknown[]>
+  // Adds the entries whose id is not stored yet, in one atomic step; returns how many were added
+  appendTranscriptEntries(callId: string, entries: TranscriptEntry[]): Promise<number>
+}
+
+// PostgREST / Postgres error codes worth telling apart; PT4xx are raised by our own functions
+export const toStoreError = (error: { code?: string; message: string }) => {
+  switch (error.code) {
+    case '42501':
+    case 'PT403':
+      return new CallRepositoryError('forbidden', error.message, error)
+    case 'PT404':
+      return new CallRepositoryError('not_found', error.message, error)
+    case 'PT409':
+    case '23505':
+      return new CallRepositoryError('conflict', error.message, error)
+    case '23514':
+    case '22P02':
+      return new CallRepositoryError('invalid', error.message, error)
+    default:
+      return new CallRepositoryError('storage', error.message, error)
+  }
+}
+
+export class SupabaseCallStore implements CallStore {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async insert(row: Record<string, unknown>) {
+    const { data, error } = await this.client.from('calls').insert([row]).select().single()
+    if (error) throw toStoreError(error)
+    return data
+  }
+
+  async get(callId: string) {
+    const { data, error } = await this.client.from('calls').select('*').eq('call_id', callId).maybeSingle()
+    if (error) throw toStoreError(error)
+    return data
+  }
+
+  // RLS hides rows the user may not change, so no row back means unknown or not writable
+  async update(callId: string, patch: Record<string, unknown>) {
+    const { data, error } = await this.client.from('calls').update(patch).eq('call_id', callId).select().maybeSingle()
+    if (error) throw toStoreError(error)
+    return data
+  }
+
+  async listByOwner(ownerId: string, status?: Call['status']) {
+    let query = this.client.from('calls').select('*').eq('owner_id', ownerId)
+    if (status) query = query.eq('status', status)
+    const { data, error } = await query.order('created_at', { ascending: false })
+    if (error) throw toStoreError(error)
+    return data || []
+  }
+
+  // append_transcript_entries locks the row, so entries journaled or edited meanwhile are kept
+  async appendTranscriptEntries(callId: string, entries: TranscriptEntry[]) {
+    const { data, error } = await this.client.rpc('append_transcript_entries', {
+      p_call_id: callId,
+      p_entries: entries,
+    })
+    if (error) throw toStoreError(error)
+    return data ?? 0
+  }
+}
+
+/**
+ * Keeps calls in memory, for exercising the call lifecycle without Supabase.
+ * Rows are copied in and out so callers cannot change stored state by
+ * mutating what they got back.
+ */
+export class InMemoryCallStore implements CallStore {
+  private rows = new Map<string, Record<string, unknown>>()
+  private nextId = 1
+
+  constructor(private readonly now: () => Date = () => new Date()) {}
+
+  async insert(row: Record<string, unknown>) {
+    const callId = typeof row.call_id === 'string' ? row.call_id : `call-${this.nextId++}`
+    if (this.rows.has(callId)) {
+      throw new CallRepositoryError('conflict', `Call ${callId} already exists`)
+    }
+    const timestamp = this.now().toISOString()
+    const stored = { ...copy(row), call_id: callId, created_at: timestamp, updated_at: timestamp }
+    this.rows.set(callId, stored)
+    return copy(stored)
+  }
+
+  async get(callId: string) {
+    const row = this.rows.get(callId)
+    return row ? copy(row) : null
+  }
+
+  async update(callId: string, patch: Record<string, unknown>) {
+    const row = this.rows.get(callId)
+    if (!row) return null
+    const updated = { ...row, ...copy(patch), updated_at: this.now().toISOString() }
+    this.rows.set(callId, updated)
+    return copy(updated)
+  }
+
+  async listByOwner(ownerId: string, status?: Call['status']) {
+    return Array.from(this.rows.values())
+      .filter((row) => row.owner_id === ownerId && (!status || row.status === status))
+      .sort((a, b) => String(b.created_at).localeCompare(String(a.created_at)))
+      .map(copy)
+  }
+
+  async appendTranscriptEntries(callId: string, entries: TranscriptEntry[]) {
+    const row = this.rows.get(callId)
+    if (!row) throw new CallRepositoryError('not_found', `Call ${callId} not found or not writable`)
+
+    const transcript = (row.transcript ?? {}) as Partial<TranscriptData>
+    const stored = Array.isArray(transcript.entries) ? transcript.entries : []
+    const storedIds = new Set(stored.map((entry) => entry.id))
+    const missing = entries.filter((entry) => !storedIds.has(entry.id))
+    if (missing.length === 0) return 0
+
+    const timestamp = this.now().toISOString()
+    row.transcript = { ...transcript, entries: [...stored, ...copy(missing)], updated_at: timestamp }
+    row.updated_at = timestamp
+    return missing.length
+  }
+}
+
+const copy = <T>(value: T): T => JSON.parse(JSON.stringify(value))
+
+/**
+ * Typed access to calls. JSONB values and the row they produce are validated
+ * against lib/call-schemas.ts before they are written, and rows are parsed on
+ * the way out; every method returns a CallResult instead of throwing.
+ */
+export class CallRepository {
+  constructor(private readonly store: CallStore) {}
+
+  async create(input: NewCall): Promise<CallResult<Call>> {
+    const transcript = transcriptDataSchema.safeParse(input.transcript)
+    if (!transcript.success) return fail('invalid', `Invalid transcript: ${describeIssues(transcript.error)}`)
+    const documents = documentsSchema.safeParse(input.documents ?? [])
+    if (!documents.success) return fail('invalid', `Invalid documents: ${describeIssues(documents.error)}`)
+
+    const row = {
+      ...input,
+      transcript: transcript.data,
+      documents: documents.data,
+      duration: 0, // set when the call ends
+      attendees: input.attendee_emails.length,
+      status: 'active',
+      labels: [],
+      post_call_actions: {},
+      genie_content: { live_analysis: [], ai_chat_qna: [] },
+      post_call_completion: 0,
+      tasks_completed: 0,
+      total_tasks: 0,
+      pending_tasks: 0,
+    }
+    // The store assigns the id and creation time; stand-ins let the row be checked before it is inserted
+    const checked = this.parseRow({ call_id: '', created_at: new Date().toISOString(), ...row })
+    if (!checked.ok) return checked
+
+    return this.run('create call', async () => this.written(await this.store.insert(row), checked.value))
+  }
+
+  async get(callId: string): Promise<CallResult<Call>> {
+    return this.run('read call', async () => {
+      const row = await this.store.get(callId)
+      if (!row) return fail('not_found', `Call ${callId} not found`)
+      return this.parseRow(row)
+    })
+  }
+
+  async listByOwner(ownerId: string, status?: Call['status']): Promise<CallResult<Call[]>> {
+    return this.run('list calls', async () => {
+      const calls: Call[] = []
+      for (const row of await this.store.listByOwner(ownerId, status)) {
+        const parsed = this.parseRow(row)
+        if (!parsed.ok) return parsed
+        calls.push(parsed.value)
+      }
+      return ok(calls)
+    })
+  }
+
+  /**
+   * Add entries whose id is not in the transcript yet; resolves to how many
+   * were added. Stored entries are never replaced, so edits, their revisions
+   * and entries the transcription server journaled meanwhile all survive.
+   * Change an existing entry with update_transcript_entry instead.
+   */
+  async appendTranscriptEntries(callId: string, entries: TranscriptEntry[]): Promise<CallResult<number>> {
+    const parsedEntries = this.validate('transcript entries', transcriptEntrySchema.array(), entries)
+    if (!parsedEntries.ok) return parsedEntries
+    if (parsedEntries.value.length === 0) return ok(0)
+
+    return this.run('append transcript entries', async () =>
+      ok(await this.store.appendTranscriptEntries(callId, parsedEntries.value))
+    )
+  }
+
+  updateDisco(callId: string, discoData: DiscoData) {
+    return this.validateAndWrite(callId, 'disco_data', discoDataSchema, discoData)
+  }
+
+  updateActions(callId: string, actions: PostCallActions) {
+    return this.validateAndWrite(callId, 'post_call_actions', postCallActionsSchema, actions)
+  }
+
+  updateGenie(callId: string, genieContent: GenieContent) {
+    return this.validateAndWrite(callId, 'genie_content', genieContentSchema, genieContent)
+  }
+
+  updateLabels(callId: string, labels: CallLabel[]) {
+    return this.validateAndWrite(callId, 'labels', labelsSchema, labels)
+  }
+
+  updateDocuments(callId: string, documents: CallDocument[]) {
+    return this.validateAndWrite(callId, 'documents', documentsSchema, documents)
+  }
+
+  updateAssistant(callId: string, assistantId: string, threadId: string) {
+    return this.write(callId, { assistant_id: assistantId, thread_id: threadId })
+  }
+
+  updateSummary(callId: string, summary: string) {
+    return this.write(callId, { ai_summary: summary })
+  }
+
+  updateRecording(callId: string, recordingPath: string) {
+    return this.write(callId, { voice_recording_path: recordingPath })
+  }
+
+  // Duration in minutes
+  complete(callId: string, duration: number) {
+    if (!Number.isFinite(duration) || duration < 0) {
+      return Promise.resolve(fail<Call>('invalid', `Invalid duration: ${duration}`))
+    }
+    return this.write(callId, { status: 'completed', duration })
+  }
+
+  private async validateAndWrite<T>(
+    callId: string,
+    column: keyof CallPatch,
+    schema: ZodType<T, ZodTypeDef, unknown>,
+    value: T
+  ): Promise<CallResult<Call>> {
+    const parsed = this.validate(column, schema, value)
+    if (!parsed.ok) return parsed
+    return this.write(callId, { [column]: parsed.value })
+  }
+
+  private validate<T>(label: string, schema: ZodType<T, ZodTypeDef, unknown>, value: unknown): CallResult<T> {
+    const parsed = schema.safeParse(value)
+    return parsed.success ? ok(parsed.data) : fail('invalid', `Invalid ${label}: ${describeIssues(parsed.error)}`)
+  }
+
+  // The row as it will be after the patch is checked first, so nothing invalid is written
+  private write(callId: string, patch: CallPatch): Promise<CallResult<Call>> {
+    return this.run('update call', async () => {
+      const current = await this.store.get(callId)
+      if (!current) return fail('not_found', `Call ${callId} not found`)
+      const checked = this.parseRow({ ...(current as Record<string, unknown>), ...patch })
+      if (!checked.ok) return checked
+
+      const row = await this.store.update(callId, patch as Record<string, unknown>)
+      if (!row) return fail('not_found', `Call ${callId} not found or not writable`)
+      return this.written(row, checked.value)
+    })
+  }
+
+  /**
+   * Result of a write the store accepted. If the row it returns does not parse
+   * (e.g. a trigger changed it), the write still happened, so it is reported as
+   * done with the value checked before writing rather than as 'invalid'.
+   */
+  private written(row: unknown, checked: Call): CallResult<Call> {
+    const parsed = this.parseRow(row)
+    if (parsed.ok) return parsed
+
+    console.warn(`Stored call ${checked.call_id} did not parse after writing: ${parsed.error.message}`)
+    const stored = (row ?? {}) as Partial<Call>
+    return ok({
+      ...checked,
+      call_id: stored.call_id ?? checked.call_id,
+      created_at: stored.created_at ?? checked.created_at,
+    })
+  }
+
+  private parseRow(row: unknown): CallResult<Call> {
+    const parsed = callRowSchema.safeParse(row)
+    return parsed.success ? ok(parsed.data) : fail('invalid', `Stored call does not match its schema: ${describeIssues(parsed.error)}`)
+  }
+
+  // Store errors become results; anything else unexpected is reported as a storage error
+  private async run<T>(action: string, body: () => Promise<CallResult<T>>): Promise<CallResult<T>> {
+    try {
+      return await body()
+    } catch (error) {
+      if (error instanceof CallRepositoryError) return { ok: false, error }
+      return fail('storage', `Failed to ${action}: ${error instanceof Error ? error.message : String(error)}`, error)
+    }
+  }
+}
@@ -0,0 +1,175 @@
+import { z } from 'zod'
+import { parseDiscoData } from './disco'
+import { getFramework } from './frameworks'
+import type {
+  Call,
+  CallDocument,
+  CallLabel,
+  DiscoData,
+  GenieContent,
+  PostCallActions,
+  TranscriptData,
+  TranscriptEntry,
+} from './supabase'
+
+// Runtime schemas for the JSONB columns of calls. Writes are checked against them before they reach
+// the database; reads go through them too, so rows written by older versions come out in the
+// current shape (see callRowSchema).
+
+export const transcriptWordSchema = z.object({
+  word: z.string(),
+  start: z.number(),
+  end: z.number(),
+  confidence: z.number().optional(),
+  speaker: z.number().nullable().optional(),
+})
+
+export const transcriptEntrySchema: z.ZodType<TranscriptEntry, z.ZodTypeDef, unknown> = z.object({
+  id: z.string().min(1),
+  order: z.number().int().optional(),
+  timestamp: z.string().default(''), // entries saved at the end of a call have none
+  speaker: z.string(),
+  text: z.string(),
+  confidence: z.number().optional(),
+  start_time: z.number().optional(),
+  end_time: z.number().optional(),
+  words: z.array(transcriptWordSchema).optional(),
+  edited_by: z.string().optional(),
+  edited_at: z.string().optional(),
+  is_edited: z.boolean().optional(),
+  version: z.number().int().nonnegative().optional(),
+  reverted_revision_id: z.string().optional(),
+})
+
+export const transcriptDataSchema: z.ZodType<TranscriptData, z.ZodTypeDef, unknown> = z.object({
+  entries: z.array(transcriptEntrySchema).default([]),
+  created_at: z.string(),
+  updated_at: z.string(),
+})
+
+const discoInsightSchema = z.object({
+  id: z.string(),
+  text: z.string(),
+  source: z.object({ start_entry_id: z.string(), end_entry_id: z.string() }).nullable(),
+  confidence: z.number().min(0).max(1),
+  first_seen_at: z.string(),
+  status: z.enum(['confirmed', 'assumed', 'contradicted']),
+})
+
+// Canonical model only; rows from before it are converted by parseDiscoData when read
+export const discoDataSchema: z.ZodType<DiscoData, z.ZodTypeDef, unknown> = z.record(z.array(discoInsightSchema))
+
+export const postCallActionsSchema: z.ZodType<PostCallActions, z.ZodTypeDef, unknown> = z.record(
+  z.enum(['completed', 'inprogress', 'unfinished'])
+)
+
+const genieContentObjectSchema = z.object({
+  live_analysis: z.array(z.object({
+    content: z.string(),
+    type: z.string(),
+    order: z.number().int().optional(),
+  })).default([]),
+  ai_chat_qna: z.array(z.object({
+    question: z.string(),
+    answer: z.string(),
+    timestamp: z.string(),
+  })).default([]),
+})
+
+// Calls used to store a plain list of live analysis texts
+export const genieContentSchema: z.ZodType<GenieContent, z.ZodTypeDef, unknown> = z.union([
+  genieContentObjectSchema,
+  z.array(z.string()).transform((contents) => ({
+    live_analysis: contents.map((content, index) => ({ content, type: 'live_analysis', order: index + 1 })),
+    ai_chat_qna: [],
+  })),
+])
+
+export const labelsSchema: z.ZodType<CallLabel[], z.ZodTypeDef, unknown> = z.array(z.object({
+  text: z.string().min(1),
+  color: z.string().min(1),
+}))
+
+export const documentsSchema: z.ZodType<CallDocument[], z.ZodTypeDef, unknown> = z.array(z.object({
+  name: z.string(),
+  path: z.string().optional(),
+  size: z.union([z.string(), z.number()]).optional(),
+  type: z.string().optional(),
+  uploaded_at: z.string().optional(),
+}))
+
+/**
+ * A calls row as read from the database. Scalar columns are taken as they
+ * are; the JSONB columns are validated and older shapes upgraded (missing
+ * values become empty, legacy DISCO and Genie formats are converted).
+ */
+export const callRowSchema: z.ZodType<Call, z.ZodTypeDef, unknown> = z
+  .object({
+    call_id: z.string(),
+    owner_id: z.string(),
+    created_at: z.string(),
+    transcript: z.unknown(),
+    disco_data: z.unknown(),
+    post_call_actions: postCallActionsSchema.nullish(),
+    genie_content: genieContentSchema.nullish(),
+    labels: labelsSchema.nullish(),
+    documents: documentsSchema.nullish(),
+  })
+  .passthrough()
+  .transform((row, ctx) => {
+    // New rows start with '{}'
+    const transcript = transcriptDataSchema.safeParse({
+      created_at: row.created_at,
+      updated_at: row.created_at,
+      ...(row.transcript && typeof row.transcript === 'object' ? row.transcript : {}),
+    })
+    if (!transcript.success) {
+      transcript.error.issues.forEach((issue) => ctx.addIssue({ ...issue, path: ['transcript', ...issue.path] }))
+      return z.NEVER
+    }
+
+    const framework = getFramework(typeof row.qualification_framework === 'string' ? row.qualification_framework : null)
+    return {
+      ...row,
+      transcript: transcript.data,
+      disco_data: parseDiscoData(row.disco_data, framework, row.created_at),
+      post_call_actions: row.post_call_actions ?? {},
+      genie_content: row.genie_content ?? { live_analysis: [], ai_chat_qna: [] },
+      labels: row.labels ?? [],
+      documents: row.documents ?? [],
+    } as Call
+  })
+
+const callOwnerSchema = z.object({
+  full_name: z.string().nullish(),
+  email: z.string().nullish(),
+}).nullish()
+
+/**
+ * A calls row with its owner's profile embedded (`*, owner:user_profiles(full_name, email)`),
+ * as a call plus the name to show for its owner.
+ */
+export const callWithOwnerSchema = z
+  .object({ owner: callOwnerSchema })
+  .passthrough()
+  .transform(({ owner, ...row }, ctx) => {
+    const call = callRowSchema.safeParse(row)
+    if (!call.success) {
+      call.error.issues.forEach((issue) => ctx.addIssue(issue))
+      return z.NEVER
+    }
+    return { call: call.data, owner_name: owner?.full_name || owner?.email || null }
+  })
+
+// A call_members row with its call embedded; the call is null when RLS hides it
+export const sharedCallRowSchema = z.object({
+  role: z.enum(['admin', 'editor', 'viewer']),
+  call: callWithOwnerSchema.nullable(),
+})
+
+// "transcript.entries.3.text: Required" for the first few issues
+export const describeIssues = (error: z.ZodError) =>
+  error.issues
+    .slice(0, 3)
+    .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    .join('; ')
@@ -0,0 +1,126 @@
+import { describe, expect, it, vi } from 'vitest'
+import { DiscoInsight, mergeDiscoData, parseDiscoData } from './disco'
+import { FRAMEWORKS } from './frameworks'
+
+// lib/frameworks.ts imports the shared client, which needs a WebSocket implementation to be
+// created outside the browser
+vi.mock('./supabase', () => ({ supabase: {} }))
+
+const SEEN_AT = '2026-10-19T08:00:00.000Z'
+
+const ENTRY_ORDER = ['e1', 'e2', 'e3', 'e4', 'e5']
+
+const insight = (overrides: Partial<DiscoInsight> = {}): DiscoInsight => ({
+  id: 'disco_1',
+  text: 'Needs SSO before rollout',
+  source: { start_entry_id: 'e1', end_entry_id: 'e2' },
+  confidence: 0.5,
+  first_seen_at: '2026-10-19T09:00:00.000Z',
+  status: 'assumed',
+  ...overrides,
+})
+
+describe('mergeDiscoData', () => {
+  it('adds insights that are not known yet', () => {
+    const current = { challenges: [insight()] }
+    const added = insight({ id: 'disco_2', text: 'Budget is frozen until Q3', source: { start_entry_id: 'e4', end_entry_id: 'e4' } })
+
+    const merged = mergeDiscoData(current, { challenges: [added], objectives: [insight({ id: 'disco_3', text: 'Cut onboarding time in half' })] }, ENTRY_ORDER)
+
+    expect(merged.challenges.map(item => item.id)).toEqual(['disco_1', 'disco_2'])
+    expect(merged.objectives.map(item => item.id)).toEqual(['disco_3'])
+  })
+
+  it('keeps the existing wording of a rephrased insight and widens its source', () => {
+    const current = { challenges: [insight()] }
+    const rephrased = insight({
+      id: 'disco_2',
+      text: '- needs SSO before the rollout.',
+      source: { start_entry_id: 'e3', end_entry_id: 'e5' },
+      confidence: 0.9,
+      first_seen_at: '2026-10-19T09:10:00.000Z',
+      status: 'confirmed',
+    })
+
+    const [merged] = mergeDiscoData(current, { challenges: [rephrased] }, ENTRY_ORDER).challenges
+
+    expect(merged).toEqual({
+      ...insight(),
+      source: { start_entry_id: 'e1', end_entry_id: 'e5' },
+      confidence: 0.9,
+      status: 'confirmed',
+    })
+  })
+
+  it('lets a contradiction win over a confirmation, and a confirmation over an assumption', () => {
+    const confirmed = { challenges: [insight({ status: 'confirmed' })] }
+    expect(mergeDiscoData(confirmed, { challenges: [insight({ status: 'contradicted' })] }, ENTRY_ORDER).challenges[0].status).toBe('contradicted')
+    expect(mergeDiscoData(confirmed, { challenges: [insight({ status: 'assumed' })] }, ENTRY_ORDER).challenges[0].status).toBe('confirmed')
+
+    const contradicted = { challenges: [insight({ status: 'contradicted' })] }
+    expect(mergeDiscoData(contradicted, { challenges: [insight({ status: 'confirmed' })] }, ENTRY_ORDER).challenges[0].status).toBe('contradicted')
+  })
+
+  it('keeps a known source when the duplicate has none', () => {
+    const current = { challenges: [insight({ source: null })] }
+    const merged = mergeDiscoData(current, { challenges: [insight({ id: 'disco_2' })] }, ENTRY_ORDER)
+
+    expect(merged.challenges).toHaveLength(1)
+    expect(merged.challenges[0].source).toEqual({ start_entry_id: 'e1', end_entry_id: 'e2' })
+  })
+
+  it('leaves the current data untouched', () => {
+    const current = { challenges: [insight()] }
+    mergeDiscoData(current, { challenges: [insight({ id: 'disco_2', confidence: 1 })], objectives: [] }, ENTRY_ORDER)
+
+    expect(current).toEqual({ challenges: [insight()] })
+    expect(mergeDiscoData(current, { objectives: [] }, ENTRY_ORDER)).toEqual(current)
+  })
+})
+
+describe('parseDiscoData', () => {
+  const parse = (raw: unknown) => parseDiscoData(raw, FRAMEWORKS.disco, SEEN_AT)
+  const texts = (raw: unknown, key: string) => parse(raw)[key].map(item => item.text)
+
+  it('returns every framework field, empty, for missing or malformed data', () => {
+    const empty = { decision_criteria: [], impact: [], situation: [], challenges: [], objectives: [] }
+    expect(parse(null)).toEqual(empty)
+    expect(parse('not an object')).toEqual(empty)
+    expect(parse({ challenges: 42, Impact: { text: 'no array' } })).toEqual(empty)
+  })
+
+  it('reads legacy text as one insight per line, without bullets, placeholders or empty lines', () => {
+    const [first, second] = parse({ challenges: '• Manual reporting\n\n  - Slow approvals  \nNone yet.\n' }).challenges
+
+    expect([first.text, second.text]).toEqual(['Manual reporting', 'Slow approvals'])
+    expect(first).toMatchObject({ source: null, confidence: 0.5, status: 'assumed', first_seen_at: SEEN_AT })
+    expect(parse({ challenges: '' }).challenges).toEqual([])
+  })
+
+  it('reads the backend field name when the key is missing, and not both', () => {
+    expect(texts({ Decision_Criteria: ['Price'] }, 'decision_criteria')).toEqual(['Price'])
+    expect(texts({ decision_criteria: ['Security review'], Decision_Criteria: ['Security review', 'Price'] }, 'decision_criteria'))
+      .toEqual(['Security review'])
+  })
+
+  it('drops bullets that repeat an earlier one of the field', () => {
+    expect(texts({ challenges: ['Manual reporting', '- manual reporting.', 'Slow approvals'] }, 'challenges'))
+      .toEqual(['Manual reporting', 'Slow approvals'])
+    expect(texts({ impact: [{ text: 'Saves 10 hours a week' }, 'Saves 10 hours a week', { text: 'Fewer errors' }] }, 'impact'))
+      .toEqual(['Saves 10 hours a week', 'Fewer errors'])
+  })
+
+  it('turns cited bullets into insights sourced from their first and last entry', () => {
+    const [cited] = parse({ situation: [{ text: 'Uses spreadsheets', entry_ids: ['e2', 'e3', 'e7'] }] }).situation
+
+    expect(cited).toMatchObject({ text: 'Uses spreadsheets', source: { start_entry_id: 'e2', end_entry_id: 'e7' }, first_seen_at: SEEN_AT })
+  })
+
+  it('keeps stored insights, clamping confidence and defaulting an unknown status', () => {
+    const stored = insight({ id: 'disco_9', confidence: 0.8, status: 'confirmed' })
+    const [kept, clamped] = parse({ objectives: [stored, { ...stored, id: 'disco_10', text: 'Expand to the EU', confidence: 7, status: 'maybe' }] }).objectives
+
+    expect(kept).toEqual(stored)
+    expect(clamped).toMatchObject({ id: 'disco_10', confidence: 1, status: 'assumed' })
+  })
+})
@@ -0,0 +1,224 @@
+import type { QualificationFramework } from './frameworks'
+
+// Canonical insight model: what the live panel shows, what is stored in calls.disco_data and what
+// the notes modal reviews. Fields come from the call's qualification framework (lib/frameworks.ts);
+// the name stays DISCO after the column. Analysis runs on new transcript entries only and its
+// insights are merged into what is already known.
+
+// confirmed: the buyer stated it; assumed: inferred; contradicted: later said otherwise
+export type DiscoStatus = 'confirmed' | 'assumed' | 'contradicted'
+
+export const DISCO_STATUSES: DiscoStatus[] = ['confirmed', 'assumed', 'contradicted']
+
+// First and last transcript entry (TranscriptEntry.id) the insight is based on, in transcript order
+export interface DiscoSourceRange {
+  start_entry_id: string
+  end_entry_id: string
+}
+
+export interface DiscoInsight {
+  id: string
+  text: string
+  source: DiscoSourceRange | null // null for insights stored before sources were tracked
+  confidence: number // 0 to 1
+  first_seen_at: string
+  status: DiscoStatus
+}
+
+// Insights per framework field key; fields with nothing found yet may be missing
+export type DiscoData = Record<string, DiscoInsight[]>
+
+export interface DiscoBackendItem {
+  text: string
+  entry_ids?: string[]
+  confidence?: number
+  status?: DiscoStatus
+}
+
+// What the AI backend may answer for one field: text, bullets, or bullets with sources and scores
+export type DiscoBackendValue = string | Array<string | DiscoBackendItem>
+
+// Used when the backend does not score an insight
+const DEFAULT_CONFIDENCE = 0.5
+const DEFAULT_STATUS: DiscoStatus = 'assumed'
+
+// Two insights are the same when their words mostly overlap, e.g. after the model rephrases slightly
+const DUPLICATE_SIMILARITY = 0.8
+
+const PLACEHOLDER_PATTERN = /^(none( yet)?|n\/a|unknown|not (yet )?(mentioned|discussed|identified))\.?$/i
+
+export const emptyDiscoData = (framework: QualificationFramework): DiscoData =>
+  Object.fromEntries(framework.fields.map(field => [field.key, []]))
+
+export const fieldInsights = (data: DiscoData, key: string): DiscoInsight[] => data[key] || []
+
+const newInsightId = () => `disco_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`
+
+const stripBullet = (text: string) => text.replace(/^\s*([•*\-–]|\d+[.)])\s*/, '').trim()
+
+export const isDiscoPlaceholder = (text: string) => PLACEHOLDER_PATTERN.test(text.trim())
+
+const clampConfidence = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : DEFAULT_CONFIDENCE
+
+const isStatus = (value: unknown): value is DiscoStatus => DISCO_STATUSES.includes(value as DiscoStatus)
+
+const normalize = (text: string) =>
+  stripBullet(text).toLowerCase().replace(/[.,;:!?()[\]{}"'`’“”]/g, ' ').replace(/\s+/g, ' ').trim()
+
+function similarity(a: string, b: string): number {
+  const wordsA = new Set(normalize(a).split(' ').filter(word => word.length > 2))
+  const wordsB = new Set(normalize(b).split(' ').filter(word => word.length > 2))
+  if (wordsA.size === 0 || wordsB.size === 0) return normalize(a) === normalize(b) ? 1 : 0
+  let shared = 0
+  wordsA.forEach(word => { if (wordsB.has(word)) shared++ })
+  return shared / (wordsA.size + wordsB.size - shared)
+}
+
+const isDuplicate = (a: string, b: string) =>
+  normalize(a) === normalize(b) || similarity(a, b) >= DUPLICATE_SIMILARITY
+
+// Range covering `entryIds`, ordered by their position in `order`
+function rangeOf(entryIds: string[], order: string[]): DiscoSourceRange | null {
+  const positions = entryIds.map(id => order.indexOf(id)).filter(index => index >= 0).sort((a, b) => a - b)
+  if (positions.length === 0) return null
+  return { start_entry_id: order[positions[0]], end_entry_id: order[positions[positions.length - 1]] }
+}
+
+/**
+ * Turn one analysis of `batchEntryIds` into insights. Insights without
+ * sources, or citing entries outside the batch, are attributed to the whole
+ * batch.
+ */
+export function insightsFromAnalysis(
+  framework: QualificationFramework,
+  fields: Record<string, DiscoBackendValue | undefined>,
+  batchEntryIds: string[],
+  seenAt: Date = new Date()
+): DiscoData {
+  const insights: DiscoData = {}
+
+  for (const { key, backend_name } of framework.fields) {
+    const value = fields[backend_name]
+    if (!value) continue
+
+    // A single string may carry several insights, one per line
+    const raw: DiscoBackendItem[] = typeof value === 'string'
+      ? value.split('\n').map(text => ({ text }))
+      : value.map(item => typeof item === 'string' ? { text: item } : item)
+
+    const found: DiscoInsight[] = []
+    for (const item of raw) {
+      const text = stripBullet(item.text)
+      if (!text || isDiscoPlaceholder(text)) continue
+      found.push({
+        id: newInsightId(),
+        text,
+        source: rangeOf(item.entry_ids || [], batchEntryIds) || rangeOf(batchEntryIds, batchEntryIds),
+        confidence: clampConfidence(item.confidence),
+        first_seen_at: seenAt.toISOString(),
+        status: isStatus(item.status) ? item.status : DEFAULT_STATUS,
+      })
+    }
+    if (found.length > 0) insights[key] = found
+  }
+  return insights
+}
+
+// A contradiction always wins; otherwise a confirmation outranks an assumption
+const mergeStatus = (current: DiscoStatus, incoming: DiscoStatus): DiscoStatus =>
+  incoming === 'contradicted' || current === 'contradicted' ? 'contradicted'
+    : incoming === 'confirmed' || current === 'confirmed' ? 'confirmed'
+    : 'assumed'
+
+/**
+ * Add new insights to the current ones. An insight matching an existing one
+ * keeps the existing wording and first-seen time, so the panel does not
+ * flicker; its source range widens to cover both and the higher confidence
+ * and stronger status win. `entryOrder` is every transcript entry id in order.
+ */
+export function mergeDiscoData(current: DiscoData, incoming: DiscoData, entryOrder: string[]): DiscoData {
+  const merged: DiscoData = { ...current }
+
+  for (const [key, additions] of Object.entries(incoming)) {
+    if (additions.length === 0) continue
+
+    const insights = [...fieldInsights(merged, key)]
+    for (const addition of additions) {
+      const index = insights.findIndex(insight => isDuplicate(insight.text, addition.text))
+      if (index === -1) {
+        insights.push(addition)
+        continue
+      }
+
+      const existing = insights[index]
+      const ids = [existing.source, addition.source]
+        .flatMap(source => source ? [source.start_entry_id, source.end_entry_id] : [])
+      insights[index] = {
+        ...existing,
+        source: rangeOf(ids, entryOrder) || existing.source || addition.source,
+        confidence: Math.max(existing.confidence, addition.confidence),
+        status: mergeStatus(existing.status, addition.status),
+      }
+    }
+    merged[key] = insights
+  }
+  return merged
+}
+
+// Insight text per field under the backend's field names, for sending what is already known
+export function discoToBackendFields(framework: QualificationFramework, data: DiscoData): Record<string, string[]> {
+  const fields: Record<string, string[]> = {}
+  for (const { key, backend_name } of framework.fields) {
+    const insights = fieldInsights(data, key)
+    if (insights.length > 0) fields[backend_name] = insights.map(insight => insight.text)
+  }
+  return fields
+}
+
+/**
+ * Read calls.disco_data for the call's framework. Older rows hold text or
+ * bullets under either key casing, or bullets with `entry_ids`; they become
+ * insights with default scores, first seen at `fallbackSeenAt`. Bullets that
+ * repeat an earlier one of the field are dropped, as mergeDiscoData would.
+ */
+export function parseDiscoData(
+  raw: unknown,
+  framework: QualificationFramework,
+  fallbackSeenAt: string = new Date().toISOString()
+): DiscoData {
+  const data = emptyDiscoData(framework)
+  if (!raw || typeof raw !== 'object') return data
+  const record = raw as Record<string, unknown>
+
+  for (const { key: field, backend_name } of framework.fields) {
+    const value = record[field] ?? record[backend_name]
+    const items: unknown[] = typeof value === 'string' ? value.split('\n') : Array.isArray(value) ? value : []
+
+    const known = (text: string) => data[field].some(insight => isDuplicate(insight.text, text))
+
+    for (const item of items) {
+      if (typeof item === 'string') {
+        const text = stripBullet(item)
+        if (!text || isDiscoPlaceholder(text) || known(text)) continue
+        data[field].push({ id: newInsightId(), text, source: null, confidence: DEFAULT_CONFIDENCE, first_seen_at: fallbackSeenAt, status: DEFAULT_STATUS })
+        continue
+      }
+      if (!item || typeof item !== 'object' || typeof (item as any).text !== 'string' || known((item as any).text)) continue
+
+      const stored = item as Partial<DiscoInsight> & { text: string; entry_ids?: string[] }
+      const entryIds = Array.isArray(stored.entry_ids) ? stored.entry_ids : []
+      data[field].push({
+        id: typeof stored.id === 'string' ? stored.id : newInsightId(),
+        text: stored.text,
+        source: stored.source?.start_entry_id && stored.source?.end_entry_id
+          ? { start_entry_id: stored.source.start_entry_id, end_entry_id: stored.source.end_entry_id }
+          : entryIds.length > 0 ? { start_entry_id: entryIds[0], end_entry_id: entryIds[entryIds.length - 1] } : null,
+        confidence: clampConfidence(stored.confidence),
+        first_seen_at: typeof stored.first_seen_at === 'string' ? stored.first_seen_at : fallbackSeenAt,
+        status: isStatus(stored.status) ? stored.status : DEFAULT_STATUS,
+      })
+    }
+  }
+  return data
+}
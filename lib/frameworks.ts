@@ -0,0 +1,147 @@
+import { supabase } from './supabase'
+
+// Sales qualification frameworks. Each declares its fields; live analysis, calls.disco_data, the
+// dashboard panels and the notes view are all driven by the framework stored on the call.
+
+export type FrameworkId = 'disco' | 'meddicc' | 'bant' | 'spiced'
+
+export interface FrameworkField {
+  key: string // key in calls.disco_data
+  label: string
+  backend_name: string // how the AI backend names the field
+  prompt: string // what the field answers; sent to the backend and shown until something is found
+  letter: string
+  color: string // panel badge background
+}
+
+export interface QualificationFramework {
+  id: FrameworkId
+  name: string
+  description: string
+  fields: FrameworkField[]
+}
+
+export const DEFAULT_FRAMEWORK_ID: FrameworkId = 'disco'
+
+export const FRAMEWORKS: Record<FrameworkId, QualificationFramework> = {
+  disco: {
+    id: 'disco',
+    name: 'DISCO',
+    description: 'Decision criteria, Impact, Situation, Challenges, Objectives',
+    fields: [
+      { key: 'decision_criteria', label: 'Decision Criteria', backend_name: 'Decision_Criteria', letter: 'D', color: 'bg-blue-500', prompt: 'What factors is the buyer using to evaluate potential solutions?' },
+      { key: 'impact', label: 'Impact', backend_name: 'Impact', letter: 'I', color: 'bg-green-500', prompt: 'What are the business or technical impacts if this problem is solved?' },
+      { key: 'situation', label: 'Situation', backend_name: 'Situation', letter: 'S', color: 'bg-purple-500', prompt: "What is the current state of the buyer's tools, workflow, or operations?" },
+      { key: 'challenges', label: 'Challenges', backend_name: 'Challenges', letter: 'C', color: 'bg-red-500', prompt: 'What pain points or limitations is the buyer currently facing?' },
+      { key: 'objectives', label: 'Objectives', backend_name: 'Objectives', letter: 'O', color: 'bg-orange-500', prompt: 'What goals is the buyer trying to achieve in the next 3-12 months?' },
+    ],
+  },
+  meddicc: {
+    id: 'meddicc',
+    name: 'MEDDICC',
+    description: 'Metrics, Economic buyer, Decision criteria, Decision process, Identify pain, Champion, Competition',
+    fields: [
+      { key: 'metrics', label: 'Metrics', backend_name: 'Metrics', letter: 'M', color: 'bg-blue-500', prompt: 'What measurable outcomes does the buyer expect?' },
+      { key: 'economic_buyer', label: 'Economic Buyer', backend_name: 'Economic_Buyer', letter: 'E', color: 'bg-green-500', prompt: 'Who controls the budget and signs off on the purchase?' },
+      { key: 'decision_criteria', label: 'Decision Criteria', backend_name: 'Decision_Criteria', letter: 'D', color: 'bg-purple-500', prompt: 'What criteria will the buyer use to choose a solution?' },
+      { key: 'decision_process', label: 'Decision Process', backend_name: 'Decision_Process', letter: 'D', color: 'bg-indigo-500', prompt: 'What steps, people and timeline lead to a decision?' },
+      { key: 'identify_pain', label: 'Identify Pain', backend_name: 'Identify_Pain', letter: 'I', color: 'bg-red-500', prompt: 'What problem is costly enough that the buyer must act?' },
+      { key: 'champion', label: 'Champion', backend_name: 'Champion', letter: 'C', color: 'bg-orange-500', prompt: 'Who inside the account is selling on our behalf?' },
+      { key: 'competition', label: 'Competition', backend_name: 'Competition', letter: 'C', color: 'bg-gray-500', prompt: 'Which alternatives, including doing nothing, is the buyer considering?' },
+    ],
+  },
+  bant: {
+    id: 'bant',
+    name: 'BANT',
+    description: 'Budget, Authority, Need, Timeline',
+    fields: [
+      { key: 'budget', label: 'Budget', backend_name: 'Budget', letter: 'B', color: 'bg-blue-500', prompt: 'Is there budget for this, and how much?' },
+      { key: 'authority', label: 'Authority', backend_name: 'Authority', letter: 'A', color: 'bg-green-500', prompt: 'Who makes the buying decision?' },
+      { key: 'need', label: 'Need', backend_name: 'Need', letter: 'N', color: 'bg-red-500', prompt: 'What business need would the solution address?' },
+      { key: 'timeline', label: 'Timeline', backend_name: 'Timeline', letter: 'T', color: 'bg-orange-500', prompt: 'When does the buyer plan to decide and implement?' },
+    ],
+  },
+  spiced: {
+    id: 'spiced',
+    name: 'SPICED',
+    description: 'Situation, Pain, Impact, Critical event, Decision',
+    fields: [
+      { key: 'situation', label: 'Situation', backend_name: 'Situation', letter: 'S', color: 'bg-purple-500', prompt: "What is the buyer's current situation and context?" },
+      { key: 'pain', label: 'Pain', backend_name: 'Pain', letter: 'P', color: 'bg-red-500', prompt: 'What problems is the buyer experiencing?' },
+      { key: 'impact', label: 'Impact', backend_name: 'Impact', letter: 'I', color: 'bg-green-500', prompt: 'What is the business impact of solving those problems?' },
+      { key: 'critical_event', label: 'Critical Event', backend_name: 'Critical_Event', letter: 'C', color: 'bg-orange-500', prompt: 'What deadline or event forces a decision?' },
+      { key: 'decision', label: 'Decision', backend_name: 'Decision', letter: 'D', color: 'bg-blue-500', prompt: 'How, and by whom, will the decision be made?' },
+    ],
+  },
+}
+
+export const FRAMEWORK_LIST: QualificationFramework[] = Object.values(FRAMEWORKS)
+
+export const isFrameworkId = (value: unknown): value is FrameworkId =>
+  typeof value === 'string' && value in FRAMEWORKS
+
+// Unknown or missing ids (e.g. calls created before frameworks existed) fall back to DISCO
+export const getFramework = (id?: string | null): QualificationFramework =>
+  FRAMEWORKS[isFrameworkId(id) ? id : DEFAULT_FRAMEWORK_ID]
+
+export class FrameworkSettingsService {
+  // The framework an organisation uses unless a call picks its own
+  static async getOrganisationFramework(organisationId: string): Promise<FrameworkId> {
+    if (!organisationId) return DEFAULT_FRAMEWORK_ID
+    try {
+      const { data, error } = await supabase
+        .from('organisations')
+        .select('qualification_framework')
+        .eq('organisation_id', organisationId)
+        .maybeSingle()
+
+      if (error) {
+        console.error('Error fetching organisation framework:', error)
+        return DEFAULT_FRAMEWORK_ID
+      }
+      return isFrameworkId(data?.qualification_framework) ? data.qualification_framework : DEFAULT_FRAMEWORK_ID
+    } catch (error) {
+      console.error('Error fetching organisation framework:', error)
+      return DEFAULT_FRAMEWORK_ID
+    }
+  }
+
+  // Organisation admins only (enforced by RLS)
+  static async setOrganisationFramework(organisationId: string, frameworkId: FrameworkId): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('organisations')
+        .update({
+          qualification_framework: frameworkId,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('organisation_id', organisationId)
+
+      if (error) {
+        console.error('Error saving organisation framework:', error)
+        return false
+      }
+      return true
+    } catch (error) {
+      console.error('Error saving organisation framework:', error)
+      return false
+    }
+  }
+
+  // Default for a new call: the framework of the user's organisation
+  static async getDefaultFrameworkForUser(userId: string): Promise<FrameworkId> {
+    try {
+      const { data, error } = await supabase
+        .from('organisation_members')
+        .select('organisation_id')
+        .eq('user_id', userId)
+        .maybeSingle()
+
+      if (error || !data?.organisation_id) return DEFAULT_FRAMEWORK_ID
+      return FrameworkSettingsService.getOrganisationFramework(data.organisation_id)
+    } catch (error) {
+      console.error('Error resolving default framework:', error)
+      return DEFAULT_FRAMEWORK_ID
+    }
+  }
+}
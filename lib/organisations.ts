@@ -0,0 +1,561 @@
+import { supabase } from './supabase'
+import { FrameworkId } from './frameworks'
+
+// Rows of database/migrations/0010_add_organisations_and_teams.up.sql
+export type OrganisationRole = 'admin' | 'member'
+export type TeamRole = 'manager' | 'member'
+
+export interface Organisation {
+  organisation_id: string
+  name: string
+  qualification_framework: FrameworkId
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface OrganisationMember {
+  organisation_id: string
+  user_id: string
+  role: OrganisationRole
+  full_name: string | null
+  email: string | null
+  created_at: string
+}
+
+export interface Team {
+  team_id: string
+  organisation_id: string
+  name: string
+  created_at: string
+}
+
+export interface TeamMember {
+  team_id: string
+  user_id: string
+  role: TeamRole
+  full_name: string | null
+  email: string | null
+  created_at: string
+}
+
+export interface OrganisationInvite {
+  invite_id: string
+  organisation_id: string
+  organisation_name?: string // set for invites addressed to the user
+  email: string
+  role: OrganisationRole
+  team_id: string | null
+  team_role: TeamRole
+  invited_by: string | null
+  created_at: string
+  accepted_at: string | null
+}
+
+export interface TeamLabel {
+  team_id: string
+  text: string
+  color: string
+  created_by: string | null
+  created_at: string
+}
+
+export interface TeamDocument {
+  document_id: string
+  team_id: string
+  name: string
+  path: string // call-documents bucket, under teams/<team_id>/
+  size: number | null
+  type: string | null
+  uploaded_by: string | null
+  created_at: string
+}
+
+// The signed-in user's organisation with their role in it
+export interface OrganisationMembership {
+  organisation: Organisation
+  role: OrganisationRole
+}
+
+const TEAM_DOCUMENTS_BUCKET = 'call-documents'
+
+export class OrganisationService {
+  static async getMembership(userId: string): Promise<OrganisationMembership | null> {
+    try {
+      const { data, error } = await supabase
+        .from('organisation_members')
+        .select('role, organisation:organisations(*)')
+        .eq('user_id', userId)
+        .maybeSingle()
+
+      if (error) {
+        console.error('Error fetching organisation:', error)
+        return null
+      }
+      if (!data?.organisation) return null
+      return { organisation: data.organisation as unknown as Organisation, role: data.role as OrganisationRole }
+    } catch (error) {
+      console.error('Error fetching organisation:', error)
+      return null
+    }
+  }
+
+  // Joins the organisation the user was invited to or creates one called `name`; run after sign-up
+  static async setupOrganisation(name: string): Promise<string | null> {
+    try {
+      const { data, error } = await supabase.rpc('setup_organisation', { p_name: name })
+      if (error) {
+        console.error('Error setting up organisation:', error)
+        return null
+      }
+      return data
+    } catch (error) {
+      console.error('Error setting up organisation:', error)
+      return null
+    }
+  }
+
+  static async renameOrganisation(organisationId: string, name: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('organisations')
+        .update({ name: name.trim(), updated_at: new Date().toISOString() })
+        .eq('organisation_id', organisationId)
+
+      if (error) {
+        console.error('Error renaming organisation:', error)
+        return false
+      }
+      return true
+    } catch (error) {
+      console.error('Error renaming organisation:', error)
+      return false
+    }
+  }
+
+  static async getMembers(organisationId: string): Promise<OrganisationMember[]> {
+    try {
+      const { data, error } = await supabase
+        .from('organisation_members')
+        .select('*, profile:user_profiles(full_name, email)')
+        .eq('organisation_id', organisationId)
+        .order('created_at', { ascending: true })
+
+      if (error) {
+        console.error('Error fetching organisation members:', error)
+        return []
+      }
+      return ((data || []) as any[]).map(({ profile, ...member }) => ({
+        ...member,
+        full_name: profile?.full_name ?? null,
+        email: profile?.email ?? null
+      }))
+    } catch (error) {
+      console.error('Error fetching organisation members:', error)
+      return []
+    }
+  }
+
+  // Admins only (enforced by RLS)
+  static async setMemberRole(organisationId: string, userId: string, role: OrganisationRole): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('organisation_members')
+        .update({ role })
+        .eq('organisation_id', organisationId)
+        .eq('user_id', userId)
+
+      if (error) {
+        console.error('Error updating organisation member:', error)
+        return false
+      }
+      return true
+    } catch (error) {
+      console.error('Error updating organisation member:', error)
+      return false
+    }
+  }
+
+  // Admins remove anyone; everyone may remove themselves
+  static async removeMember(organisationId: string, userId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('organisation_members')
+        .delete()
+        .eq('organisation_id', organisationId)
+        .eq('user_id', userId)
+
+      if (error) {
+        console.error('Error removing organisation member:', error)
+        return false
+      }
+      return true
+    } catch (error) {
+      console.error('Error removing organisation member:', error)
+      return false
+    }
+  }
+
+  static async getTeams(organisationId: string): Promise<Team[]> {
+    try {
+      const { data, error } = await supabase
+        .from('teams')
+        .select('*')
+        .eq('organisation_id', organisationId)
+        .order('created_at', { ascending: true })
+
+      if (error) {
+        console.error('Error fetching teams:', error)
+        return []
+      }
+      return data || []
+    } catch (error) {
+      console.error('Error fetching teams:', error)
+      return []
+    }
+  }
+
+  static async createTeam(organisationId: string, name: string): Promise<Team | null> {
+    try {
+      const { data, error } = await supabase
+        .from('teams')
+        .insert({ organisation_id: organisationId, name: name.trim() })
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error creating team:', error)
+        return null
+      }
+      return data
+    } catch (error) {
+      console.error('Error creating team:', error)
+      return null
+    }
+  }
+
+  static async getTeamMembers(teamId: string): Promise<TeamMember[]> {
+    try {
+      const { data, error } = await supabase
+        .from('team_members')
+        .select('*, profile:user_profiles(full_name, email)')
+        .eq('team_id', teamId)
+        .order('created_at', { ascending: true })
+
+      if (error) {
+        console.error('Error fetching team members:', error)
+        return []
+      }
+      return ((data || []) as any[]).map(({ profile, ...member }) => ({
+        ...member,
+        full_name: profile?.full_name ?? null,
+        email: profile?.email ?? null
+      }))
+    } catch (error) {
+      console.error('Error fetching team members:', error)
+      return []
+    }
+  }
+
+  // Team managers and organisation admins add people of the organisation or change their role
+  static async setTeamMember(teamId: string, userId: string, role: TeamRole): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('team_members')
+        .upsert({ team_id: teamId, user_id: userId, role }, { onConflict: 'team_id,user_id' })
+
+      if (error) {
+        console.error('Error saving team member:', error)
+        return false
+      }
+      return true
+    } catch (error) {
+      console.error('Error saving team member:', error)
+      return false
+    }
+  }
+
+  static async removeTeamMember(teamId: string, userId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('team_members')
+        .delete()
+        .eq('team_id', teamId)
+        .eq('user_id', userId)
+
+      if (error) {
+        console.error('Error removing team member:', error)
+        return false
+      }
+      return true
+    } catch (error) {
+      console.error('Error removing team member:', error)
+      return false
+    }
+  }
+
+  // Teams the user belongs to, oldest first; the first is where their new calls go
+  static async getUserTeams(userId: string): Promise<Array<Team & { role: TeamRole }>> {
+    try {
+      const { data, error } = await supabase
+        .from('team_members')
+        .select('role, team:teams(*)')
+        .eq('user_id', userId)
+
+      if (error) {
+        console.error('Error fetching user teams:', error)
+        return []
+      }
+      return ((data || []) as any[])
+        .filter((row) => row.team)
+        .map((row) => ({ ...(row.team as Team), role: row.role as TeamRole }))
+        .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    } catch (error) {
+      console.error('Error fetching user teams:', error)
+      return []
+    }
+  }
+
+  static async getDefaultTeamId(userId: string): Promise<string | null> {
+    const teams = await OrganisationService.getUserTeams(userId)
+    return teams[0]?.team_id ?? null
+  }
+
+  // Pending invites of an organisation (admins only)
+  static async getInvites(organisationId: string): Promise<OrganisationInvite[]> {
+    try {
+      const { data, error } = await supabase
+        .from('organisation_invites')
+        .select('*')
+        .eq('organisation_id', organisationId)
+        .is('accepted_at', null)
+        .order('created_at', { ascending: true })
+
+      if (error) {
+        console.error('Error fetching organisation invites:', error)
+        return []
+      }
+      return data || []
+    } catch (error) {
+      console.error('Error fetching organisation invites:', error)
+      return []
+    }
+  }
+
+  // Pending invites addressed to the signed-in user's email
+  static async getMyInvites(email: string): Promise<OrganisationInvite[]> {
+    try {
+      const { data, error } = await supabase
+        .from('organisation_invites')
+        .select('*, organisation:organisations(name)')
+        .eq('email', email.trim().toLowerCase())
+        .is('accepted_at', null)
+        .order('created_at', { ascending: true })
+
+      if (error) {
+        console.error('Error fetching invites:', error)
+        return []
+      }
+      return ((data || []) as any[]).map(({ organisation, ...invite }) => ({
+        ...invite,
+        organisation_name: organisation?.name
+      }))
+    } catch (error) {
+      console.error('Error fetching invites:', error)
+      return []
+    }
+  }
+
+  static async invite(
+    organisationId: string,
+    email: string,
+    role: OrganisationRole,
+    invitedBy: string,
+    team?: { teamId: string; role: TeamRole }
+  ): Promise<OrganisationInvite | null> {
+    try {
+      const { data, error } = await supabase
+        .from('organisation_invites')
+        .insert({
+          organisation_id: organisationId,
+          email: email.trim().toLowerCase(),
+          role,
+          team_id: team?.teamId ?? null,
+          team_role: team?.role ?? 'member',
+          invited_by: invitedBy
+        })
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error creating invite:', error)
+        return null
+      }
+      return data
+    } catch (error) {
+      console.error('Error creating invite:', error)
+      return null
+    }
+  }
+
+  // Admins revoke an invite; the invitee declines it
+  static async deleteInvite(inviteId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('organisation_invites')
+        .delete()
+        .eq('invite_id', inviteId)
+
+      if (error) {
+        console.error('Error deleting invite:', error)
+        return false
+      }
+      return true
+    } catch (error) {
+      console.error('Error deleting invite:', error)
+      return false
+    }
+  }
+
+  // Joins the invite's organisation, leaving the current one; returns the organisation id
+  static async acceptInvite(inviteId: string): Promise<string | null> {
+    try {
+      const { data, error } = await supabase.rpc('accept_organisation_invite', { p_invite_id: inviteId })
+      if (error) {
+        console.error('Error accepting invite:', error)
+        return null
+      }
+      return data
+    } catch (error) {
+      console.error('Error accepting invite:', error)
+      return null
+    }
+  }
+}
+
+// Label catalog and document library shared by the members of a team
+export class TeamLibraryService {
+  static async getLabels(teamId: string): Promise<TeamLabel[]> {
+    try {
+      const { data, error } = await supabase
+        .from('team_labels')
+        .select('*')
+        .eq('team_id', teamId)
+        .order('created_at', { ascending: true })
+
+      if (error) {
+        console.error('Error fetching team labels:', error)
+        return []
+      }
+      return data || []
+    } catch (error) {
+      console.error('Error fetching team labels:', error)
+      return []
+    }
+  }
+
+  static async addLabel(teamId: string, label: { text: string; color: string }, userId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('team_labels')
+        .upsert(
+          { team_id: teamId, text: label.text, color: label.color, created_by: userId },
+          { onConflict: 'team_id,text', ignoreDuplicates: true }
+        )
+
+      if (error) {
+        console.error('Error saving team label:', error)
+        return false
+      }
+      return true
+    } catch (error) {
+      console.error('Error saving team label:', error)
+      return false
+    }
+  }
+
+  static async getDocuments(teamId: string): Promise<TeamDocument[]> {
+    try {
+      const { data, error } = await supabase
+        .from('team_documents')
+        .select('*')
+        .eq('team_id', teamId)
+        .order('created_at', { ascending: false })
+
+      if (error) {
+        console.error('Error fetching team documents:', error)
+        return []
+      }
+      return data || []
+    } catch (error) {
+      console.error('Error fetching team documents:', error)
+      return []
+    }
+  }
+
+  static async uploadDocument(teamId: string, file: File, userId: string): Promise<TeamDocument | null> {
+    try {
+      const path = `teams/${teamId}/${Date.now()}_${file.name.replace(/[^a-zA-Z0-9._-]/g, '_')}`
+      const { error: uploadError } = await supabase.storage
+        .from(TEAM_DOCUMENTS_BUCKET)
+        .upload(path, file, { contentType: file.type || undefined })
+
+      if (uploadError) {
+        console.error('Error uploading team document:', uploadError)
+        return null
+      }
+
+      const { data, error } = await supabase
+        .from('team_documents')
+        .insert({ team_id: teamId, name: file.name, path, size: file.size, type: file.type || null, uploaded_by: userId })
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error saving team document:', error)
+        await supabase.storage.from(TEAM_DOCUMENTS_BUCKET).remove([path])
+        return null
+      }
+      return data
+    } catch (error) {
+      console.error('Error uploading team document:', error)
+      return null
+    }
+  }
+
+  static async getDocumentUrl(path: string, expiresInSeconds = 3600): Promise<string | null> {
+    try {
+      const { data, error } = await supabase.storage
+        .from(TEAM_DOCUMENTS_BUCKET)
+        .createSignedUrl(path, expiresInSeconds)
+
+      if (error) {
+        console.error('Error creating team document URL:', error)
+        return null
+      }
+      return data?.signedUrl ?? null
+    } catch (error) {
+      console.error('Error creating team document URL:', error)
+      return null
+    }
+  }
+
+  static async deleteDocument(document: TeamDocument): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('team_documents')
+        .delete()
+        .eq('document_id', document.document_id)
+
+      if (error) {
+        console.error('Error deleting team document:', error)
+        return false
+      }
+      await supabase.storage.from(TEAM_DOCUMENTS_BUCKET).remove([document.path])
+      return true
+    } catch (error) {
+      console.error('Error deleting team document:', error)
+      return false
+    }
+  }
+}
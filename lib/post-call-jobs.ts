@@ -0,0 +1,118 @@
+import { supabase } from './supabase'
+
+// Row in post_call_jobs (database/migrations/0004_add_post_call_jobs.up.sql); run by
+// server/post-call-jobs.js
+export type PostCallJobType = 'post_call_steps' | 'ai_summary'
+export type PostCallJobStatus = 'pending' | 'running' | 'completed' | 'failed'
+
+export interface PostCallJob {
+  job_id: string
+  call_id: string
+  owner_id: string
+  job_type: PostCallJobType
+  status: PostCallJobStatus
+  attempts: number
+  max_attempts: number
+  run_at: string
+  locked_at: string | null
+  last_error: string | null
+  result: any
+  created_at: string
+  updated_at: string
+  completed_at: string | null
+}
+
+// What the call history shows for a call's post-call processing
+export type PostCallSummaryStatus = 'pending' | 'failed' | 'done'
+
+export const POST_CALL_JOB_TYPES: PostCallJobType[] = ['post_call_steps', 'ai_summary']
+
+export class PostCallJobService {
+  // Queue (or re-queue) post-call jobs for a call; the server worker picks them up
+  static async enqueue(callId: string, ownerId: string, jobTypes: PostCallJobType[] = POST_CALL_JOB_TYPES): Promise<boolean> {
+    try {
+      const now = new Date().toISOString()
+      const { error } = await supabase
+        .from('post_call_jobs')
+        .upsert(jobTypes.map(jobType => ({
+          call_id: callId,
+          owner_id: ownerId,
+          job_type: jobType,
+          status: 'pending',
+          attempts: 0,
+          run_at: now,
+          locked_at: null,
+          last_error: null,
+          completed_at: null,
+          updated_at: now,
+        })), { onConflict: 'call_id,job_type' })
+
+      if (error) {
+        console.error('Error enqueueing post-call jobs:', error)
+        return false
+      }
+      return true
+    } catch (error) {
+      console.error('Error enqueueing post-call jobs:', error)
+      return false
+    }
+  }
+
+  // Jobs for several calls, grouped by call_id
+  static async getJobsForCalls(callIds: string[]): Promise<Record<string, PostCallJob[]>> {
+    if (callIds.length === 0) return {}
+    try {
+      const { data, error } = await supabase
+        .from('post_call_jobs')
+        .select('*')
+        .in('call_id', callIds)
+
+      if (error) {
+        console.error('Error fetching post-call jobs:', error)
+        return {}
+      }
+
+      const byCall: Record<string, PostCallJob[]> = {}
+      for (const job of (data || []) as PostCallJob[]) {
+        (byCall[job.call_id] ||= []).push(job)
+      }
+      return byCall
+    } catch (error) {
+      console.error('Error fetching post-call jobs:', error)
+      return {}
+    }
+  }
+
+  // Give failed jobs a fresh set of attempts
+  static async retryFailed(callId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('post_call_jobs')
+        .update({
+          status: 'pending',
+          attempts: 0,
+          run_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('call_id', callId)
+        .eq('status', 'failed')
+
+      if (error) {
+        console.error('Error retrying post-call jobs:', error)
+        return false
+      }
+      return true
+    } catch (error) {
+      console.error('Error retrying post-call jobs:', error)
+      return false
+    }
+  }
+
+  // Any failure wins, then anything still to run; null when nothing was queued
+  static summarize(jobs: PostCallJob[] | undefined): PostCallSummaryStatus | null {
+    if (!jobs || jobs.length === 0) return null
+    if (jobs.some(job => job.status === 'failed')) return 'failed'
+    if (jobs.some(job => job.status === 'pending' || job.status === 'running')) return 'pending'
+    return 'done'
+  }
+}
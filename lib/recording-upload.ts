@@ -0,0 +1,237 @@
+import { supabase } from './supabase'
+import { CallManager } from './call-management'
+import { AudioUploadService } from './audio-upload'
+import { transcriptionHttpUrl } from './service-config'
+
+export type RecordingTrack = 'mic' | 'system'
+
+export interface RecordingPart {
+  index: number
+  path: string
+  size: number
+  uploaded_at: string
+}
+
+// Row in recording_manifests (database/migrations/0002_add_recording_manifests.up.sql)
+export interface RecordingManifest {
+  recording_id: string
+  call_id: string
+  owner_id: string
+  track: RecordingTrack
+  mime_type: string
+  status: 'recording' | 'finalizing' | 'finalized' | 'failed'
+  parts: RecordingPart[]
+  final_path: string | null
+  final_size: number | null
+  created_at: string
+  updated_at: string
+}
+
+const RECORDINGS_BUCKET = 'call-recordings'
+const MAX_PART_ATTEMPTS = 5
+const RETRY_BASE_DELAY_MS = 500
+
+// Recordings whose manifest has not been touched for this long are treated as abandoned
+const ABANDONED_AFTER_MS = 5 * 60 * 1000
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+const partPath = (manifest: RecordingManifest, index: number) =>
+  `${manifest.owner_id}/${manifest.call_id}/recordings/${manifest.recording_id}/part_${String(index).padStart(6, '0')}.webm`
+
+// Streams MediaRecorder chunks to storage as they arrive instead of holding the call in memory.
+// Parts upload one at a time and in order, so the manifest always lists a contiguous prefix
+// of the recording; a part that keeps failing is retried when the next chunk arrives.
+export class ChunkedRecordingUpload {
+  private queue: Array<{ index: number; blob: Blob }> = []
+  private nextIndex: number
+  private draining: Promise<void> | null = null
+
+  private constructor(public manifest: RecordingManifest) {
+    this.nextIndex = manifest.parts.length
+  }
+
+  // Create the manifest for a new recording
+  static async start(callId: string, userId: string, track: RecordingTrack, mimeType: string = 'audio/webm'): Promise<ChunkedRecordingUpload | null> {
+    try {
+      const { data, error } = await supabase
+        .from('recording_manifests')
+        .insert([{
+          call_id: callId,
+          owner_id: userId,
+          track,
+          mime_type: mimeType,
+          status: 'recording',
+          parts: [],
+        }])
+        .select()
+        .single()
+
+      if (error || !data) {
+        console.error('Error creating recording manifest:', error)
+        return null
+      }
+
+      return new ChunkedRecordingUpload(data as RecordingManifest)
+    } catch (error) {
+      console.error('Error creating recording manifest:', error)
+      return null
+    }
+  }
+
+  get recordingId(): string {
+    return this.manifest.recording_id
+  }
+
+  get hasParts(): boolean {
+    return this.manifest.parts.length > 0 || this.queue.length > 0
+  }
+
+  addChunk(blob: Blob): void {
+    if (blob.size === 0) return
+    this.queue.push({ index: this.nextIndex++, blob })
+    void this.drain()
+  }
+
+  // Wait for queued parts; resolves true when everything recorded so far is in storage
+  async flush(): Promise<boolean> {
+    await this.drain()
+    if (this.queue.length > 0) {
+      // One more pass for parts that failed while the previous one was running
+      await this.drain()
+    }
+    return this.queue.length === 0
+  }
+
+  // Flush and stitch the parts into the final object; returns its storage path
+  async finalize(): Promise<string | null> {
+    const flushed = await this.flush()
+    if (!flushed) {
+      console.warn(`Finalizing recording ${this.recordingId} without ${this.queue.length} parts that failed to upload`)
+    }
+    if (this.manifest.parts.length === 0) return null
+    return ChunkedRecordingUpload.finalizeRecording(this.recordingId)
+  }
+
+  private drain(): Promise<void> {
+    if (!this.draining) {
+      this.draining = this.uploadQueued().finally(() => {
+        this.draining = null
+      })
+    }
+    return this.draining
+  }
+
+  private async uploadQueued(): Promise<void> {
+    while (this.queue.length > 0) {
+      const uploaded = await this.uploadPart(this.queue[0])
+      if (!uploaded) return
+      this.queue.shift()
+    }
+  }
+
+  private async uploadPart(part: { index: number; blob: Blob }): Promise<boolean> {
+    const path = partPath(this.manifest, part.index)
+
+    for (let attempt = 1; attempt <= MAX_PART_ATTEMPTS; attempt++) {
+      try {
+        // upsert so a part retried after a lost response does not fail as a duplicate
+        const { error: uploadError } = await supabase.storage
+          .from(RECORDINGS_BUCKET)
+          .upload(path, part.blob, { contentType: this.manifest.mime_type, upsert: true })
+        if (uploadError) throw uploadError
+
+        const parts = [...this.manifest.parts, {
+          index: part.index,
+          path,
+          size: part.blob.size,
+          uploaded_at: new Date().toISOString(),
+        }]
+        const { error: manifestError } = await supabase
+          .from('recording_manifests')
+          .update({ parts, updated_at: new Date().toISOString() })
+          .eq('recording_id', this.recordingId)
+        if (manifestError) throw manifestError
+
+        this.manifest = { ...this.manifest, parts }
+        return true
+      } catch (error) {
+        console.warn(`Recording part ${part.index} upload failed (attempt ${attempt}/${MAX_PART_ATTEMPTS}):`, error)
+        if (attempt < MAX_PART_ATTEMPTS) {
+          await wait(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1))
+        }
+      }
+    }
+    return false
+  }
+
+  // Ask the transcription server to stitch a recording's parts; idempotent
+  static async finalizeRecording(recordingId: string): Promise<string | null> {
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      const response = await fetch(transcriptionHttpUrl(`/api/recordings/${recordingId}/finalize`), {
+        method: 'POST',
+        headers: session?.access_token ? { Authorization: `Bearer ${session.access_token}` } : {},
+      })
+
+      if (!response.ok) {
+        console.error('Error finalizing recording:', response.status, await response.text())
+        return null
+      }
+
+      const result = await response.json()
+      return result.final_path || null
+    } catch (error) {
+      console.error('Error finalizing recording:', error)
+      return null
+    }
+  }
+
+  // Finalize recordings left unfinished by a crash or closed tab and attach them to their calls.
+  // The mic track is preferred over system audio, as at the end of a normal call.
+  static async finalizeAbandonedRecordings(userId: string): Promise<number> {
+    try {
+      const staleBefore = new Date(Date.now() - ABANDONED_AFTER_MS).toISOString()
+      const { data, error } = await supabase
+        .from('recording_manifests')
+        .select('*')
+        .eq('owner_id', userId)
+        .in('status', ['recording', 'finalizing'])
+        .lt('updated_at', staleBefore)
+
+      if (error) {
+        console.error('Error loading unfinished recordings:', error)
+        return 0
+      }
+
+      const manifests = ((data || []) as RecordingManifest[])
+        .filter(manifest => manifest.parts.length > 0)
+        .sort((a, b) => (a.track === 'mic' ? 1 : 0) - (b.track === 'mic' ? 1 : 0))
+
+      let finalized = 0
+      const recoveredCalls = new Set<string>()
+      // System tracks come first, so a mic track for the same call overwrites the recording path
+      for (const manifest of manifests) {
+        const finalPath = await this.finalizeRecording(manifest.recording_id)
+        if (!finalPath) continue
+        finalized += 1
+        recoveredCalls.add(manifest.call_id)
+        const saved = await CallManager.updateCallRecording(manifest.call_id, finalPath)
+        if (!saved.ok) console.error('Failed to save recovered recording path:', saved.error.message)
+      }
+
+      // The server picks up each call's finalized tracks itself
+      for (const callId of recoveredCalls) {
+        await AudioUploadService.processCallRecording(callId)
+      }
+
+      if (finalized > 0) {
+        console.log(`Recovered ${finalized} unfinished recording(s)`)
+      }
+      return finalized
+    } catch (error) {
+      console.error('Error recovering unfinished recordings:', error)
+      return 0
+    }
+  }
+}
@@ -0,0 +1,93 @@
+// Client-side endpoints for the transcription WebSocket and the AI backend.
+// Resolution order: user settings saved in localStorage, then NEXT_PUBLIC_* env vars, then local defaults.
+
+export interface ServiceConfig {
+  transcriptionWsUrl: string
+  aiBackendUrl: string
+}
+
+export type ServiceConfigOverrides = Partial<ServiceConfig>
+
+const STORAGE_KEY = 'sally_service_config'
+
+const DEFAULT_SERVICE_CONFIG: ServiceConfig = {
+  transcriptionWsUrl: 'ws://localhost:3001',
+  aiBackendUrl: 'http://localhost:8000',
+}
+
+// NEXT_PUBLIC_* values are inlined at build time, so they must be read with literal property access
+const envServiceConfig: ServiceConfigOverrides = {
+  transcriptionWsUrl: process.env.NEXT_PUBLIC_TRANSCRIPTION_WS_URL || undefined,
+  aiBackendUrl: process.env.NEXT_PUBLIC_AI_BACKEND_URL || undefined,
+}
+
+const stripTrailingSlash = (url: string) => url.trim().replace(/\/+$/, '')
+
+function pickDefined(overrides: ServiceConfigOverrides): ServiceConfigOverrides {
+  const result: ServiceConfigOverrides = {}
+  if (overrides.transcriptionWsUrl && overrides.transcriptionWsUrl.trim()) {
+    result.transcriptionWsUrl = stripTrailingSlash(overrides.transcriptionWsUrl)
+  }
+  if (overrides.aiBackendUrl && overrides.aiBackendUrl.trim()) {
+    result.aiBackendUrl = stripTrailingSlash(overrides.aiBackendUrl)
+  }
+  return result
+}
+
+// User overrides saved from the settings modal
+export function getServiceConfigOverrides(): ServiceConfigOverrides {
+  if (typeof window === 'undefined') return {}
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    return raw ? pickDefined(JSON.parse(raw)) : {}
+  } catch (error) {
+    console.warn('Ignoring unreadable service config overrides:', error)
+    return {}
+  }
+}
+
+export function setServiceConfigOverrides(overrides: ServiceConfigOverrides): void {
+  if (typeof window === 'undefined') return
+  const cleaned = pickDefined(overrides)
+  if (Object.keys(cleaned).length === 0) {
+    localStorage.removeItem(STORAGE_KEY)
+    return
+  }
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(cleaned))
+}
+
+export function clearServiceConfigOverrides(): void {
+  if (typeof window === 'undefined') return
+  localStorage.removeItem(STORAGE_KEY)
+}
+
+// Effective config, without user overrides
+export function getDefaultServiceConfig(): ServiceConfig {
+  return {
+    ...DEFAULT_SERVICE_CONFIG,
+    ...pickDefined(envServiceConfig),
+  }
+}
+
+export function getServiceConfig(): ServiceConfig {
+  return {
+    ...getDefaultServiceConfig(),
+    ...getServiceConfigOverrides(),
+  }
+}
+
+// Build a full AI backend URL, e.g. aiBackendUrl('/api/analyze-disco')
+export function aiBackendUrl(path: string): string {
+  const base = getServiceConfig().aiBackendUrl
+  return `${base}${path.startsWith('/') ? path : `/${path}`}`
+}
+
+export function transcriptionWsUrl(): string {
+  return getServiceConfig().transcriptionWsUrl
+}
+
+// HTTP routes on the transcription server share its host, e.g. transcriptionHttpUrl('/api/batch-transcriptions')
+export function transcriptionHttpUrl(path: string): string {
+  const base = transcriptionWsUrl().replace(/^ws(s?):\/\//, 'http$1://')
+  return `${base}${path.startsWith('/') ? path : `/${path}`}`
+}
@@ -1,4 +1,6 @@
 import { createClient } from '@supabase/supabase-js'
+import type { DiscoData } from './disco'
+import type { FrameworkId } from './frameworks'
 
 // Get environment variables with fallbacks for Electron
 // const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || 
@@ -34,7 +36,7 @@ export interface UserProfile {
   full_name: string
   date_joined: string
   email: string
-  organisation: string
+  organisation: string // name typed at sign-up; membership lives in organisation_members (lib/organisations.ts)
   uid: string
   purpose: string
   outlook_connected: boolean
@@ -45,26 +47,63 @@ export interface UserProfile {
 }
 
 // Transcript-related interfaces
+export interface TranscriptWord {
+  word: string
+  start: number // seconds from the start of the recording
+  end: number
+  confidence?: number
+  speaker?: number | null
+}
+
 export interface TranscriptEntry {
   id: string
+  order?: number // position, set on entries saved at the end of a call
   timestamp: string
   speaker: string
   text: string
   confidence?: number
+  start_time?: number // seconds from the start of the recording
+  end_time?: number
+  words?: TranscriptWord[]
   edited_by?: string
   edited_at?: string
   is_edited?: boolean
+  version?: number // bumped by every edit; missing means 0
+  reverted_revision_id?: string // set by a revert; earlier text is in transcript_revisions
+}
+
+// Format of a call's processed listening copy (server/recording-pipeline.js)
+export interface RecordingFormat {
+  mime_type: string
+  codec: string
+  sample_rate: number
+  channels: number
+  bitrate: string | null
+}
+
+// Row in call_members (database/migrations/0008_add_call_members.up.sql). The call's owner is not
+// listed; they have every right implicitly.
+export type CallRole = 'admin' | 'editor' | 'viewer'
+
+export interface CallMember {
+  call_id: string
+  email: string // lower case
+  user_id: string | null // null while the invite is pending: nobody with this email has signed up
+  role: CallRole
+  added_by: string | null
+  created_at: string
+  updated_at: string
 }
 
-export interface TranscriptPermissions {
-  admin: string // email of the admin
-  editors: string[] // array of editor emails
-  viewers: string[] // array of viewer emails (optional)
+// A call someone else owns that the user is a member of
+export interface SharedCall {
+  call: Call
+  role: CallRole
+  owner_name: string | null
 }
 
 export interface TranscriptData {
   entries: TranscriptEntry[]
-  permissions: TranscriptPermissions
   created_at: string
   updated_at: string
 }
@@ -97,39 +136,68 @@ export interface Call {
   
   // Media & Content
   voice_recording_path?: string
-  transcript: TranscriptData // JSON object with transcript data and permissions
+  recording_status?: 'processing' | 'ready' | 'failed' | null
+  recording_master_path?: string | null // canonical 16 kHz mono WAV
+  recording_source_paths?: string[] | null
+  recording_format?: RecordingFormat | null
+  recording_duration_seconds?: number | null
+  recording_size_bytes?: number | null
+  recording_error?: string | null
+  recording_processed_at?: string | null
+  transcript: TranscriptData // JSON object with the transcript entries
   transcript_speakers?: Record<string, any>
   
-  // DISCO Framework Data
-  disco_data?: Record<string, any>
+  // Team the call belongs to (lib/organisations.ts); its managers can read the call
+  team_id?: string | null
+
+  // Qualification framework (lib/frameworks.ts) whose fields disco_data holds; 'disco' for older rows
+  qualification_framework?: FrameworkId
+
+  // Framework insights; older rows may predate the canonical model, read with parseDiscoData
+  disco_data?: DiscoData
   
   // Post-Call Actions & Completion
-  post_call_actions: Record<string, 'completed' | 'inprogress' | 'unfinished'>
+  post_call_actions: PostCallActions
   post_call_completion: number
   tasks_completed: number
   total_tasks: number
   pending_tasks: number
-  labels?: Array<{ text: string; color: string }>
-  members_emails?: string[]
-  members_uids?: string[]
-  documents?: Array<{ name: string; size?: string; path?: string }>
+  labels?: CallLabel[]
+  documents?: CallDocument[]
   
   // Genie Content
-  genie_content: string[]
+  genie_content: GenieContent
   
   created_at: string
   updated_at: string
 }
 
 // Additional interfaces
-export interface DiscoData {
-  decision_criteria?: string[]
-  impact?: string[]
-  situation?: string[]
-  challenges?: string[]
-  objectives?: string[]
+// JSONB columns of calls; their runtime schemas are in lib/call-schemas.ts
+export type PostCallActions = Record<string, 'completed' | 'inprogress' | 'unfinished'>
+
+export interface CallLabel {
+  text: string
+  color: string
 }
 
+export interface CallDocument {
+  name: string
+  path?: string
+  size?: string | number // number when copied from an upcoming call
+  type?: string
+  uploaded_at?: string
+}
+
+// Genie panel output kept at the end of a call
+export interface GenieContent {
+  live_analysis: Array<{ content: string; type: string; order?: number }>
+  ai_chat_qna: Array<{ question: string; answer: string; timestamp: string }>
+}
+
+// calls.disco_data uses the canonical model in lib/disco.ts
+export type { DiscoData } from './disco'
+
 // Call creation interface
 export interface CreateCallData {
   title: string
@@ -137,12 +205,13 @@ export interface CreateCallData {
   meetingAgenda: string[]
   meetingDescription?: string
   attendeeEmails: string[]
-  transcriptAdminEmail: string
   callLink?: string
   assistantId?: string
   threadId?: string
   botId?: string
   meetingId?: string
+  framework?: FrameworkId // defaults to the organisation's framework
+  teamId?: string // defaults to the owner's first team
 }
 
 // Call update interface
@@ -152,8 +221,8 @@ export interface UpdateCallData {
   transcript?: TranscriptData
   ai_summary?: string
   disco_data?: DiscoData
-  post_call_actions?: Record<string, 'completed' | 'inprogress' | 'unfinished'>
-  genie_content?: string[]
+  post_call_actions?: PostCallActions
+  genie_content?: GenieContent
   voice_recording_path?: string
 }
 
@@ -0,0 +1,82 @@
+import { describe, expect, it, vi } from 'vitest'
+import { DiffPart, TranscriptRevision, diffWords, originalEntryText } from './transcript-revisions'
+
+// Only the pure helpers are tested; the service's queries need the shared client
+vi.mock('./supabase', () => ({ supabase: {} }))
+
+const revision = (previousText: string | null, newText: string | null): TranscriptRevision => ({
+  revision_id: `rev-${Math.random().toString(36).slice(2, 8)}`,
+  call_id: 'call-1',
+  entry_id: 'e1',
+  previous_text: previousText,
+  new_text: newText,
+  editor_email: 'editor@sally.test',
+  reverted_revision_id: null,
+  created_at: '2026-10-19T09:05:00.000Z',
+})
+
+// The parts of a diff rebuild either side exactly
+const before = (parts: DiffPart[]) => parts.filter(part => part.type !== 'added').map(part => part.text).join('')
+const after = (parts: DiffPart[]) => parts.filter(part => part.type !== 'removed').map(part => part.text).join('')
+
+describe('diffWords', () => {
+  it('marks replaced words as removed and added', () => {
+    expect(diffWords('we need it by May', 'we need it by June')).toEqual([
+      { type: 'same', text: 'we need it by ' },
+      { type: 'removed', text: 'May' },
+      { type: 'added', text: 'June' },
+    ])
+  })
+
+  it('keeps every space, tab and line break of both texts', () => {
+    const original = '  budget   is\tapproved\n for Q3 '
+    const edited = '  budget is\tnot approved\n for Q3 '
+    const parts = diffWords(original, edited)
+
+    expect(before(parts)).toBe(original)
+    expect(after(parts)).toBe(edited)
+    expect(parts.filter(part => part.type === 'added' && part.text.trim()).map(part => part.text)).toEqual(['not '])
+  })
+
+  it('keeps a word the same when only the whitespace after it changed', () => {
+    expect(diffWords('hello  world', 'hello world')).toEqual([
+      { type: 'same', text: 'hello' },
+      { type: 'removed', text: '  ' },
+      { type: 'added', text: ' ' },
+      { type: 'same', text: 'world' },
+    ])
+  })
+
+  it('diffs leading whitespace on its own', () => {
+    expect(diffWords('  indented', 'indented')).toEqual([
+      { type: 'removed', text: '  ' },
+      { type: 'same', text: 'indented' },
+    ])
+  })
+
+  it('handles empty strings on either side', () => {
+    expect(diffWords('', '')).toEqual([])
+    expect(diffWords('', 'new text')).toEqual([{ type: 'added', text: 'new text' }])
+    expect(diffWords('old text', '')).toEqual([{ type: 'removed', text: 'old text' }])
+  })
+
+  it('returns one same part for identical texts', () => {
+    expect(diffWords('no changes here', 'no changes here')).toEqual([{ type: 'same', text: 'no changes here' }])
+  })
+})
+
+describe('originalEntryText', () => {
+  it('is the current text while the entry has no revisions', () => {
+    expect(originalEntryText('as transcribed', [])).toBe('as transcribed')
+  })
+
+  it('is the text before the first revision', () => {
+    const revisions = [revision('as transcribed', 'first edit'), revision('first edit', 'second edit')]
+    expect(originalEntryText('second edit', revisions)).toBe('as transcribed')
+  })
+
+  it('is empty when the first revision had no previous text', () => {
+    expect(originalEntryText('added later', [revision(null, 'added later')])).toBe('')
+    expect(originalEntryText('typed in', [revision('', 'typed in')])).toBe('')
+  })
+})
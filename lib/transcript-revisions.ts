@@ -0,0 +1,144 @@
+import { supabase } from './supabase'
+
+// Row in transcript_revisions (database/migrations/0006_add_transcript_revisions.up.sql). Rows are
+// written by a trigger whenever an entry's text changes in calls.transcript and are never updated.
+export interface TranscriptRevision {
+  revision_id: string
+  call_id: string
+  entry_id: string
+  previous_text: string | null
+  new_text: string | null
+  editor_email: string | null // null when the server changed the text
+  reverted_revision_id: string | null
+  created_at: string
+}
+
+export interface DiffPart {
+  type: 'same' | 'added' | 'removed'
+  text: string
+}
+
+export class TranscriptRevisionService {
+  // Revisions of one entry, oldest first
+  static async getEntryRevisions(callId: string, entryId: string): Promise<TranscriptRevision[]> {
+    try {
+      const { data, error } = await supabase
+        .from('transcript_revisions')
+        .select('*')
+        .eq('call_id', callId)
+        .eq('entry_id', entryId)
+        .order('created_at', { ascending: true })
+
+      if (error) {
+        console.error('Error fetching transcript revisions:', error)
+        return []
+      }
+      return data || []
+    } catch (error) {
+      console.error('Error fetching transcript revisions:', error)
+      return []
+    }
+  }
+
+  // Revisions of every entry of a call, oldest first, grouped by entry id
+  static async getCallRevisions(callId: string): Promise<Record<string, TranscriptRevision[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('transcript_revisions')
+        .select('*')
+        .eq('call_id', callId)
+        .order('created_at', { ascending: true })
+
+      if (error) {
+        console.error('Error fetching transcript revisions:', error)
+        return {}
+      }
+
+      const byEntry: Record<string, TranscriptRevision[]> = {}
+      for (const revision of (data || []) as TranscriptRevision[]) {
+        if (!byEntry[revision.entry_id]) byEntry[revision.entry_id] = []
+        byEntry[revision.entry_id].push(revision)
+      }
+      return byEntry
+    } catch (error) {
+      console.error('Error fetching transcript revisions:', error)
+      return {}
+    }
+  }
+
+  static async getRevision(revisionId: string): Promise<TranscriptRevision | null> {
+    try {
+      const { data, error } = await supabase
+        .from('transcript_revisions')
+        .select('*')
+        .eq('revision_id', revisionId)
+        .maybeSingle()
+
+      if (error) {
+        console.error('Error fetching transcript revision:', error)
+        return null
+      }
+      return data
+    } catch (error) {
+      console.error('Error fetching transcript revision:', error)
+      return null
+    }
+  }
+}
+
+// Text of an entry as the transcription produced it: before its first revision
+export const originalEntryText = (currentText: string, revisions: TranscriptRevision[]) =>
+  revisions.length > 0 ? revisions[0].previous_text ?? '' : currentText
+
+/**
+ * Word-level diff from `before` to `after` (longest common subsequence).
+ * Whitespace is kept with the word it follows, and leading whitespace is a
+ * part of its own, so the parts join back into the original strings. A word
+ * whose following whitespace changed stays `same`; only the whitespace is
+ * removed and added.
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = before.match(/^\s+|\S+\s*/g) || []
+  const b = after.match(/^\s+|\S+\s*/g) || []
+  const same = (x: string, y: string) => x.trim() === y.trim()
+
+  // lengths[i][j]: longest common subsequence of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = same(a[i], b[j]) ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const parts: DiffPart[] = []
+  const push = (type: DiffPart['type'], text: string) => {
+    if (!text) return
+    const last = parts[parts.length - 1]
+    if (last && last.type === type) last.text += text
+    else parts.push({ type, text })
+  }
+
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (same(a[i], b[j])) {
+      if (a[i] === b[j]) {
+        push('same', b[j])
+      } else {
+        const word = b[j].trim()
+        push('same', word)
+        push('removed', a[i].slice(word.length))
+        push('added', b[j].slice(word.length))
+      }
+      i++
+      j++
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push('removed', a[i++])
+    } else {
+      push('added', b[j++])
+    }
+  }
+  while (i < a.length) push('removed', a[i++])
+  while (j < b.length) push('added', b[j++])
+  return parts
+}
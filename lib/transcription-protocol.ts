@@ -0,0 +1,85 @@
+// Shapes shared with server/transcription-server.js
+import { TranscriptEntry } from './supabase'
+
+// `code` on server `error` messages when a session is rejected
+export type TranscriptionAuthErrorCode =
+  | 'missing_token'
+  | 'invalid_token'
+  | 'missing_call_id'
+  | 'call_not_found'
+  | 'call_forbidden'
+  | 'auth_unavailable'
+  | 'not_authenticated'
+  | 'handshake_timeout'
+
+// WebSocket close codes used when the server rejects a session
+export const TRANSCRIPTION_AUTH_CLOSE_CODES = {
+  unauthorized: 4401,
+  forbidden: 4403,
+  handshakeTimeout: 4408,
+} as const
+
+export const isAuthCloseCode = (code: number) =>
+  Object.values(TRANSCRIPTION_AUTH_CLOSE_CODES).includes(code as any)
+
+export const TRANSCRIPTION_AUTH_ERROR_MESSAGES: Record<TranscriptionAuthErrorCode, string> = {
+  missing_token: 'You need to be signed in to start transcription',
+  invalid_token: 'Your session has expired. Please sign in again',
+  missing_call_id: 'Transcription could not be linked to a call',
+  call_not_found: 'This call could not be found',
+  call_forbidden: 'You do not have access to transcribe this call',
+  auth_unavailable: 'The transcription server is not configured for sign-in',
+  not_authenticated: 'Transcription session was not authenticated',
+  handshake_timeout: 'Transcription server did not receive a sign-in in time',
+}
+
+// Each channel is transcribed in its own upstream session. `mic` is always the local user;
+// `system` carries the remote participants and is the only channel that is diarized
+export type AudioChannel = 'mic' | 'system'
+
+export interface StartTranscriptionMessage {
+  type: 'start_transcription'
+  access_token: string
+  call_id: string
+  diarization: boolean
+  channels?: AudioChannel[]
+  // Label for mic transcripts; defaults to the user's email
+  local_speaker?: string
+  // Last final entry the client has; the server replays anything journaled after it
+  last_entry_id?: string | null
+}
+
+// 16kHz linear16 PCM, base64 encoded
+export interface AudioDataMessage {
+  type: 'audio_data'
+  channel: AudioChannel
+  data: string
+}
+
+// Sent on reconnect to pick up a session the server is still holding
+export interface ResumeSessionMessage {
+  type: 'resume'
+  session_id: string
+  last_seq: number
+  access_token: string
+}
+
+// Sent whenever Supabase refreshes the session; the server writes the transcript as the user,
+// so it needs a token that outlives the one sent with start_transcription
+export interface RefreshTokenMessage {
+  type: 'refresh_token'
+  access_token: string
+}
+
+// Confirms sequenced messages up to `seq` so the server can stop keeping them for replay
+export interface AckMessage {
+  type: 'ack'
+  seq: number
+}
+
+// Sent after start_transcription when the server journal holds entries the client is missing
+export interface TranscriptBackfillMessage {
+  type: 'transcript_backfill'
+  call_id: string
+  entries: TranscriptEntry[]
+}
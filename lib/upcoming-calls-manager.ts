@@ -1,5 +1,7 @@
 import { supabase } from './supabase'
-import axios from 'axios'
+import { AiBackendClient } from './ai-backend'
+import { FrameworkId } from './frameworks'
+import { OrganisationService } from './organisations'
 import { Request, Response, NextFunction } from 'express'
 
 export interface UpcomingCall {
@@ -18,6 +20,8 @@ export interface UpcomingCall {
   thread_id?: string
   bot_id?: string
   meeting_id?: string
+  qualification_framework?: FrameworkId | null // null: the organisation's framework when the call starts
+  team_id?: string | null
   created_at: string
   updated_at: string
 }
@@ -32,21 +36,9 @@ export interface DocumentInfo {
 
 export class UpcomingCallsManager {
   // FUNCTIONS TO BE REPLACED: Generate placeholder unique IDs for bot and meeting
+  // Resolves to the bot ID; failures reach the caller as AiBackendError
   static async generatePlaceholderId(meetingUrl?: string): Promise<string> {
-    try {
-      const response = await axios.post('http://localhost:8000/api/recall-bot', {
-        meeting_url: meetingUrl || ''
-      });
-      
-      console.log('✅ Success:', response.data.success);
-      console.log('🤖 Bot ID:', response.data);
-      
-      return response.data; // Return the bot ID string directly
-      
-    } catch (error: any) {
-      console.log('❌ Error:', error.response?.data || error.message);
-      throw error;
-    }
+    return AiBackendClient.recallBot(meetingUrl || '')
   }
 
   // Get a single upcoming call by ID
@@ -85,6 +77,8 @@ export class UpcomingCallsManager {
       threadId?: string
       botId?: string
       meetingId?: string
+      framework?: FrameworkId
+      teamId?: string
     }
   ): Promise<UpcomingCall | null> {
     try {
@@ -114,6 +108,8 @@ export class UpcomingCallsManager {
           call_link: callData.callLink ?? null,
           assistant_id: callData.assistantId ?? null,
           thread_id: callData.threadId ?? null,
+          qualification_framework: callData.framework ?? null,
+          team_id: callData.teamId ?? await OrganisationService.getDefaultTeamId(userId),
           // FUNCTIONS TO BE REPLACED: placeholder IDs below
           bot_id: botId,
           meeting_id: meetingId
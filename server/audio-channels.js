@@ -0,0 +1,53 @@
+/**
+ * Audio channels a client can stream on one socket. Each channel gets its own
+ * upstream provider session so the local user's microphone is never mixed
+ * with, or diarized against, the remote participants on system audio.
+ */
+const AUDIO_CHANNELS = {
+  MIC: 'mic',
+  SYSTEM: 'system'
+};
+
+// Untagged audio_data frames predate channels and carried the mixed call audio
+const DEFAULT_AUDIO_CHANNEL = AUDIO_CHANNELS.SYSTEM;
+
+/**
+ * @param {unknown} value - `channel` from an audio_data or start_transcription message
+ * @returns {string | null} the channel name, or null if it is not one we know
+ */
+function parseAudioChannel(value) {
+  if (value === undefined || value === null) return DEFAULT_AUDIO_CHANNEL;
+  return Object.values(AUDIO_CHANNELS).includes(value) ? value : null;
+}
+
+// Only remote participants are diarized; the mic is always one known speaker
+function channelUsesDiarization(channelName, diarization) {
+  return channelName !== AUDIO_CHANNELS.MIC && diarization;
+}
+
+/**
+ * Per-channel upstream session state.
+ *
+ * @param {string} name
+ */
+function createChannelState(name) {
+  return {
+    name,
+    provider: null,
+    isRestarting: false,
+    pendingAudio: [],
+    pendingAudioBytes: 0,
+    audioBytesSent: 0,
+    sessionsOpened: 0,
+    lastFinalTranscript: '',
+    lastInterimTranscript: ''
+  };
+}
+
+module.exports = {
+  AUDIO_CHANNELS,
+  DEFAULT_AUDIO_CHANNEL,
+  parseAudioChannel,
+  channelUsesDiarization,
+  createChannelState
+};
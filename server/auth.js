@@ -0,0 +1,161 @@
+const { createClient } = require('@supabase/supabase-js');
+
+const SUPABASE_URL = process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL;
+const SUPABASE_ANON_KEY = process.env.SUPABASE_ANON_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+// Only for background work that has no user behind it (post-call jobs); bypasses row level security
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+// Error codes sent to clients in `error` messages; keep in sync with lib/transcription-protocol.ts
+const AUTH_ERROR_CODES = {
+  MISSING_TOKEN: 'missing_token',
+  INVALID_TOKEN: 'invalid_token',
+  MISSING_CALL_ID: 'missing_call_id',
+  CALL_NOT_FOUND: 'call_not_found',
+  CALL_FORBIDDEN: 'call_forbidden',
+  AUTH_UNAVAILABLE: 'auth_unavailable',
+  NOT_AUTHENTICATED: 'not_authenticated',
+  HANDSHAKE_TIMEOUT: 'handshake_timeout'
+};
+
+// WebSocket close codes (4000-4999 are reserved for applications)
+const AUTH_CLOSE_CODES = {
+  UNAUTHORIZED: 4401,
+  FORBIDDEN: 4403,
+  HANDSHAKE_TIMEOUT: 4408
+};
+
+class SessionAuthError extends Error {
+  constructor(code, message, closeCode = AUTH_CLOSE_CODES.UNAUTHORIZED) {
+    super(message);
+    this.name = 'SessionAuthError';
+    this.code = code;
+    this.closeCode = closeCode;
+  }
+}
+
+// Local development only: lets the replay provider run without a Supabase project
+function isAuthDisabled() {
+  return process.env.TRANSCRIPTION_AUTH === 'disabled';
+}
+
+/**
+ * Supabase client that acts as the user behind `accessToken`, so row level
+ * security applies to every query made with it.
+ */
+function createSupabaseForToken(accessToken) {
+  return createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+    global: { headers: { Authorization: `Bearer ${accessToken}` } },
+    auth: { persistSession: false, autoRefreshToken: false }
+  });
+}
+
+/**
+ * Supabase client with the service role, or null when no service key is
+ * configured. Callers must scope every query themselves.
+ */
+function createServiceSupabase() {
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) return null;
+  return createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { persistSession: false, autoRefreshToken: false }
+  });
+}
+
+/**
+ * Verify a Supabase access token.
+ *
+ * @param {string | undefined} accessToken
+ * @returns {Promise<{ user: { id: string, email?: string }, supabase: any }>}
+ */
+async function authenticateUser(accessToken) {
+  if (isAuthDisabled()) {
+    return { user: { id: 'local-dev' }, supabase: null };
+  }
+
+  if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+    throw new SessionAuthError(AUTH_ERROR_CODES.AUTH_UNAVAILABLE, 'Transcription server is missing SUPABASE_URL / SUPABASE_ANON_KEY');
+  }
+  if (!accessToken) {
+    throw new SessionAuthError(AUTH_ERROR_CODES.MISSING_TOKEN, 'An access token is required');
+  }
+
+  const supabase = createSupabaseForToken(accessToken);
+
+  const { data: userData, error: userError } = await supabase.auth.getUser(accessToken);
+  if (userError || !userData?.user) {
+    throw new SessionAuthError(AUTH_ERROR_CODES.INVALID_TOKEN, 'Access token is invalid or expired');
+  }
+
+  return { user: { id: userData.user.id, email: userData.user.email }, supabase };
+}
+
+/**
+ * Verify the Supabase access token presented in `start_transcription` and
+ * check that the user owns the call the session is for.
+ *
+ * @param {{ accessToken?: string, callId?: string }} handshake
+ * @returns {Promise<{ user: { id: string, email?: string }, callId: string, supabase: any }>}
+ */
+async function authenticateSession({ accessToken, callId }) {
+  if (isAuthDisabled()) {
+    return { user: { id: 'local-dev' }, callId: callId || null, supabase: null };
+  }
+
+  const { user, supabase } = await authenticateUser(accessToken);
+  if (!callId) {
+    throw new SessionAuthError(AUTH_ERROR_CODES.MISSING_CALL_ID, 'A call_id is required to start transcription');
+  }
+
+  const { data: call, error: callError } = await supabase
+    .from('calls')
+    .select('call_id, owner_id')
+    .eq('call_id', callId)
+    .maybeSingle();
+
+  if (callError || !call) {
+    throw new SessionAuthError(AUTH_ERROR_CODES.CALL_NOT_FOUND, `Call ${callId} was not found`, AUTH_CLOSE_CODES.FORBIDDEN);
+  }
+  if (call.owner_id !== user.id) {
+    throw new SessionAuthError(AUTH_ERROR_CODES.CALL_FORBIDDEN, `Call ${callId} does not belong to this user`, AUTH_CLOSE_CODES.FORBIDDEN);
+  }
+
+  return { user, callId, supabase };
+}
+
+/**
+ * Bearer token auth for the server's HTTP routes. With a `callId` the user
+ * must own the call. Responds and returns null when the request is rejected.
+ *
+ * @returns {Promise<{ user: { id: string, email?: string }, supabase: any } | null>}
+ */
+async function authenticateHttpRequest(req, res, callId) {
+  const header = req.headers.authorization || '';
+  const accessToken = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : undefined;
+
+  try {
+    if (callId) {
+      return await authenticateSession({ accessToken, callId });
+    }
+    return await authenticateUser(accessToken);
+  } catch (error) {
+    if (error instanceof SessionAuthError) {
+      const status = error.closeCode === AUTH_CLOSE_CODES.FORBIDDEN ? 403 : 401;
+      res.status(status).json({ error: error.message, code: error.code });
+      return null;
+    }
+    console.error(`Error authenticating ${req.method} ${req.path}:`, error);
+    res.status(500).json({ error: 'Failed to authenticate request' });
+    return null;
+  }
+}
+
+module.exports = {
+  AUTH_ERROR_CODES,
+  AUTH_CLOSE_CODES,
+  SessionAuthError,
+  authenticateUser,
+  authenticateSession,
+  authenticateHttpRequest,
+  createSupabaseForToken,
+  createServiceSupabase,
+  isAuthDisabled
+};
@@ -0,0 +1,192 @@
+const crypto = require('crypto');
+const express = require('express');
+const { createTranscriptionProvider } = require('./providers');
+const { splitBySpeaker } = require('./speaker-segments');
+const { createTranscriptEntry } = require('./transcript-journal');
+const { authenticateHttpRequest } = require('./auth');
+
+const RECORDINGS_BUCKET = 'call-recordings';
+
+// Largest recording accepted as a direct upload; bigger files go through the call-recordings bucket
+const MAX_UPLOAD_BYTES = parseInt(process.env.BATCH_TRANSCRIPTION_MAX_UPLOAD_BYTES || String(100 * 1024 * 1024), 10);
+
+// Finished jobs are kept this long for the client to collect the result
+const JOB_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Progress through a batch job. The vendor call is a single request, so
+ * progress moves in steps rather than continuously.
+ */
+const JOB_STAGES = {
+  queued: 0,
+  fetching_audio: 10,
+  transcribing: 30,
+  formatting: 90,
+  completed: 100
+};
+
+// Batch jobs by id; in memory, so they do not survive a restart
+const jobs = new Map();
+
+/**
+ * Routes for transcribing recordings that already exist, e.g. calls recorded
+ * outside the app:
+ *   POST /api/batch-transcriptions         { recording_path, call_id?, diarization? }
+ *   POST /api/batch-transcriptions/upload  raw audio body, ?call_id=&diarization=
+ *   GET  /api/batch-transcriptions/:jobId  status, progress and, once done, the transcript
+ *
+ * The result is TranscriptData-ready entries; the client writes them to the
+ * call with CallManager.
+ */
+function createBatchTranscriptionRouter() {
+  const router = express.Router();
+
+  router.post('/api/batch-transcriptions', express.json(), async (req, res) => {
+    const { recording_path: recordingPath, call_id: callId } = req.body || {};
+    if (!recordingPath || typeof recordingPath !== 'string') {
+      return res.status(400).json({ error: 'recording_path is required' });
+    }
+
+    // Transcribing into an existing call requires owning it
+    const auth = await authenticateHttpRequest(req, res, callId);
+    if (!auth) return;
+
+    // Storage RLS scopes recordings to `<uid>/...`; check it here too so the error is clear
+    if (auth.supabase && !recordingPath.startsWith(`${auth.user.id}/`)) {
+      return res.status(403).json({ error: 'Recording does not belong to this user' });
+    }
+    if (!auth.supabase) {
+      return res.status(503).json({ error: 'Recording storage is not available without authentication' });
+    }
+
+    const job = createJob(auth.user.id, { callId, recordingPath });
+    runJob(job, parseDiarization(req.body.diarization), async () => {
+      const { data, error } = await auth.supabase.storage.from(RECORDINGS_BUCKET).download(recordingPath);
+      if (error || !data) {
+        throw new Error(`Could not download ${recordingPath}: ${error?.message || 'not found'}`);
+      }
+      return {
+        audio: Buffer.from(await data.arrayBuffer()),
+        mimetype: data.type || undefined
+      };
+    });
+
+    res.status(202).json(serializeJob(job));
+  });
+
+  router.post(
+    '/api/batch-transcriptions/upload',
+    // Authenticate before express.raw, so nothing is buffered for rejected requests
+    async (req, res, next) => {
+      const auth = await authenticateHttpRequest(req, res, req.query.call_id || undefined);
+      if (!auth) return;
+      res.locals.auth = auth;
+      next();
+    },
+    express.raw({ type: ['audio/*', 'video/*', 'application/octet-stream'], limit: MAX_UPLOAD_BYTES }),
+    async (req, res) => {
+      const callId = req.query.call_id || undefined;
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json({ error: 'Request body must be the audio file' });
+      }
+
+      const { auth } = res.locals;
+      const audio = req.body;
+      const mimetype = req.headers['content-type'];
+      const job = createJob(auth.user.id, { callId, recordingPath: null });
+      runJob(job, parseDiarization(req.query.diarization), async () => ({ audio, mimetype }));
+
+      res.status(202).json(serializeJob(job));
+    }
+  );
+
+  router.get('/api/batch-transcriptions/:jobId', async (req, res) => {
+    const auth = await authenticateHttpRequest(req, res);
+    if (!auth) return;
+
+    const job = jobs.get(req.params.jobId);
+    if (!job || job.userId !== auth.user.id) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+    res.json(serializeJob(job));
+  });
+
+  return router;
+}
+
+function parseDiarization(value) {
+  return value !== false && value !== 'false';
+}
+
+function createJob(userId, { callId, recordingPath }) {
+  const job = {
+    id: crypto.randomUUID(),
+    userId,
+    callId: callId || null,
+    recordingPath,
+    status: 'queued',
+    progress: JOB_STAGES.queued,
+    error: null,
+    result: null,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString()
+  };
+  jobs.set(job.id, job);
+  return job;
+}
+
+function setJobStage(job, status) {
+  job.status = status;
+  job.progress = JOB_STAGES[status];
+  job.updatedAt = new Date().toISOString();
+}
+
+/**
+ * Run a job in the background. `loadAudio` resolves to `{ audio, mimetype }`.
+ */
+async function runJob(job, diarization, loadAudio) {
+  try {
+    setJobStage(job, 'fetching_audio');
+    const { audio, mimetype } = await loadAudio();
+
+    setJobStage(job, 'transcribing');
+    console.log(`Batch job ${job.id}: transcribing ${audio.length} bytes (diarization: ${diarization})`);
+    const provider = createTranscriptionProvider({ diarization, language: 'en-US' });
+    const { results, duration } = await provider.transcribeFile(audio, { mimetype });
+
+    setJobStage(job, 'formatting');
+    const entries = results.flatMap((result) => splitBySpeaker(result).map((segment) => createTranscriptEntry({
+      text: segment.transcript,
+      speaker: segment.speaker !== null ? `Speaker ${segment.speaker + 1}` : 'Speaker',
+      confidence: segment.confidence,
+      words: segment.words
+    })));
+
+    job.result = { entries, duration };
+    setJobStage(job, 'completed');
+    console.log(`Batch job ${job.id}: completed with ${entries.length} entries`);
+  } catch (error) {
+    console.error(`Batch job ${job.id} failed:`, error);
+    job.status = 'failed';
+    job.error = error.message || 'Transcription failed';
+    job.updatedAt = new Date().toISOString();
+  } finally {
+    setTimeout(() => jobs.delete(job.id), JOB_TTL_MS).unref();
+  }
+}
+
+function serializeJob(job) {
+  return {
+    job_id: job.id,
+    call_id: job.callId,
+    recording_path: job.recordingPath,
+    status: job.status,
+    progress: job.progress,
+    error: job.error,
+    result: job.result,
+    created_at: job.createdAt,
+    updated_at: job.updatedAt
+  };
+}
+
+module.exports = { createBatchTranscriptionRouter };
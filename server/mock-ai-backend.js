@@ -0,0 +1,163 @@
+const crypto = require('crypto');
+const express = require('express');
+const cors = require('cors');
+
+/**
+ * Local stand-in for the AI backend, implementing the contract in
+ * lib/ai-backend.ts with canned, deterministic answers, so UI flows can be
+ * exercised offline. Point the app at it with NEXT_PUBLIC_AI_BACKEND_URL (or
+ * the Settings modal) and the post-call worker with AI_BACKEND_URL.
+ *
+ *   MOCK_AI_BACKEND_PORT       port to listen on (8000)
+ *   MOCK_AI_BACKEND_DELAY_MS   delay before every answer, to exercise loading states and timeouts (0)
+ *   MOCK_AI_BACKEND_FAIL_RATE  share of requests answered with 503, to exercise retries (0)
+ *   MOCK_AI_BACKEND_TOKEN_MS   delay between streamed tokens (40)
+ */
+const PORT = parseInt(process.env.MOCK_AI_BACKEND_PORT || '8000', 10);
+const DELAY_MS = parseInt(process.env.MOCK_AI_BACKEND_DELAY_MS || '0', 10);
+const FAIL_RATE = parseFloat(process.env.MOCK_AI_BACKEND_FAIL_RATE || '0');
+const TOKEN_MS = parseInt(process.env.MOCK_AI_BACKEND_TOKEN_MS || '40', 10);
+
+const app = express();
+app.use(cors());
+app.use(express.json({ limit: '5mb' }));
+
+app.use(async (req, res, next) => {
+  if (DELAY_MS > 0) {
+    await new Promise((resolve) => setTimeout(resolve, DELAY_MS));
+  }
+  if (FAIL_RATE > 0 && Math.random() < FAIL_RATE) {
+    return res.status(503).json({ error: 'Mock backend failure' });
+  }
+  next();
+});
+
+// Same required fields as the request schemas in lib/ai-backend.ts
+function requireFields(body, fields) {
+  const missing = fields.filter(([name, type]) => typeof body?.[name] !== type);
+  return missing.length > 0 ? `Missing or invalid: ${missing.map(([name]) => name).join(', ')}` : null;
+}
+
+function conversationLines(conversation) {
+  return (conversation || '').split('\n').map((line) => line.trim()).filter(Boolean);
+}
+
+// Fields of the framework the request asks for, or DISCO's
+const DISCO_FIELD_NAMES = ['Decision_Criteria', 'Impact', 'Situation', 'Challenges', 'Objectives'];
+
+app.post('/api/analyze-disco', (req, res) => {
+  const invalid = requireFields(req.body, [['conversation', 'string']]);
+  if (invalid) return res.status(400).json({ success: false, error: invalid });
+
+  const framework = req.body.context?.framework;
+  const fieldNames = Array.isArray(framework?.fields) ? framework.fields.map((field) => field.name) : DISCO_FIELD_NAMES;
+
+  // Incremental requests carry only the new entries; cite them the way the real backend does
+  const entries = Array.isArray(req.body.context?.entries) ? req.body.context.entries : [];
+  const lines = conversationLines(req.body.conversation);
+  if (lines.length === 0) {
+    return res.json({ success: true, data: Object.fromEntries(fieldNames.map((name) => [name, 'None yet'])) });
+  }
+
+  const first = entries[0]?.id;
+  const latest = entries[entries.length - 1];
+  const cite = (text, id, confidence = 0.8, status = 'confirmed') => (id ? { text, entry_ids: [id], confidence, status } : text);
+  if (framework && framework.id !== 'disco') {
+    // Canned answers are DISCO-shaped; other frameworks get one cited bullet per field
+    return res.json({
+      success: true,
+      data: Object.fromEntries(fieldNames.map((name, index) => [
+        name,
+        [cite(`Mock ${name.replace(/_/g, ' ').toLowerCase()} from ${lines.length} new turns`, index % 2 === 0 ? first : latest?.id, 0.6, 'assumed')]
+      ]))
+    });
+  }
+  res.json({
+    success: true,
+    data: {
+      Decision_Criteria: [cite('Total cost of ownership', first), cite('Integration with existing tools', first)],
+      Impact: [`Discussed over ${lines.length} new turns`],
+      Situation: [cite(`Latest: ${(latest?.text || lines[lines.length - 1]).slice(0, 120)}`, latest?.id)],
+      Challenges: [cite('Manual follow-up after calls', first)],
+      Objectives: [cite('Shorten the sales cycle this quarter', latest?.id, 0.4, 'assumed')]
+    }
+  });
+});
+
+/**
+ * Send `text` as server-sent events a word at a time, the way the real backend
+ * streams when the request has `stream: true`. Stops if the client goes away.
+ */
+async function streamText(res, text) {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
+  });
+
+  let closed = false;
+  res.on('close', () => { closed = true; });
+
+  for (const token of text.match(/\S+\s*|\s+/g) || []) {
+    if (closed) return;
+    res.write(`data: ${JSON.stringify({ delta: token })}\n\n`);
+    await new Promise((resolve) => setTimeout(resolve, TOKEN_MS));
+  }
+  res.end('data: [DONE]\n\n');
+}
+
+app.post('/api/generate-quick-answer', (req, res) => {
+  if (req.body?.ai_chat === true) {
+    const invalid = requireFields(req.body, [['user_query', 'string']]);
+    if (invalid) return res.status(400).json({ error: invalid });
+    const response = `Mock answer to "${req.body.user_query}". Pricing depends on seats, and the pilot can start next month.`;
+    return req.body.stream ? streamText(res, response) : res.json({ response });
+  }
+
+  const invalid = requireFields(req.body, [['conversation', 'string']]);
+  if (invalid) return res.status(400).json({ error: invalid });
+  const lines = conversationLines(req.body.conversation);
+  const analysis = `**Mock analysis** of ${lines.length} lines.\n- Ask about budget\n- Confirm the decision timeline`;
+  return req.body.stream ? streamText(res, analysis) : res.json({ analysis });
+});
+
+app.post('/api/post-call-steps', (req, res) => {
+  const invalid = requireFields(req.body, [['conversation', 'string'], ['discoAnalysis', 'object']]);
+  if (invalid) return res.status(400).json({ error: invalid });
+  res.json({
+    'Send follow-up email': 'unfinished',
+    'Share pricing proposal': 'unfinished',
+    'Schedule technical deep dive': 'unfinished'
+  });
+});
+
+app.post('/api/ai-summary', (req, res) => {
+  const invalid = requireFields(req.body, [['conversation', 'string'], ['discoAnalysis', 'object']]);
+  if (invalid) return res.status(400).json({ error: invalid });
+  const lines = conversationLines(req.body.conversation);
+  res.json({ summary: { overview: `Mock summary of a ${lines.length}-line conversation.` } });
+});
+
+app.post('/api/post-call-actions', (req, res) => {
+  if (!req.body || !('inputData' in req.body)) {
+    return res.status(400).json({ error: 'Missing or invalid: inputData' });
+  }
+  res.json({ success: true });
+});
+
+app.post('/api/ai-complete', (req, res) => {
+  const invalid = requireFields(req.body, [['action_item', 'string'], ['assistantId', 'string'], ['threadId', 'string']]);
+  if (invalid) return res.status(400).json({ error: invalid });
+  const tag = /email/i.test(req.body.action_item) ? 'Email' : 'Report';
+  res.json({ content: `Mock ${tag.toLowerCase()} for: ${req.body.action_item}`, tag });
+});
+
+app.post('/api/recall-bot', (req, res) => {
+  const invalid = requireFields(req.body, [['meeting_url', 'string']]);
+  if (invalid) return res.status(400).json({ error: invalid });
+  res.json({ bot_id: `mock-bot-${crypto.randomUUID()}` });
+});
+
+app.listen(PORT, () => {
+  console.log(`Mock AI backend running on port ${PORT} (delay ${DELAY_MS}ms, fail rate ${FAIL_RATE})`);
+});
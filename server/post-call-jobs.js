@@ -0,0 +1,232 @@
+const { createServiceSupabase } = require('./auth');
+
+// The server has no access to the user's saved settings, so the AI backend comes from env
+const AI_BACKEND_URL = (process.env.AI_BACKEND_URL || process.env.NEXT_PUBLIC_AI_BACKEND_URL || 'http://localhost:8000').replace(/\/+$/, '');
+
+const POLL_INTERVAL_MS = parseInt(process.env.POST_CALL_JOB_POLL_INTERVAL_MS || '5000', 10);
+const JOBS_PER_POLL = 5;
+const REQUEST_TIMEOUT_MS = 2 * 60 * 1000;
+
+// Retry delays double from the base up to the cap: 30s, 1m, 2m, 4m, ...
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 30 * 60 * 1000;
+
+// A running job whose lock is older than this belonged to a worker that died
+const STALE_LOCK_MS = 10 * 60 * 1000;
+
+/**
+ * Post-call work, keyed by `post_call_jobs.job_type`. Each handler gets the
+ * call row and returns what is stored in the job's `result`.
+ */
+const JOB_HANDLERS = {
+  post_call_steps: runPostCallSteps,
+  ai_summary: runAiSummary
+};
+
+/**
+ * Poll `post_call_jobs` for due jobs and run them. Needs
+ * SUPABASE_SERVICE_ROLE_KEY, since jobs run after the user has gone.
+ *
+ * @returns {{ stop: () => void } | null} null when the worker cannot run
+ */
+function startPostCallWorker() {
+  const supabase = createServiceSupabase();
+  if (!supabase) {
+    console.warn('Post-call job worker disabled: set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY to run it');
+    return null;
+  }
+
+  let polling = false;
+  const timer = setInterval(async () => {
+    // A slow job must not let the next tick claim more work on top of it
+    if (polling) return;
+    polling = true;
+    try {
+      await runDueJobs(supabase);
+    } catch (error) {
+      console.error('Post-call job poll failed:', error.message);
+    } finally {
+      polling = false;
+    }
+  }, POLL_INTERVAL_MS);
+
+  console.log(`Post-call job worker polling every ${POLL_INTERVAL_MS}ms (AI backend: ${AI_BACKEND_URL})`);
+  return { stop: () => clearInterval(timer) };
+}
+
+async function runDueJobs(supabase) {
+  const now = new Date();
+  const staleBefore = new Date(now.getTime() - STALE_LOCK_MS).toISOString();
+
+  const { data: jobs, error } = await supabase
+    .from('post_call_jobs')
+    .select('*')
+    .or(`and(status.eq.pending,run_at.lte.${now.toISOString()}),and(status.eq.running,locked_at.lt.${staleBefore})`)
+    .order('run_at', { ascending: true })
+    .limit(JOBS_PER_POLL);
+
+  if (error) {
+    throw new Error(`Could not load post-call jobs: ${error.message}`);
+  }
+
+  for (const job of jobs || []) {
+    const claimed = await claimJob(supabase, job);
+    if (claimed) {
+      await runJob(supabase, claimed);
+    }
+  }
+}
+
+/**
+ * Mark a job running. `attempts` doubles as the lock version: the update only
+ * matches while nobody else has claimed the job since we read it.
+ */
+async function claimJob(supabase, job) {
+  const { data, error } = await supabase
+    .from('post_call_jobs')
+    .update({
+      status: 'running',
+      attempts: job.attempts + 1,
+      locked_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    })
+    .eq('job_id', job.job_id)
+    .eq('status', job.status)
+    .eq('attempts', job.attempts)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Could not claim post-call job ${job.job_id}:`, error.message);
+    return null;
+  }
+  return data;
+}
+
+async function runJob(supabase, job) {
+  try {
+    const handler = JOB_HANDLERS[job.job_type];
+    if (!handler) {
+      throw new Error(`Unknown post-call job type: ${job.job_type}`);
+    }
+
+    // The service role bypasses RLS, so only act on the call while the job's owner still owns it
+    const { data: call, error } = await supabase
+      .from('calls')
+      .select('call_id, owner_id, transcript, qualification_framework, disco_data, genie_content, assistant_id, thread_id')
+      .eq('call_id', job.call_id)
+      .eq('owner_id', job.owner_id)
+      .maybeSingle();
+    if (error) {
+      throw new Error(`Could not load call ${job.call_id}: ${error.message}`);
+    }
+    if (!call) {
+      const message = `Call ${job.call_id} not found or not owned by ${job.owner_id}`;
+      console.error(`Post-call job ${job.job_type} dropped:`, message);
+      await updateJob(supabase, job, { status: 'failed', last_error: message, locked_at: null });
+      return;
+    }
+
+    const result = await handler(supabase, call);
+    await updateJob(supabase, job, {
+      status: 'completed',
+      result,
+      last_error: null,
+      locked_at: null,
+      completed_at: new Date().toISOString()
+    });
+    console.log(`Post-call job ${job.job_type} completed for call ${job.call_id} (attempt ${job.attempts})`);
+  } catch (error) {
+    const message = error.message || 'Post-call job failed';
+    if (job.attempts >= job.max_attempts) {
+      console.error(`Post-call job ${job.job_type} failed for call ${job.call_id} after ${job.attempts} attempts:`, message);
+      await updateJob(supabase, job, { status: 'failed', last_error: message, locked_at: null });
+      return;
+    }
+
+    const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1), RETRY_MAX_DELAY_MS);
+    console.warn(`Post-call job ${job.job_type} failed for call ${job.call_id} (attempt ${job.attempts}/${job.max_attempts}), retrying in ${delay / 1000}s:`, message);
+    await updateJob(supabase, job, {
+      status: 'pending',
+      last_error: message,
+      locked_at: null,
+      run_at: new Date(Date.now() + delay).toISOString()
+    });
+  }
+}
+
+async function updateJob(supabase, job, changes) {
+  const { error } = await supabase
+    .from('post_call_jobs')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('job_id', job.job_id);
+
+  if (error) {
+    console.error(`Could not update post-call job ${job.job_id}:`, error.message);
+  }
+}
+
+// Same request body the browser used to send at the end of a call
+function buildPostCallRequest(call) {
+  const entries = call.transcript?.entries || [];
+  const body = {
+    conversation: entries.map((entry) => `${entry.speaker}: ${entry.text}`).join('\n'),
+    framework: call.qualification_framework || 'disco',
+    discoAnalysis: call.disco_data || {},
+    genieSupport: call.genie_content || {}
+  };
+  if (call.assistant_id) body.assistantId = call.assistant_id;
+  if (call.thread_id) body.threadId = call.thread_id;
+  return body;
+}
+
+async function postToAiBackend(path, body) {
+  const response = await fetch(`${AI_BACKEND_URL}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`${path} returned ${response.status}: ${errorText.slice(0, 500)}`);
+  }
+  return response.json();
+}
+
+async function runPostCallSteps(supabase, call) {
+  const result = await postToAiBackend('/api/post-call-steps', buildPostCallRequest(call));
+  await updateCall(supabase, call, { post_call_actions: result });
+  return result;
+}
+
+async function runAiSummary(supabase, call) {
+  const result = await postToAiBackend('/api/ai-summary', buildPostCallRequest(call));
+  // Contract in lib/ai-backend.ts: the text is in summary.overview or response
+  const summary = result?.summary?.overview || result?.response;
+  if (!summary) {
+    throw new Error('/api/ai-summary response has neither summary.overview nor response');
+  }
+  await updateCall(supabase, call, { ai_summary: summary });
+  return { summary };
+}
+
+// Re-checks the owner: the call may have changed hands while the AI backend was running
+async function updateCall(supabase, call, changes) {
+  const { data, error } = await supabase
+    .from('calls')
+    .update(changes)
+    .eq('call_id', call.call_id)
+    .eq('owner_id', call.owner_id)
+    .select('call_id');
+
+  if (error) {
+    throw new Error(`Could not update call ${call.call_id}: ${error.message}`);
+  }
+  if (!data || data.length === 0) {
+    throw new Error(`Call ${call.call_id} is no longer owned by ${call.owner_id}`);
+  }
+}
+
+module.exports = { startPostCallWorker };
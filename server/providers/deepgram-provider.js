@@ -0,0 +1,139 @@
+const { createClient, LiveTranscriptionEvents } = require('@deepgram/sdk');
+const { TranscriptionProvider } = require('./transcription-provider');
+
+let deepgramClient = null;
+
+function getDeepgramClient() {
+  if (!deepgramClient) {
+    const apiKey = process.env.DEEPGRAM_API_KEY;
+    if (!apiKey) {
+      throw new Error('DEEPGRAM_API_KEY is not set');
+    }
+    deepgramClient = createClient(apiKey);
+  }
+  return deepgramClient;
+}
+
+function normalizeDeepgramWords(words) {
+  return (words || []).map((word) => ({
+    word: word.punctuated_word || word.word,
+    start: word.start,
+    end: word.end,
+    confidence: word.confidence ?? 0,
+    speaker: typeof word.speaker === 'number' ? word.speaker : null
+  }));
+}
+
+/**
+ * Convert a Deepgram `Results` payload into a TranscriptionResult.
+ *
+ * @param {any} data
+ * @returns {import('./transcription-provider').TranscriptionResult | null}
+ */
+function normalizeDeepgramResult(data) {
+  const alternative = data.channel?.alternatives?.[0];
+  if (!alternative) return null;
+
+  const words = normalizeDeepgramWords(alternative.words);
+
+  return {
+    transcript: alternative.transcript || '',
+    isFinal: data.is_final || false,
+    confidence: alternative.confidence || 0,
+    speaker: words.length > 0 ? words[0].speaker : null,
+    words
+  };
+}
+
+/**
+ * Streams audio to Deepgram's live transcription API.
+ */
+class DeepgramProvider extends TranscriptionProvider {
+  constructor(options) {
+    super(options);
+    this.connection = null;
+  }
+
+  get name() {
+    return 'deepgram';
+  }
+
+  async start() {
+    const connection = getDeepgramClient().listen.live({
+      model: this.options.model || 'nova-2',
+      language: this.options.language,
+      smart_format: true,
+      interim_results: true,
+      diarize: this.options.diarization,
+      encoding: 'linear16',
+      sample_rate: this.options.sampleRate,
+    });
+
+    connection.on(LiveTranscriptionEvents.Transcript, (data) => {
+      const result = normalizeDeepgramResult(data);
+      if (result) {
+        this.emit('transcription', result);
+      }
+    });
+
+    connection.on(LiveTranscriptionEvents.Metadata, (data) => {
+      this.emit('metadata', data);
+    });
+
+    connection.on(LiveTranscriptionEvents.Error, (error) => {
+      this.emit('error', error instanceof Error ? error : new Error(String(error?.message || error)));
+    });
+
+    connection.on(LiveTranscriptionEvents.Close, () => {
+      this.connection = null;
+      this.emit('close');
+    });
+
+    this.connection = connection;
+  }
+
+  send(audio) {
+    if (!this.connection) return;
+    this.connection.send(audio);
+  }
+
+  finish() {
+    if (!this.connection) return;
+    this.connection.requestClose();
+  }
+
+  async transcribeFile(audio, fileOptions = {}) {
+    const { result, error } = await getDeepgramClient().listen.prerecorded.transcribeFile(audio, {
+      model: this.options.model || 'nova-2',
+      language: this.options.language,
+      smart_format: true,
+      diarize: this.options.diarization,
+      // Utterances are already split on pauses and speaker changes
+      utterances: true,
+      ...(fileOptions.mimetype ? { mimetype: fileOptions.mimetype } : {})
+    });
+
+    if (error) {
+      throw error instanceof Error ? error : new Error(String(error?.message || error));
+    }
+
+    const utterances = result?.results?.utterances || [];
+    const results = utterances.map((utterance) => {
+      const words = normalizeDeepgramWords(utterance.words);
+      return {
+        transcript: utterance.transcript || '',
+        isFinal: true,
+        confidence: utterance.confidence || 0,
+        speaker: typeof utterance.speaker === 'number' && this.options.diarization ? utterance.speaker : null,
+        words
+      };
+    });
+
+    return {
+      results,
+      duration: result?.metadata?.duration ?? null
+    };
+  }
+}
+
+module.exports = { DeepgramProvider, normalizeDeepgramResult };
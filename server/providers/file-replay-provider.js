@@ -0,0 +1,121 @@
+const fs = require('fs');
+const path = require('path');
+const { TranscriptionProvider } = require('./transcription-provider');
+
+const DEFAULT_REPLAY_FILE = path.join(__dirname, '..', 'fixtures', 'replay-sample.json');
+
+/**
+ * Read a replay fixture. The file holds an array of results (or `{ results }`)
+ * in TranscriptionResult shape; `is_final` is accepted as an alias of
+ * `isFinal` so recorded Deepgram sessions can be dropped in with light edits.
+ *
+ * @param {string} filePath
+ * @returns {import('./transcription-provider').TranscriptionResult[]}
+ */
+function loadReplayFile(filePath) {
+  const raw = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  const results = Array.isArray(raw) ? raw : raw.results;
+  if (!Array.isArray(results)) {
+    throw new Error(`Replay file ${filePath} does not contain a results array`);
+  }
+
+  return results.map((result) => {
+    const words = (result.words || []).map((word) => ({
+      word: word.word,
+      start: word.start ?? 0,
+      end: word.end ?? 0,
+      confidence: word.confidence ?? 1,
+      speaker: typeof word.speaker === 'number' ? word.speaker : null
+    }));
+
+    return {
+      transcript: result.transcript || words.map((word) => word.word).join(' '),
+      isFinal: result.isFinal ?? result.is_final ?? true,
+      confidence: result.confidence ?? 1,
+      speaker: typeof result.speaker === 'number' ? result.speaker : (words[0]?.speaker ?? null),
+      words
+    };
+  });
+}
+
+/**
+ * Replays pre-recorded results from a JSON file instead of calling a vendor.
+ *
+ * Results are released against the amount of audio received rather than wall
+ * clock time: a result is emitted once the stream has covered the end of its
+ * last word, and anything left is flushed on `finish()`. The same audio
+ * therefore always produces the same sequence of events.
+ */
+class FileReplayProvider extends TranscriptionProvider {
+  constructor(options) {
+    super(options);
+    this.replayFile = this.options.replayFile || process.env.TRANSCRIPTION_REPLAY_FILE || DEFAULT_REPLAY_FILE;
+    this.pending = [];
+    this.bytesReceived = 0;
+    this.isOpen = false;
+  }
+
+  get name() {
+    return 'replay';
+  }
+
+  async start() {
+    this.pending = loadReplayFile(this.replayFile);
+    this.bytesReceived = 0;
+    this.isOpen = true;
+  }
+
+  send(audio) {
+    if (!this.isOpen) return;
+
+    // linear16 is two bytes per sample
+    this.bytesReceived += audio.length;
+    const audioSeconds = this.bytesReceived / (this.options.sampleRate * 2);
+
+    while (this.pending.length > 0 && resultEnd(this.pending[0]) <= audioSeconds) {
+      this.emitResult(this.pending.shift());
+    }
+  }
+
+  finish() {
+    if (!this.isOpen) return;
+
+    while (this.pending.length > 0) {
+      this.emitResult(this.pending.shift());
+    }
+    this.isOpen = false;
+    this.emit('close');
+  }
+
+  // The fixture stands in for any file; the audio itself is ignored
+  async transcribeFile(_audio, _fileOptions) {
+    const results = loadReplayFile(this.replayFile)
+      .filter((result) => result.isFinal)
+      .map((result) => this.applyOptions(result));
+
+    return {
+      results,
+      duration: results.length > 0 ? resultEnd(results[results.length - 1]) : null
+    };
+  }
+
+  emitResult(result) {
+    this.emit('transcription', this.applyOptions(result));
+  }
+
+  applyOptions(result) {
+    // Drop speaker information when diarization is off, as a live vendor would
+    if (this.options.diarization) return result;
+    return {
+      ...result,
+      speaker: null,
+      words: result.words.map((word) => ({ ...word, speaker: null }))
+    };
+  }
+}
+
+function resultEnd(result) {
+  return result.words.length > 0 ? result.words[result.words.length - 1].end : 0;
+}
+
+module.exports = { FileReplayProvider, loadReplayFile };
@@ -0,0 +1,31 @@
+const { TranscriptionProvider } = require('./transcription-provider');
+const { DeepgramProvider } = require('./deepgram-provider');
+const { FileReplayProvider } = require('./file-replay-provider');
+
+const providers = {
+  deepgram: DeepgramProvider,
+  replay: FileReplayProvider
+};
+
+/**
+ * Create the speech-to-text provider configured by TRANSCRIPTION_PROVIDER
+ * (`deepgram` by default, `replay` for the local file replay).
+ *
+ * @param {import('./transcription-provider').TranscriptionOptions & { provider?: string }} options
+ * @returns {TranscriptionProvider}
+ */
+function createTranscriptionProvider(options) {
+  const name = options.provider || process.env.TRANSCRIPTION_PROVIDER || 'deepgram';
+  const Provider = providers[name];
+  if (!Provider) {
+    throw new Error(`Unknown transcription provider "${name}". Expected one of: ${Object.keys(providers).join(', ')}`);
+  }
+  return new Provider(options);
+}
+
+module.exports = {
+  TranscriptionProvider,
+  DeepgramProvider,
+  FileReplayProvider,
+  createTranscriptionProvider
+};
@@ -0,0 +1,101 @@
+const { EventEmitter } = require('events');
+
+/**
+ * A single recognised word. Offsets are in seconds from the start of the
+ * upstream session.
+ *
+ * @typedef {Object} TranscriptWord
+ * @property {string} word
+ * @property {number} start
+ * @property {number} end
+ * @property {number} confidence
+ * @property {number|null} speaker
+ */
+
+/**
+ * Vendor-neutral transcription result emitted as the `transcription` event.
+ *
+ * @typedef {Object} TranscriptionResult
+ * @property {string} transcript
+ * @property {boolean} isFinal
+ * @property {number} confidence
+ * @property {number|null} speaker - speaker of the first word, null without diarization
+ * @property {TranscriptWord[]} words
+ */
+
+/**
+ * @typedef {Object} TranscriptionOptions
+ * @property {boolean} diarization
+ * @property {string} [language]
+ * @property {number} [sampleRate] - sample rate of the linear16 audio we send
+ */
+
+/**
+ * Output of a prerecorded (batch) transcription.
+ *
+ * @typedef {Object} FileTranscription
+ * @property {TranscriptionResult[]} results - final results in order, offsets from the start of the file
+ * @property {number|null} duration - length of the audio in seconds, if the vendor reports it
+ */
+
+/**
+ * Base class for speech-to-text adapters.
+ *
+ * Lifecycle: `start()` opens the upstream session, `send()` forwards raw
+ * linear16 audio and `finish()` flushes and closes it. Adapters report back
+ * through events:
+ *   - `transcription` (TranscriptionResult)
+ *   - `metadata` (vendor specific payload, for logging only)
+ *   - `error` (Error)
+ *   - `close`
+ *
+ * Adapters that support prerecorded audio also implement `transcribeFile()`,
+ * which does not use the streaming lifecycle.
+ */
+class TranscriptionProvider extends EventEmitter {
+  /**
+   * @param {TranscriptionOptions} options
+   */
+  constructor(options) {
+    super();
+    this.options = {
+      language: 'en-US',
+      sampleRate: 16000,
+      ...options
+    };
+  }
+
+  /** @returns {string} */
+  get name() {
+    return 'base';
+  }
+
+  /** @returns {Promise<void>} */
+  async start() {
+    throw new Error(`${this.name} provider does not implement start()`);
+  }
+
+  /**
+   * @param {Buffer} _audio
+   */
+  send(_audio) {
+    throw new Error(`${this.name} provider does not implement send()`);
+  }
+
+  finish() {
+    throw new Error(`${this.name} provider does not implement finish()`);
+  }
+
+  /**
+   * Transcribe a complete recording in one request.
+   *
+   * @param {Buffer} _audio - encoded audio file (webm, mp3, wav, ...)
+   * @param {{ mimetype?: string }} [_fileOptions]
+   * @returns {Promise<FileTranscription>}
+   */
+  async transcribeFile(_audio, _fileOptions) {
+    throw new Error(`${this.name} provider does not support prerecorded transcription`);
+  }
+}
+
+module.exports = { TranscriptionProvider };
@@ -0,0 +1,132 @@
+const express = require('express');
+const { authenticateHttpRequest } = require('./auth');
+
+const RECORDINGS_BUCKET = 'call-recordings';
+
+/**
+ * Routes for chunked call recordings. The client uploads recording parts to
+ * storage while the call runs and lists them in `recording_manifests`;
+ * finalizing stitches the parts into one object:
+ *   POST /api/recordings/:recordingId/finalize  -> { recording_id, status, final_path, final_size }
+ *
+ * Finalizing is idempotent, so a client can retry it or run it again for a
+ * recording left unfinished by a crash.
+ */
+function createRecordingRouter() {
+  const router = express.Router();
+
+  router.post('/api/recordings/:recordingId/finalize', async (req, res) => {
+    const auth = await authenticateHttpRequest(req, res);
+    if (!auth) return;
+    const { supabase } = auth;
+
+    // Manifests and recordings are read as the user, so storage and table RLS apply
+    if (!supabase) {
+      return res.status(503).json({ error: 'Recording storage is not available without authentication' });
+    }
+
+    try {
+      const manifest = await finalizeRecording(supabase, req.params.recordingId);
+      if (!manifest) {
+        return res.status(404).json({ error: 'Recording not found' });
+      }
+      res.json({
+        recording_id: manifest.recording_id,
+        status: manifest.status,
+        final_path: manifest.final_path,
+        final_size: manifest.final_size
+      });
+    } catch (error) {
+      console.error(`Error finalizing recording ${req.params.recordingId}:`, error);
+      res.status(error.statusCode || 500).json({ error: error.message || 'Failed to finalize recording' });
+    }
+  });
+
+  return router;
+}
+
+/**
+ * Concatenate a recording's parts, in order, into
+ * `<owner>/<call>/call_<call>_<recording>.webm` and mark the manifest
+ * finalized. Parts come from one MediaRecorder, so the concatenation is a
+ * valid file. Part objects are removed once the stitched object is stored.
+ *
+ * @returns {Promise<object | null>} the updated manifest, or null if it is not visible to the user
+ */
+async function finalizeRecording(supabase, recordingId) {
+  const { data: manifest, error: manifestError } = await supabase
+    .from('recording_manifests')
+    .select('*')
+    .eq('recording_id', recordingId)
+    .maybeSingle();
+
+  if (manifestError) {
+    throw new Error(`Could not load recording manifest: ${manifestError.message}`);
+  }
+  if (!manifest) return null;
+  if (manifest.status === 'finalized') return manifest;
+
+  const parts = [...(manifest.parts || [])].sort((a, b) => a.index - b.index);
+  if (parts.length === 0) {
+    await updateManifest(supabase, recordingId, { status: 'failed' });
+    const error = new Error('Recording has no uploaded parts');
+    error.statusCode = 422;
+    throw error;
+  }
+
+  await updateManifest(supabase, recordingId, { status: 'finalizing' });
+
+  const buffers = [];
+  for (const part of parts) {
+    const { data, error } = await supabase.storage.from(RECORDINGS_BUCKET).download(part.path);
+    if (error || !data) {
+      throw new Error(`Could not download part ${part.index} (${part.path}): ${error?.message || 'not found'}`);
+    }
+    buffers.push(Buffer.from(await data.arrayBuffer()));
+  }
+  const recording = Buffer.concat(buffers);
+
+  const extension = manifest.mime_type.includes('webm') ? 'webm' : 'audio';
+  const finalPath = `${manifest.owner_id}/${manifest.call_id}/call_${manifest.call_id}_${recordingId}.${extension}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(RECORDINGS_BUCKET)
+    .upload(finalPath, recording, { contentType: manifest.mime_type, upsert: true });
+
+  if (uploadError) {
+    throw new Error(`Could not store finalized recording: ${uploadError.message}`);
+  }
+
+  const finalized = await updateManifest(supabase, recordingId, {
+    status: 'finalized',
+    final_path: finalPath,
+    final_size: recording.length
+  });
+  console.log(`Finalized recording ${recordingId}: ${parts.length} parts, ${recording.length} bytes -> ${finalPath}`);
+
+  // The parts are redundant now; a failure here only leaves extra objects behind
+  const { error: removeError } = await supabase.storage
+    .from(RECORDINGS_BUCKET)
+    .remove(parts.map((part) => part.path));
+  if (removeError) {
+    console.warn(`Could not remove parts of recording ${recordingId}:`, removeError.message);
+  }
+
+  return finalized;
+}
+
+async function updateManifest(supabase, recordingId, changes) {
+  const { data, error } = await supabase
+    .from('recording_manifests')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('recording_id', recordingId)
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Could not update recording manifest: ${error.message}`);
+  }
+  return data;
+}
+
+module.exports = { createRecordingRouter, finalizeRecording };
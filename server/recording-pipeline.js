@@ -0,0 +1,268 @@
+const { execFile } = require('child_process');
+const fs = require('fs/promises');
+const os = require('os');
+const path = require('path');
+const express = require('express');
+const { authenticateHttpRequest } = require('./auth');
+
+const RECORDINGS_BUCKET = 'call-recordings';
+
+// ffmpeg is a system dependency of the pipeline, not an npm package
+const FFMPEG_PATH = process.env.FFMPEG_PATH || 'ffmpeg';
+const FFPROBE_PATH = process.env.FFPROBE_PATH || 'ffprobe';
+
+// EBU R128 speech target; single-pass loudnorm is accurate enough for call audio
+const LOUDNORM_FILTER = 'loudnorm=I=-16:TP=-1.5:LRA=11';
+
+/**
+ * Canonical master: what transcription and any later processing read. Matches
+ * the 16 kHz mono linear16 the live transcription path already uses.
+ */
+const MASTER_FORMAT = {
+  mime_type: 'audio/wav',
+  codec: 'pcm_s16le',
+  sample_rate: 16000,
+  channels: 1,
+  bitrate: null
+};
+
+// Listening copy: what voice_recording_path points at; MP3 plays in every browser and Electron
+const LISTENING_FORMAT = {
+  mime_type: 'audio/mpeg',
+  codec: 'mp3',
+  sample_rate: 44100,
+  channels: 1,
+  bitrate: '64k'
+};
+
+// Calls with a pipeline run in progress, so repeated requests do not race on the same objects
+const processingCalls = new Set();
+
+/**
+ * Routes for turning a call's raw recordings into its canonical audio:
+ *   POST /api/calls/:callId/recording/process  { source_paths? }  -> 202 { call_id, recording_status }
+ *
+ * Processing runs in the background; progress and the result are written to
+ * the call row (`recording_status`, `recording_format`, ...).
+ */
+function createRecordingPipelineRouter() {
+  const router = express.Router();
+
+  router.post('/api/calls/:callId/recording/process', express.json(), async (req, res) => {
+    const { callId } = req.params;
+    const auth = await authenticateHttpRequest(req, res, callId);
+    if (!auth) return;
+
+    if (!auth.supabase) {
+      return res.status(503).json({ error: 'Recording storage is not available without authentication' });
+    }
+
+    const sourcePaths = req.body?.source_paths;
+    if (sourcePaths !== undefined) {
+      if (!Array.isArray(sourcePaths) || sourcePaths.length === 0 || !sourcePaths.every((p) => typeof p === 'string')) {
+        return res.status(400).json({ error: 'source_paths must be a non-empty array of storage paths' });
+      }
+      // Storage RLS scopes recordings to `<uid>/...`; check it here too so the error is clear
+      if (!sourcePaths.every((p) => p.startsWith(`${auth.user.id}/`))) {
+        return res.status(403).json({ error: 'Recording does not belong to this user' });
+      }
+    }
+
+    if (processingCalls.has(callId)) {
+      return res.status(409).json({ error: 'Recording is already being processed' });
+    }
+
+    processingCalls.add(callId);
+    processCallRecording(auth.supabase, callId, { sourcePaths })
+      .catch((error) => console.error(`Recording pipeline failed for call ${callId}:`, error.message))
+      .finally(() => processingCalls.delete(callId));
+
+    res.status(202).json({ call_id: callId, recording_status: 'processing' });
+  });
+
+  return router;
+}
+
+/**
+ * Mix, normalize and transcode a call's recordings, store the master and
+ * listening copy next to them and record the result on the call. Failures are
+ * recorded on the call (`recording_status: 'failed'`) and rethrown.
+ *
+ * @param {any} supabase - client acting as the call's owner
+ * @param {string} callId
+ * @param {{ sourcePaths?: string[] }} [options] - defaults to the call's finalized recordings
+ * @returns {Promise<object>} the updated call row
+ */
+async function processCallRecording(supabase, callId, { sourcePaths } = {}) {
+  const { data: call, error: callError } = await supabase
+    .from('calls')
+    .select('call_id, owner_id, voice_recording_path, recording_source_paths')
+    .eq('call_id', callId)
+    .maybeSingle();
+
+  if (callError || !call) {
+    throw new Error(`Could not load call ${callId}: ${callError?.message || 'not found'}`);
+  }
+
+  const sources = sourcePaths || await resolveSourcePaths(supabase, call);
+  if (sources.length === 0) {
+    throw new Error(`Call ${callId} has no recording to process`);
+  }
+
+  await updateCall(supabase, callId, { recording_status: 'processing', recording_error: null });
+
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'recording-'));
+  try {
+    const inputs = [];
+    for (const [index, sourcePath] of sources.entries()) {
+      const { data, error } = await supabase.storage.from(RECORDINGS_BUCKET).download(sourcePath);
+      if (error || !data) {
+        throw new Error(`Could not download ${sourcePath}: ${error?.message || 'not found'}`);
+      }
+      const input = path.join(workDir, `source_${index}${path.extname(sourcePath)}`);
+      await fs.writeFile(input, Buffer.from(await data.arrayBuffer()));
+      inputs.push(input);
+    }
+
+    const masterFile = path.join(workDir, 'master.wav');
+    const listeningFile = path.join(workDir, 'listening.mp3');
+    await run(FFMPEG_PATH, buildTranscodeArgs(inputs, masterFile, listeningFile));
+    const duration = await probeDuration(masterFile);
+
+    const basePath = `${call.owner_id}/${callId}/call_${callId}`;
+    const masterPath = `${basePath}_master.wav`;
+    const listeningPath = `${basePath}.mp3`;
+    await uploadFile(supabase, masterPath, masterFile, MASTER_FORMAT.mime_type);
+    const listeningSize = await uploadFile(supabase, listeningPath, listeningFile, LISTENING_FORMAT.mime_type);
+
+    const updated = await updateCall(supabase, callId, {
+      voice_recording_path: listeningPath,
+      recording_master_path: masterPath,
+      recording_source_paths: sources,
+      recording_format: LISTENING_FORMAT,
+      recording_duration_seconds: duration,
+      recording_size_bytes: listeningSize,
+      recording_status: 'ready',
+      recording_error: null,
+      recording_processed_at: new Date().toISOString()
+    });
+    console.log(`Processed recording for call ${callId}: ${sources.length} source(s), ${duration}s -> ${listeningPath}`);
+    return updated;
+  } catch (error) {
+    await updateCall(supabase, callId, { recording_status: 'failed', recording_error: error.message })
+      .catch((updateError) => console.error(`Could not mark recording failed for call ${callId}:`, updateError.message));
+    throw error;
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * The raw recordings behind a call: the latest finalized recording per track,
+ * else the sources of an earlier run, else whatever the call points at (e.g.
+ * an imported file).
+ */
+async function resolveSourcePaths(supabase, call) {
+  const { data: manifests, error } = await supabase
+    .from('recording_manifests')
+    .select('track, final_path, created_at')
+    .eq('call_id', call.call_id)
+    .eq('status', 'finalized')
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Could not load recordings for call ${call.call_id}: ${error.message}`);
+  }
+
+  const latestByTrack = new Map();
+  for (const manifest of manifests || []) {
+    if (manifest.final_path) latestByTrack.set(manifest.track, manifest.final_path);
+  }
+  if (latestByTrack.size > 0) return [...latestByTrack.values()];
+
+  if (Array.isArray(call.recording_source_paths) && call.recording_source_paths.length > 0) {
+    return call.recording_source_paths;
+  }
+  return call.voice_recording_path ? [call.voice_recording_path] : [];
+}
+
+/**
+ * One ffmpeg pass: take the audio stream of every input (the system track
+ * is a screen capture with video), mix, normalize loudness, then write the
+ * master and the listening copy.
+ */
+function buildTranscodeArgs(inputs, masterFile, listeningFile) {
+  const args = ['-hide_banner', '-nostdin', '-y'];
+  for (const input of inputs) {
+    args.push('-i', input);
+  }
+
+  const streams = inputs.map((_, index) => `[${index}:a]`).join('');
+  const mix = inputs.length > 1
+    ? `${streams}amix=inputs=${inputs.length}:duration=longest:dropout_transition=0,`
+    : streams;
+
+  args.push(
+    '-filter_complex', `${mix}${LOUDNORM_FILTER},asplit=2[master][listening]`,
+    '-map', '[master]',
+    '-c:a', MASTER_FORMAT.codec, '-ar', String(MASTER_FORMAT.sample_rate), '-ac', String(MASTER_FORMAT.channels),
+    masterFile,
+    '-map', '[listening]',
+    '-c:a', 'libmp3lame', '-b:a', LISTENING_FORMAT.bitrate,
+    '-ar', String(LISTENING_FORMAT.sample_rate), '-ac', String(LISTENING_FORMAT.channels),
+    listeningFile
+  );
+  return args;
+}
+
+async function probeDuration(file) {
+  const output = await run(FFPROBE_PATH, ['-v', 'error', '-show_entries', 'format=duration', '-of', 'csv=p=0', file]);
+  const duration = parseFloat(output);
+  if (!Number.isFinite(duration)) {
+    throw new Error(`Could not read the duration of ${path.basename(file)}`);
+  }
+  return Math.round(duration * 100) / 100;
+}
+
+function run(command, args) {
+  return new Promise((resolve, reject) => {
+    execFile(command, args, { maxBuffer: 10 * 1024 * 1024 }, (error, stdout, stderr) => {
+      if (error) {
+        if (error.code === 'ENOENT') {
+          return reject(new Error(`${command} was not found; install ffmpeg or set FFMPEG_PATH / FFPROBE_PATH`));
+        }
+        const detail = String(stderr).trim().split('\n').slice(-3).join(' ');
+        return reject(new Error(`${path.basename(command)} failed: ${detail || error.message}`));
+      }
+      resolve(String(stdout));
+    });
+  });
+}
+
+async function uploadFile(supabase, storagePath, file, contentType) {
+  const contents = await fs.readFile(file);
+  const { error } = await supabase.storage
+    .from(RECORDINGS_BUCKET)
+    .upload(storagePath, contents, { contentType, upsert: true });
+
+  if (error) {
+    throw new Error(`Could not store ${storagePath}: ${error.message}`);
+  }
+  return contents.length;
+}
+
+async function updateCall(supabase, callId, changes) {
+  const { data, error } = await supabase
+    .from('calls')
+    .update(changes)
+    .eq('call_id', callId)
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Could not update call ${callId}: ${error.message}`);
+  }
+  return data;
+}
+
+module.exports = { createRecordingPipelineRouter, processCallRecording };
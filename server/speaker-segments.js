@@ -0,0 +1,44 @@
+/**
+ * Split a final result into contiguous runs of words spoken by the same
+ * speaker. Results without word-level speakers (diarization off, or a vendor
+ * that does not report them) come back as a single segment.
+ *
+ * @param {import('./providers/transcription-provider').TranscriptionResult} result
+ * @returns {import('./providers/transcription-provider').TranscriptionResult[]}
+ */
+function splitBySpeaker(result) {
+  const hasSpeakers = result.words.some((word) => word.speaker !== null);
+  if (!hasSpeakers) {
+    return [result];
+  }
+
+  const segments = [];
+  let current = null;
+
+  result.words.forEach((word) => {
+    if (!current || current.speaker !== word.speaker) {
+      current = { speaker: word.speaker, words: [] };
+      segments.push(current);
+    }
+    current.words.push(word);
+  });
+
+  if (segments.length === 1) {
+    return [{ ...result, speaker: segments[0].speaker }];
+  }
+
+  return segments.map((segment) => ({
+    transcript: segment.words.map((word) => word.word).join(' '),
+    isFinal: result.isFinal,
+    confidence: averageConfidence(segment.words, result.confidence),
+    speaker: segment.speaker,
+    words: segment.words
+  }));
+}
+
+function averageConfidence(words, fallback) {
+  if (words.length === 0) return fallback;
+  return words.reduce((sum, word) => sum + (word.confidence || 0), 0) / words.length;
+}
+
+module.exports = { splitBySpeaker };
@@ -0,0 +1,170 @@
+const fs = require('fs');
+const path = require('path');
+
+const JOURNAL_DIR = process.env.TRANSCRIPT_JOURNAL_DIR || path.join(__dirname, 'data', 'journals');
+
+/**
+ * Append-only, per-call log of final transcript entries (one JSON object per
+ * line). Entries are written synchronously as they arrive so they survive the
+ * client and this process going away; the journal is then flushed into
+ * `calls.transcript` and removed once everything in it has been written.
+ */
+class TranscriptJournal {
+  constructor(callId, dir = JOURNAL_DIR) {
+    this.callId = callId;
+    this.filePath = path.join(dir, `${sanitizeFileName(callId)}.jsonl`);
+    // Bytes already written through to calls.transcript by this instance. A new
+    // instance (e.g. after a restart) starts at 0 and resends everything once,
+    // which append_transcript_entries de-duplicates by entry id.
+    this.flushedBytes = 0;
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  /**
+   * @param {object} entry - TranscriptEntry as stored in calls.transcript
+   */
+  append(entry) {
+    fs.appendFileSync(this.filePath, `${JSON.stringify(entry)}\n`);
+  }
+
+  /** @returns {object[]} */
+  readAll() {
+    if (!fs.existsSync(this.filePath)) return [];
+
+    return this.parseLines(fs.readFileSync(this.filePath, 'utf8').split('\n'));
+  }
+
+  /**
+   * Entries appended since the last `markFlushed`, and the byte offset to pass
+   * to it once they are stored. Only complete lines are read, so an entry that
+   * is still being written is left for the next flush.
+   *
+   * @returns {{ entries: object[], end: number }}
+   */
+  readUnflushed() {
+    if (!fs.existsSync(this.filePath)) return { entries: [], end: this.flushedBytes };
+
+    const size = fs.statSync(this.filePath).size;
+    // Smaller than what was flushed: the file was removed and started over
+    if (size < this.flushedBytes) this.flushedBytes = 0;
+    if (size === this.flushedBytes) return { entries: [], end: size };
+
+    const buffer = Buffer.alloc(size - this.flushedBytes);
+    const fd = fs.openSync(this.filePath, 'r');
+    try {
+      fs.readSync(fd, buffer, 0, buffer.length, this.flushedBytes);
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    const complete = buffer.lastIndexOf('\n') + 1;
+    return {
+      entries: this.parseLines(buffer.subarray(0, complete).toString('utf8').split('\n')),
+      end: this.flushedBytes + complete
+    };
+  }
+
+  /** @param {number} end - offset returned by `readUnflushed` */
+  markFlushed(end) {
+    this.flushedBytes = Math.max(this.flushedBytes, end);
+  }
+
+  /**
+   * Delete the journal if everything in it has been flushed. Returns whether it
+   * is gone; entries appended since the last flush keep it on disk.
+   */
+  removeIfFlushed() {
+    if (!fs.existsSync(this.filePath)) return true;
+    if (fs.statSync(this.filePath).size !== this.flushedBytes) return false;
+
+    fs.unlinkSync(this.filePath);
+    this.flushedBytes = 0;
+    return true;
+  }
+
+  parseLines(lines) {
+    return lines
+      .filter((line) => line.trim())
+      .reduce((entries, line) => {
+        try {
+          entries.push(JSON.parse(line));
+        } catch (error) {
+          // A crash mid-write can leave a torn line; skip it
+          console.warn(`Skipping unreadable journal line for call ${this.callId}`);
+        }
+        return entries;
+      }, []);
+  }
+
+  /**
+   * Entries written after `entryId`, or all of them if it is unknown.
+   *
+   * @param {string | undefined} entryId
+   */
+  entriesAfter(entryId) {
+    const entries = this.readAll();
+    if (!entryId) return entries;
+
+    const index = entries.findIndex((entry) => entry.id === entryId);
+    return index === -1 ? entries : entries.slice(index + 1);
+  }
+}
+
+function sanitizeFileName(value) {
+  return String(value).replace(/[^a-zA-Z0-9_-]/g, '_');
+}
+
+function createEntryId() {
+  return `entry_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * TranscriptEntry for one final segment, as stored in calls.transcript.
+ * Word offsets must already be relative to the start of the recording.
+ *
+ * @param {{ text: string, speaker: string, confidence?: number, words: object[] }} segment
+ */
+function createTranscriptEntry({ text, speaker, confidence, words }) {
+  return {
+    id: createEntryId(),
+    timestamp: new Date().toISOString(),
+    speaker,
+    text,
+    confidence,
+    start_time: words.length > 0 ? words[0].start : undefined,
+    end_time: words.length > 0 ? words[words.length - 1].end : undefined,
+    words
+  };
+}
+
+/**
+ * Merge journal entries written since the last flush into `calls.transcript`,
+ * keeping anything already stored and skipping entries whose id is already
+ * present. Runs as one append_transcript_entries call, so edits made meanwhile
+ * are not overwritten.
+ *
+ * @param {any} supabase - client acting as the call owner
+ * @param {TranscriptJournal} journal
+ * @returns {Promise<number>} number of entries added
+ */
+async function flushJournalToCall(supabase, journal) {
+  const { entries, end } = journal.readUnflushed();
+  if (entries.length === 0) {
+    journal.markFlushed(end);
+    return 0;
+  }
+
+  const { data: added, error } = await supabase.rpc('append_transcript_entries', {
+    p_call_id: journal.callId,
+    p_entries: entries
+  });
+
+  if (error) {
+    throw new Error(`Could not save transcript for call ${journal.callId}: ${error.message}`);
+  }
+
+  journal.markFlushed(end);
+  return added || 0;
+}
+
+module.exports = { TranscriptJournal, createEntryId, createTranscriptEntry, flushJournalToCall };
@@ -1,14 +1,26 @@
 const express = require('express');
 const WebSocket = require('ws');
-const { createClient } = require('@deepgram/sdk');
 const cors = require('cors');
 const path = require('path');
+const crypto = require('crypto');
+const { createTranscriptionProvider } = require('./providers');
+const { splitBySpeaker } = require('./speaker-segments');
+const { AUTH_ERROR_CODES, AUTH_CLOSE_CODES, SessionAuthError, authenticateSession, authenticateUser, isAuthDisabled } = require('./auth');
+const { TranscriptJournal, createTranscriptEntry, flushJournalToCall } = require('./transcript-journal');
+const { createBatchTranscriptionRouter } = require('./batch-transcription');
+const { createRecordingRouter } = require('./recording-finalizer');
+const { createRecordingPipelineRouter } = require('./recording-pipeline');
+const { startPostCallWorker } = require('./post-call-jobs');
+const { AUDIO_CHANNELS, DEFAULT_AUDIO_CHANNEL, parseAudioChannel, channelUsesDiarization, createChannelState } = require('./audio-channels');
 
 const app = express();
 const PORT = process.env.TRANSCRIPTION_PORT || 3001;
 
 // Middleware
 app.use(cors());
+app.use(createBatchTranscriptionRouter()); // before express.json so uploads reach express.raw
+app.use(createRecordingRouter());
+app.use(createRecordingPipelineRouter());
 app.use(express.json());
 
 // Create HTTP server
@@ -17,36 +29,71 @@ const server = require('http').createServer(app);
 // Create WebSocket server
 const wss = new WebSocket.Server({ server });
 
-// Deepgram configuration
-const DEEPGRAM_API_KEY = process.env.DEEPGRAM_API_KEY || 'ae2854b203e26ead1ddb518d5f29a209b9eceedc';
-const deepgram = createClient(DEEPGRAM_API_KEY);
-
 // Store active connections
 const connections = new Map();
 let connectionCounter = 0;
 
-// Track transcription state for each connection
-const transcriptionState = new Map();
+// Resumable sessions: session ID -> connection ID holding the provider
+const sessions = new Map();
+
+// Clients stream 16kHz linear16 (two bytes per sample)
+const SAMPLE_RATE = 16000;
+const BYTES_PER_SECOND = SAMPLE_RATE * 2;
+
+// Max audio buffered while the upstream session is being swapped (~30s)
+const MAX_PENDING_AUDIO_BYTES = BYTES_PER_SECOND * 30;
+
+// Sockets must send an authenticated start_transcription within this window
+const HANDSHAKE_TIMEOUT_MS = parseInt(process.env.TRANSCRIPTION_HANDSHAKE_TIMEOUT_MS || '15000', 10);
+
+// How often journaled entries are written through to calls.transcript
+const TRANSCRIPT_FLUSH_INTERVAL_MS = parseInt(process.env.TRANSCRIPT_FLUSH_INTERVAL_MS || '10000', 10);
+
+// How long a dropped session keeps transcribing into its outbox while waiting for a resume
+const SESSION_RESUME_WINDOW_MS = parseInt(process.env.TRANSCRIPTION_RESUME_WINDOW_MS || '30000', 10);
+
+// Sequenced messages kept for replay when the client has not acknowledged them
+const MAX_OUTBOX_MESSAGES = 1000;
 
 wss.on('connection', (ws, req) => {
   console.log('New WebSocket connection established');
   
-  let deepgramConnection = null;
   let connectionId = `conn_${++connectionCounter}_${Date.now()}`;
   
   // Store connection
   connections.set(connectionId, {
     ws,
-    deepgramConnection,
-    isTranscribing: false
+    // One upstream session per audio channel (see audio-channels.js)
+    channels: new Map(),
+    isTranscribing: false,
+    diarization: true,
+    localSpeakerLabel: null,
+    user: null,
+    callId: null,
+    supabase: null,
+    journal: null,
+    unflushedEntries: 0,
+    flushTimer: null,
+    flushChain: Promise.resolve(),
+    sessionId: null,
+    seq: 0,
+    outbox: [],
+    resumeTimer: null
   });
 
-  // Initialize transcription state
-  transcriptionState.set(connectionId, {
-    lastFinalTranscript: '',
-    lastInterimTranscript: '',
-    isProcessing: false
-  });
+  // Close sockets that never authenticate so they cannot sit on the server
+  const handshakeTimeout = setTimeout(() => {
+    const connection = connections.get(connectionId);
+    if (connection && !connection.user) {
+      console.warn(`Closing ${connectionId}: no authenticated start_transcription within ${HANDSHAKE_TIMEOUT_MS}ms`);
+      rejectConnection(connectionId, new SessionAuthError(
+        AUTH_ERROR_CODES.HANDSHAKE_TIMEOUT,
+        'Authentication handshake timed out',
+        AUTH_CLOSE_CODES.HANDSHAKE_TIMEOUT
+      ));
+    }
+  }, HANDSHAKE_TIMEOUT_MS);
+  ws.on('close', () => clearTimeout(handshakeTimeout));
 
   ws.on('message', async (data) => {
     try {
@@ -58,7 +105,11 @@ wss.on('connection', (ws, req) => {
           break;
           
         case 'audio_data':
-          handleAudioData(connectionId, message.data);
+          if (!connections.get(connectionId)?.user) {
+            rejectConnection(connectionId, new SessionAuthError(AUTH_ERROR_CODES.NOT_AUTHENTICATED, 'start_transcription must succeed before sending audio'));
+            break;
+          }
+          handleAudioData(connectionId, message.data, message.channel);
           break;
           
         case 'stop_transcription':
@@ -66,7 +117,24 @@ wss.on('connection', (ws, req) => {
           break;
           
         case 'update_diarization':
-          handleUpdateDiarization(connectionId, message);
+          await handleUpdateDiarization(connectionId, message);
+          break;
+          
+        case 'resume': {
+          // A resumed socket takes over the existing session's connection
+          const resumedConnectionId = await handleResumeSession(connectionId, message);
+          if (resumedConnectionId) {
+            connectionId = resumedConnectionId;
+          }
+          break;
+        }
+          
+        case 'ack':
+          handleAck(connectionId, message);
+          break;
+
+        case 'refresh_token':
+          await handleRefreshToken(connectionId, message);
           break;
           
         default:
@@ -81,18 +149,14 @@ wss.on('connection', (ws, req) => {
     }
   });
 
-  ws.on('close', () => {
+  ws.on('close', (code) => {
     console.log(`WebSocket connection ${connectionId} closed`);
-    handleStopTranscription(connectionId);
-    connections.delete(connectionId);
-    transcriptionState.delete(connectionId);
+    handleSocketClosed(connectionId, ws, code);
   });
 
   ws.on('error', (error) => {
     console.error(`WebSocket error for ${connectionId}:`, error);
-    handleStopTranscription(connectionId);
-    connections.delete(connectionId);
-    transcriptionState.delete(connectionId);
+    handleSocketClosed(connectionId, ws);
   });
 
   // Add ping/pong to keep connection alive
@@ -115,105 +179,244 @@ wss.on('connection', (ws, req) => {
   });
 });
 
-async function handleStartTranscription(connectionId, message) {
+/**
+ * Create and start a provider session for one audio channel of a connection.
+ * The returned provider forwards its results to the client but is not yet
+ * attached to the channel.
+ */
+async function openProviderSession(connectionId, channel) {
   const connection = connections.get(connectionId);
-  if (!connection) return;
-
-  try {
-    console.log(`Starting transcription for connection ${connectionId}`);
-    
-    // Get diarization setting from message (default to true for backward compatibility)
-    const enableDiarization = message.diarization !== undefined ? message.diarization : true;
-    
-    // Create Deepgram connection
-    const deepgramConnection = deepgram.listen.live({
-      model: 'nova-2',
-      language: 'en-US',
-      smart_format: true,
-      interim_results: true,
-      diarize: enableDiarization, // Enable/disable speaker diarization based on toggle
-      encoding: 'linear16',
-      sample_rate: 16000,
-    });
+  const isLocal = channel.name === AUDIO_CHANNELS.MIC;
+  const diarization = channelUsesDiarization(channel.name, connection.diarization);
+
+  // Provider offsets restart at zero for every session; shift them so they stay relative to the recording start
+  const sessionOffset = channel.audioBytesSent / BYTES_PER_SECOND;
+  channel.sessionsOpened += 1;
+
+  // Create speech-to-text provider (Deepgram unless TRANSCRIPTION_PROVIDER says otherwise)
+  const provider = createTranscriptionProvider({
+    diarization, // Enable/disable speaker diarization based on toggle
+    language: 'en-US',
+    sampleRate: SAMPLE_RATE,
+  });
 
-    // Handle Deepgram responses
-    deepgramConnection.on('Results', (data) => {
-      const transcript = data.channel?.alternatives?.[0]?.transcript;
-      if (transcript && transcript.trim()) {
-        const state = transcriptionState.get(connectionId);
-        if (!state) return;
+  // Handle provider results
+  provider.on('transcription', (result) => {
+    const transcript = result.transcript;
+    if (transcript && transcript.trim()) {
+      const isFinal = result.isFinal;
+      const cleanTranscript = transcript.trim();
+      
+      // Prevent duplicate final results (per channel, so mic and system never suppress each other)
+      if (isFinal) {
+        if (channel.lastFinalTranscript === cleanTranscript) {
+          console.log(`Skipping duplicate final transcript for ${connectionId}`);
+          return;
+        }
+        channel.lastFinalTranscript = cleanTranscript;
+        channel.lastInterimTranscript = ''; // Clear interim when we get final
+      } else {
+        // For interim results, check if it's different from last interim
+        if (channel.lastInterimTranscript === cleanTranscript) {
+          console.log(`Skipping duplicate interim transcript for ${connectionId}`);
+          return;
+        }
+        channel.lastInterimTranscript = cleanTranscript;
+      }
 
-        const isFinal = data.is_final || false;
-        const cleanTranscript = transcript.trim();
+      // Split final results where the speaker changes so each message is attributed to one person
+      const segments = isFinal
+        ? splitBySpeaker({ ...result, transcript: cleanTranscript })
+        : [{ ...result, transcript: cleanTranscript }];
+
+      segments.forEach((segment, index) => {
+        // Extract speaker information; mic audio is always the local user
+        const speaker = isLocal ? null : segment.speaker;
+        const speakerLabel = isLocal
+          ? connection.localSpeakerLabel
+          : speaker !== null ? `Speaker ${speaker + 1}` : null;
+
+        // Word timings in seconds from the start of the recording
+        const words = segment.words.map((word) => ({
+          word: word.word,
+          start: roundSeconds(word.start + sessionOffset),
+          end: roundSeconds(word.end + sessionOffset),
+          confidence: word.confidence,
+          speaker: word.speaker
+        }));
         
-        // Prevent duplicate final results
-        if (isFinal) {
-          if (state.lastFinalTranscript === cleanTranscript) {
-            console.log(`Skipping duplicate final transcript for ${connectionId}`);
-            return;
-          }
-          state.lastFinalTranscript = cleanTranscript;
-          state.lastInterimTranscript = ''; // Clear interim when we get final
-        } else {
-          // For interim results, check if it's different from last interim
-          if (state.lastInterimTranscript === cleanTranscript) {
-            console.log(`Skipping duplicate interim transcript for ${connectionId}`);
-            return;
-          }
-          state.lastInterimTranscript = cleanTranscript;
+        // Journal final segments before telling the client so they survive a crash on either side
+        let entryId = null;
+        if (isFinal && connection.journal) {
+          const entry = createTranscriptEntry({
+            text: segment.transcript,
+            speaker: speakerLabel || 'Speaker',
+            confidence: segment.confidence,
+            words
+          });
+          connection.journal.append(entry);
+          connection.unflushedEntries += 1;
+          entryId = entry.id;
         }
-
-        // Extract speaker information
-        const speaker = data.channel?.alternatives?.[0]?.words?.[0]?.speaker || null;
-        const speakerLabel = speaker !== null ? `Speaker ${speaker + 1}` : null;
         
-        console.log(`Transcription for ${connectionId}: ${cleanTranscript} (final: ${isFinal})${speakerLabel ? ` [${speakerLabel}]` : ''}`);
-        connection.ws.send(JSON.stringify({
+        console.log(`Transcription for ${connectionId}/${channel.name}: ${segment.transcript} (final: ${isFinal})${speakerLabel ? ` [${speakerLabel}]` : ''}`);
+        sendSequenced(connection, {
           type: 'transcription',
-          transcript: cleanTranscript,
+          entry_id: entryId,
+          channel: channel.name,
+          is_local: isLocal,
+          transcript: segment.transcript,
           is_final: isFinal,
-          confidence: data.channel?.alternatives?.[0]?.confidence || 0,
+          confidence: segment.confidence,
           speaker: speaker,
-          speaker_label: speakerLabel
-        }));
-      }
+          speaker_label: speakerLabel,
+          start: words.length > 0 ? words[0].start : null,
+          end: words.length > 0 ? words[words.length - 1].end : null,
+          words,
+          segment_index: index,
+          segment_count: segments.length
+        });
+      });
+    }
+  });
+
+  provider.on('error', (error) => {
+    console.error(`${provider.name} error:`, error);
+    if (connection.ws && connection.ws.readyState === WebSocket.OPEN) {
+      connection.ws.send(JSON.stringify({
+        type: 'error',
+        message: 'Transcription error occurred'
+      }));
+    }
+  });
+
+  provider.on('close', () => {
+    console.log(`${provider.name} session closed for ${connectionId}/${channel.name}`);
+    // The next audio on this channel reopens it
+    if (channel.provider === provider) {
+      channel.provider = null;
+    }
+    // Results that arrived while the session was finishing still need to reach the database
+    flushTranscript(connection, { final: !connection.isTranscribing });
+    if (connection.ws && connection.ws.readyState === WebSocket.OPEN) {
+      connection.ws.send(JSON.stringify({
+        type: 'transcription_stopped',
+        channel: channel.name
+      }));
+    }
+  });
+
+  provider.on('metadata', (data) => {
+    console.log(`${provider.name} metadata for ${connectionId}/${channel.name}:`, data);
+  });
+
+  await provider.start();
+  return provider;
+}
+
+async function handleStartTranscription(connectionId, message) {
+  const connection = connections.get(connectionId);
+  if (!connection) return;
+
+  try {
+    console.log(`Starting transcription for connection ${connectionId}`);
+
+    // Verify the Supabase session and call ownership before any upstream session is opened
+    const { user, callId, supabase } = await authenticateSession({
+      accessToken: message.access_token,
+      callId: message.call_id
     });
+    if (connection.user && connection.user.id !== user.id) {
+      throw new SessionAuthError(AUTH_ERROR_CODES.INVALID_TOKEN, 'Session is already bound to another user');
+    }
+    connection.user = user;
+    connection.callId = callId;
+    connection.supabase = supabase;
+    console.log(`Authenticated ${connectionId} as ${user.id} for call ${callId}`);
+
+    if (callId) {
+      // Keep the journal across repeated starts so its flushed offset carries over
+      if (!connection.journal || connection.journal.callId !== callId) {
+        connection.journal = new TranscriptJournal(callId);
+      }
 
-    deepgramConnection.on('Error', (error) => {
-      console.error('Deepgram error:', error);
-      if (connection.ws && connection.ws.readyState === WebSocket.OPEN) {
+      // Hand back anything the client missed, e.g. entries journaled while it was reconnecting
+      const missedEntries = connection.journal.entriesAfter(message.last_entry_id);
+      if (missedEntries.length > 0) {
+        console.log(`Sending ${missedEntries.length} missed transcript entries to ${connectionId}`);
         connection.ws.send(JSON.stringify({
-          type: 'error',
-          message: 'Transcription error occurred'
+          type: 'transcript_backfill',
+          call_id: callId,
+          entries: missedEntries
         }));
       }
-    });
 
-    deepgramConnection.on('Close', () => {
-      console.log(`Deepgram connection closed for ${connectionId}`);
-      if (connection.ws && connection.ws.readyState === WebSocket.OPEN) {
-        connection.ws.send(JSON.stringify({
-          type: 'transcription_stopped'
-        }));
+      if (!connection.flushTimer) {
+        connection.flushTimer = setInterval(() => {
+          if (connection.unflushedEntries > 0) flushTranscript(connection);
+        }, TRANSCRIPT_FLUSH_INTERVAL_MS);
       }
-    });
+    }
 
-    // Add timeout handling
-    deepgramConnection.on('Metadata', (data) => {
-      console.log(`Deepgram metadata for ${connectionId}:`, data);
+    // A repeated start replaces the running session
+    connection.channels.forEach((channel) => {
+      if (channel.provider) {
+        channel.provider.removeAllListeners('close');
+        channel.provider.finish();
+      }
     });
+    connection.channels = new Map();
+    
+    // Get diarization setting from message (default to true for backward compatibility)
+    const enableDiarization = message.diarization !== undefined ? message.diarization : true;
+    connection.diarization = enableDiarization;
+    connection.localSpeakerLabel = (typeof message.local_speaker === 'string' && message.local_speaker.trim())
+      || user.email
+      || 'You';
+
+    // Channels the client will stream; older clients send a single untagged stream
+    const requestedChannels = Array.isArray(message.channels) && message.channels.length > 0
+      ? message.channels
+      : [DEFAULT_AUDIO_CHANNEL];
+    const channelNames = [...new Set(requestedChannels.map(parseAudioChannel))];
+    if (channelNames.includes(null)) {
+      connection.ws.send(JSON.stringify({
+        type: 'error',
+        message: `Unknown audio channel; expected one of ${Object.values(AUDIO_CHANNELS).join(', ')}`
+      }));
+      return;
+    }
+
+    // Every start is a new resumable session with its own sequence
+    if (connection.sessionId) {
+      sessions.delete(connection.sessionId);
+    }
+    connection.sessionId = crypto.randomUUID();
+    connection.seq = 0;
+    connection.outbox = [];
+    sessions.set(connection.sessionId, connectionId);
+
+    for (const channelName of channelNames) {
+      const channel = getChannel(connection, channelName);
+      channel.provider = await openProviderSession(connectionId, channel);
+    }
 
     // Update connection
-    connection.deepgramConnection = deepgramConnection;
     connection.isTranscribing = true;
 
     // Send confirmation
     connection.ws.send(JSON.stringify({
       type: 'transcription_started',
+      session_id: connection.sessionId,
       message: `Transcription started successfully for ${connectionId}`
     }));
 
   } catch (error) {
+    if (error instanceof SessionAuthError) {
+      console.warn(`Rejecting ${connectionId}: ${error.code} - ${error.message}`);
+      rejectConnection(connectionId, error);
+      return;
+    }
     console.error('Error starting transcription:', error);
     connection.ws.send(JSON.stringify({
       type: 'error',
@@ -222,73 +425,427 @@ async function handleStartTranscription(connectionId, message) {
   }
 }
 
-function handleAudioData(connectionId, audioData) {
+// Tell the client why it was rejected, then close the socket with a matching close code
+function rejectConnection(connectionId, error) {
+  const connection = connections.get(connectionId);
+  if (!connection) return;
+
+  if (connection.ws.readyState === WebSocket.OPEN) {
+    connection.ws.send(JSON.stringify({
+      type: 'error',
+      code: error.code,
+      message: error.message
+    }));
+    connection.ws.close(error.closeCode, error.code);
+  }
+}
+
+/**
+ * Reattach a new socket to a session whose socket dropped, replaying every
+ * sequenced message after `last_seq`. Returns the session's connection ID, or
+ * null when the session cannot be resumed.
+ */
+async function handleResumeSession(connectionId, message) {
+  const connection = connections.get(connectionId);
+  if (!connection) return null;
+
+  const sessionConnectionId = sessions.get(message.session_id);
+  const session = sessionConnectionId ? connections.get(sessionConnectionId) : null;
+
+  if (!session || sessionConnectionId === connectionId) {
+    console.log(`Cannot resume session ${message.session_id} for ${connectionId}: not found`);
+    connection.ws.send(JSON.stringify({
+      type: 'resume_failed',
+      session_id: message.session_id,
+      code: 'session_not_found'
+    }));
+    return null;
+  }
+
+  try {
+    // The resuming user must be the one who started the session
+    const { user, supabase } = await authenticateSession({
+      accessToken: message.access_token,
+      callId: session.callId
+    });
+    if (user.id !== session.user.id) {
+      throw new SessionAuthError(AUTH_ERROR_CODES.CALL_FORBIDDEN, 'Session belongs to another user', AUTH_CLOSE_CODES.FORBIDDEN);
+    }
+    // The resume token is newer than the one the session started with
+    session.supabase = supabase;
+  } catch (error) {
+    if (error instanceof SessionAuthError) {
+      console.warn(`Rejecting resume on ${connectionId}: ${error.code} - ${error.message}`);
+      rejectConnection(connectionId, error);
+      return null;
+    }
+    throw error;
+  }
+
+  if (session.resumeTimer) {
+    clearTimeout(session.resumeTimer);
+    session.resumeTimer = null;
+  }
+
+  // The old socket may still look open if the drop was one-sided
+  const previousWs = session.ws;
+  session.ws = connection.ws;
+  if (previousWs !== connection.ws && previousWs.readyState === WebSocket.OPEN) {
+    previousWs.terminate();
+  }
+
+  connections.delete(connectionId);
+
+  const lastSeq = Number(message.last_seq) || 0;
+  const missed = session.outbox.filter((entry) => entry.seq > lastSeq);
+  console.log(`Resumed session ${session.sessionId} on ${connectionId}, replaying ${missed.length} messages after seq ${lastSeq}`);
+
+  session.ws.send(JSON.stringify({
+    type: 'session_resumed',
+    session_id: session.sessionId,
+    last_seq: session.seq,
+    replayed: missed.length
+  }));
+  missed.forEach((entry) => session.ws.send(JSON.stringify(entry)));
+
+  // Channels whose upstream session timed out while the client was away reopen on their next audio
+  return sessionConnectionId;
+}
+
+/**
+ * Swap in a newer access token for the rest of the session. Flushes act as the
+ * user, and the token sent with start_transcription expires after about an
+ * hour, so clients send every refreshed token here. A rejected token leaves
+ * the session running; entries stay in the journal until a valid token arrives.
+ */
+async function handleRefreshToken(connectionId, message) {
+  const connection = connections.get(connectionId);
+  if (!connection || !connection.user || isAuthDisabled()) return;
+
+  try {
+    const { user, supabase } = await authenticateUser(message.access_token);
+    if (user.id !== connection.user.id) {
+      throw new SessionAuthError(AUTH_ERROR_CODES.INVALID_TOKEN, 'Token belongs to another user');
+    }
+    connection.supabase = supabase;
+    console.log(`Refreshed access token for ${connectionId}`);
+  } catch (error) {
+    if (!(error instanceof SessionAuthError)) throw error;
+    console.warn(`Ignoring token refresh on ${connectionId}: ${error.code} - ${error.message}`);
+    if (connection.ws.readyState === WebSocket.OPEN) {
+      connection.ws.send(JSON.stringify({
+        type: 'error',
+        code: error.code,
+        message: error.message
+      }));
+    }
+    return;
+  }
+
+  // Retry anything a flush with the expired token failed to write
+  flushTranscript(connection);
+}
+
+// Drop sequenced messages the client has confirmed it received
+function handleAck(connectionId, message) {
+  const connection = connections.get(connectionId);
+  if (!connection || !connection.sessionId) return;
+
+  const seq = Number(message.seq) || 0;
+  connection.outbox = connection.outbox.filter((entry) => entry.seq > seq);
+}
+
+/**
+ * Keep transcribing for a while after an unexpected drop so the client can
+ * resume; normal closes and idle sockets are torn down straight away.
+ */
+function handleSocketClosed(connectionId, ws, code) {
+  const connection = connections.get(connectionId);
+
+  // Already handed over to a resumed socket
+  if (!connection || connection.ws !== ws) return;
+
+  if (code !== 1000 && connection.sessionId && connection.isTranscribing && SESSION_RESUME_WINDOW_MS > 0) {
+    if (connection.resumeTimer) return;
+    console.log(`Holding session ${connection.sessionId} for ${SESSION_RESUME_WINDOW_MS}ms awaiting resume`);
+    connection.resumeTimer = setTimeout(() => {
+      console.log(`Session ${connection.sessionId} was not resumed`);
+      endConnection(connectionId);
+    }, SESSION_RESUME_WINDOW_MS);
+    return;
+  }
+
+  endConnection(connectionId);
+}
+
+function endConnection(connectionId) {
+  const connection = connections.get(connectionId);
+  if (!connection) return;
+
+  if (connection.resumeTimer) {
+    clearTimeout(connection.resumeTimer);
+    connection.resumeTimer = null;
+  }
+  handleStopTranscription(connectionId);
+  if (connection.sessionId) {
+    sessions.delete(connection.sessionId);
+  }
+  connections.delete(connectionId);
+}
+
+/**
+ * Stamp a message with the session ID and next sequence number and keep it
+ * for replay. Messages produced while the socket is down are only queued.
+ */
+function sendSequenced(connection, message) {
+  const sequenced = {
+    ...message,
+    session_id: connection.sessionId,
+    seq: ++connection.seq
+  };
+
+  connection.outbox.push(sequenced);
+  if (connection.outbox.length > MAX_OUTBOX_MESSAGES) {
+    connection.outbox.shift();
+  }
+
+  if (connection.ws.readyState === WebSocket.OPEN) {
+    connection.ws.send(JSON.stringify(sequenced));
+  }
+}
+
+function handleAudioData(connectionId, audioData, channelName) {
   const connection = connections.get(connectionId);
-  if (!connection || !connection.deepgramConnection || !connection.isTranscribing) {
+  if (!connection || !connection.isTranscribing) {
+    return;
+  }
+
+  const name = parseAudioChannel(channelName);
+  if (!name) {
+    console.warn(`Ignoring audio for unknown channel ${channelName} on ${connectionId}`);
     return;
   }
 
   try {
     // Convert base64 audio data to buffer
     const audioBuffer = Buffer.from(audioData, 'base64');
+    const channel = getChannel(connection, name);
+
+    // First audio on a channel, or its upstream session closed: open one and replay what arrives meanwhile
+    if (!channel.provider && !channel.isRestarting) {
+      restartChannelSession(connectionId, channel);
+    }
+
+    // Hold audio while the upstream session is being swapped; it is replayed once the new one is up
+    if (channel.isRestarting) {
+      bufferPendingAudio(channel, audioBuffer);
+      return;
+    }
     
-    // Send audio data to Deepgram
-    connection.deepgramConnection.send(audioBuffer);
+    // Send audio data to the provider
+    sendToProvider(channel, channel.provider, audioBuffer);
   } catch (error) {
     console.error('Error sending audio data:', error);
   }
 }
 
-function handleUpdateDiarization(connectionId, message) {
+function getChannel(connection, name) {
+  if (!connection.channels.has(name)) {
+    connection.channels.set(name, createChannelState(name));
+  }
+  return connection.channels.get(name);
+}
+
+/**
+ * Write journaled entries through to calls.transcript. Flushes for a
+ * connection are chained so two read-modify-write cycles never overlap. A
+ * `final` flush also deletes the journal once it has been written in full.
+ */
+function flushTranscript(connection, { final = false } = {}) {
+  if (!connection.journal || !connection.supabase) return connection.flushChain;
+
+  const { journal } = connection;
+  connection.unflushedEntries = 0;
+  connection.flushChain = connection.flushChain
+    // Read the client when the flush runs, so a token refreshed meanwhile is used
+    .then(() => flushJournalToCall(connection.supabase, journal))
+    .then((added) => {
+      if (added > 0) {
+        console.log(`Flushed ${added} transcript entries to call ${journal.callId}`);
+      }
+      if (final && journal.removeIfFlushed()) {
+        console.log(`Removed transcript journal for call ${journal.callId}`);
+      }
+    })
+    .catch((error) => {
+      console.error(`Error flushing transcript for call ${journal.callId}:`, error);
+    });
+  return connection.flushChain;
+}
+
+function sendToProvider(channel, provider, audioBuffer) {
+  channel.audioBytesSent += audioBuffer.length;
+  provider.send(audioBuffer);
+}
+
+function roundSeconds(seconds) {
+  return Math.round(seconds * 1000) / 1000;
+}
+
+function bufferPendingAudio(channel, audioBuffer) {
+  channel.pendingAudio.push(audioBuffer);
+  channel.pendingAudioBytes += audioBuffer.length;
+
+  // Drop the oldest audio rather than grow without bound if the swap stalls
+  while (channel.pendingAudioBytes > MAX_PENDING_AUDIO_BYTES && channel.pendingAudio.length > 1) {
+    const dropped = channel.pendingAudio.shift();
+    channel.pendingAudioBytes -= dropped.length;
+  }
+}
+
+async function handleUpdateDiarization(connectionId, message) {
   const connection = connections.get(connectionId);
   if (!connection) return;
 
-  console.log(`Updating diarization for connection ${connectionId}: ${message.diarization}`);
-  
-  // Store the diarization setting for this connection
-  if (connection.deepgramConnection) {
-    // Note: Deepgram doesn't support changing diarization mid-stream
-    // We'll need to restart the connection with new settings
-    console.log('Diarization setting updated, will apply on next restart');
+  if (!connection.user) {
+    rejectConnection(connectionId, new SessionAuthError(AUTH_ERROR_CODES.NOT_AUTHENTICATED, 'start_transcription must succeed before other messages'));
+    return;
+  }
+
+  const diarization = message.diarization !== false;
+  console.log(`Updating diarization for connection ${connectionId}: ${diarization}`);
+
+  const previousDiarization = connection.diarization;
+  connection.diarization = diarization;
+
+  // Providers cannot change diarization mid-stream, so reopen the diarized upstream sessions with the new setting
+  if (connection.isTranscribing && previousDiarization !== diarization) {
+    const restarts = [...connection.channels.values()]
+      .filter((channel) => channel.name !== AUDIO_CHANNELS.MIC && channel.provider && !channel.isRestarting)
+      .map((channel) => restartChannelSession(connectionId, channel));
+    await Promise.all(restarts);
   }
   
   connection.ws.send(JSON.stringify({
     type: 'diarization_updated',
-    diarization: message.diarization
+    diarization
   }));
 }
 
+/**
+ * (Re)open the upstream session for a channel. Audio that arrives while it is
+ * opening is buffered and replayed into the new session.
+ */
+async function restartChannelSession(connectionId, channel) {
+  const connection = connections.get(connectionId);
+  if (!connection) return;
+
+  const diarization = channelUsesDiarization(channel.name, connection.diarization);
+  console.log(`${channel.provider ? 'Restarting' : 'Opening'} upstream session for ${connectionId}/${channel.name} (diarization: ${diarization})`);
+
+  channel.isRestarting = true;
+  channel.pendingAudio = [];
+  channel.pendingAudioBytes = 0;
+
+  // Flush the old session; it keeps delivering its final results but must not report the transcription as stopped
+  const previousProvider = channel.provider;
+  if (previousProvider) {
+    previousProvider.removeAllListeners('close');
+    previousProvider.on('close', () => {
+      console.log(`${previousProvider.name} session closed for ${connectionId}/${channel.name} after restart`);
+    });
+    previousProvider.finish();
+  }
+
+  // Speaker numbering starts over in the new session
+  channel.lastFinalTranscript = '';
+  channel.lastInterimTranscript = '';
+
+  try {
+    const provider = await openProviderSession(connectionId, channel);
+
+    // The connection may have stopped while the new session was opening
+    if (!connection.isTranscribing || connection.channels.get(channel.name) !== channel || !connections.has(connectionId)) {
+      provider.removeAllListeners('close');
+      provider.finish();
+      return;
+    }
+
+    channel.provider = provider;
+
+    const pendingAudio = channel.pendingAudio;
+    channel.pendingAudio = [];
+    channel.pendingAudioBytes = 0;
+    channel.isRestarting = false;
+
+    pendingAudio.forEach((audioBuffer) => sendToProvider(channel, provider, audioBuffer));
+    console.log(`Replayed ${pendingAudio.length} buffered audio frames into new session for ${connectionId}/${channel.name}`);
+
+    // A channel's first session is not a restart
+    if (channel.sessionsOpened > 1) {
+      connection.ws.send(JSON.stringify({
+        type: 'session_restarted',
+        channel: channel.name,
+        diarization,
+        replayed_frames: pendingAudio.length
+      }));
+    }
+  } catch (error) {
+    console.error('Error restarting transcription session:', error);
+    channel.provider = null;
+    connection.isTranscribing = false;
+    connection.ws.send(JSON.stringify({
+      type: 'error',
+      message: 'Failed to restart transcription session'
+    }));
+  } finally {
+    channel.isRestarting = false;
+    channel.pendingAudio = [];
+    channel.pendingAudioBytes = 0;
+  }
+}
+
 function handleStopTranscription(connectionId) {
   const connection = connections.get(connectionId);
   if (!connection) return;
 
   console.log(`Stopping transcription for connection ${connectionId}`);
 
-  if (connection.deepgramConnection) {
-    connection.deepgramConnection.finish();
-    connection.deepgramConnection = null;
-  }
+  connection.channels.forEach((channel) => {
+    if (channel.provider) {
+      channel.provider.finish();
+      channel.provider = null;
+    }
+    channel.isRestarting = false;
+    channel.pendingAudio = [];
+    channel.pendingAudioBytes = 0;
+
+    // Reset transcription state
+    channel.lastFinalTranscript = '';
+    channel.lastInterimTranscript = '';
+  });
   
   connection.isTranscribing = false;
-  
-  // Reset transcription state
-  const state = transcriptionState.get(connectionId);
-  if (state) {
-    state.lastFinalTranscript = '';
-    state.lastInterimTranscript = '';
-    state.isProcessing = false;
+
+  if (connection.flushTimer) {
+    clearInterval(connection.flushTimer);
+    connection.flushTimer = null;
   }
+  flushTranscript(connection, { final: true });
   
-  connection.ws.send(JSON.stringify({
-    type: 'transcription_stopped',
-    message: `Transcription stopped for ${connectionId}`
-  }));
+  if (connection.ws.readyState === WebSocket.OPEN) {
+    connection.ws.send(JSON.stringify({
+      type: 'transcription_stopped',
+      message: `Transcription stopped for ${connectionId}`
+    }));
+  }
 }
 
 // Health check endpoint
 app.get('/health', (req, res) => {
   res.json({ 
     status: 'ok', 
+    provider: process.env.TRANSCRIPTION_PROVIDER || 'deepgram',
     connections: connections.size,
     timestamp: new Date().toISOString()
   });
@@ -300,15 +857,20 @@ server.listen(PORT, () => {
   console.log(`Health check available at http://localhost:${PORT}/health`);
 });
 
+const postCallWorker = startPostCallWorker();
+
 // Graceful shutdown
 process.on('SIGINT', () => {
   console.log('Shutting down transcription server...');
+  postCallWorker?.stop();
   
   // Close all WebSocket connections
   connections.forEach((connection) => {
-    if (connection.deepgramConnection) {
-      connection.deepgramConnection.finish();
-    }
+    connection.channels.forEach((channel) => {
+      if (channel.provider) {
+        channel.provider.finish();
+      }
+    });
     connection.ws.close();
   });
   